@@ -1,150 +1,249 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import * as THREE from 'three';
-import { ColorType, GameState, Direction } from './types';
-import { GRID_SIZE, START_POS, ALL_COLORS, INITIAL_CUBE_FACES } from './constants';
-import CubeMesh from './components/CubeMesh';
+import { BoardSize, ColorType, GameState, Direction } from './types';
+import { DEFAULT_BOARD_SIZE } from './constants';
+import { countTargets, createEngineState, toEngineState } from './engine/gameEngine';
+import { SolverOptions, solveGreedy } from './engine/solver';
+import { HINTS_PER_GAME, Hint, HintKind, advanceHint, traceHint } from './engine/hints';
+import { computeEfficiency } from './engine/scoring';
+import { Difficulty, rateBoard } from './engine/difficulty';
+import { CAMPAIGN_LEVELS, computeStars, getCampaignSummary } from './engine/campaign';
+import { CLEARED_TILE } from './engine/tiles';
+import { GameRecord, createGameRecord, getMapHash, serializeRecordsCsv, serializeRecordsJson } from './engine/gameStats';
+import { GAME_RULES, GameMode, applyModeMove, expireTime, getEndReason, resolveModeStep } from './engine/gameModes';
+import { GeneratedBoard, clampBoardSize, generateGrid } from './engine/generator';
+import {
+  MapDocument,
+  MapValidationError,
+  createMapDocument,
+  parseMapFile,
+  serializeMapDocument
+} from './engine/mapFormat';
+import { createRandomSeed, normalizeSeed } from './engine/random';
+import { buildShareUrl, decodeShareCode, encodeShareCode, parseLaunchParams } from './engine/shareCode';
+import { computeDailyStreak, createDailyMap, toDateKey } from './engine/daily';
+import { normalizePlayerName } from './engine/leaderboard';
+import { COACH_RECENT_MOVES, CoachAdvice, CoachCheck, checkCoachAdvice } from './engine/coach';
+import { MessageKey } from './engine/i18n';
+import { ControlMode, DEFAULT_VIEW_FORWARD, toBoardDirection } from './engine/controls';
+import {
+  CLEAR_OWNER_COLORS,
+  GhostPace,
+  GhostRun,
+  advanceGhost,
+  createGhostRun,
+  getClearOwners,
+  getGhostFinishTime,
+  getGhostRollTime,
+  isGhostRunning
+} from './engine/ghostRace';
+import {
+  RaceErrorCode,
+  RaceRoomView,
+  RaceSeat,
+  RaceServerMessage,
+  createRaceMap,
+  hashRaceState,
+  replayRaceMoves
+} from './engine/race';
+import { EMPTY_HISTORY, MoveHistory, canRedo, canUndo, getRedoDirection, recordMove, undoMove } from './engine/history';
+import {
+  Replay,
+  ReplayStep,
+  createReplay,
+  createSolutionReplay,
+  parseReplayFile,
+  serializeReplay
+} from './engine/replay';
+import {
+  loadCampaignProgress,
+  loadControlMode,
+  loadDailyResults,
+  loadHighScore,
+  loadPlayerName,
+  loadUndoPenalty,
+  recordCampaignResult,
+  recordDailyResult,
+  saveControlMode,
+  saveHighScore,
+  savePlayerName,
+  saveUndoPenalty
+} from './services/storage';
+import { gameHistory } from './services/gameHistory';
+import { createLeaderboardClient } from './services/leaderboardClient';
+import { RaceConnectionStatus, createRaceClient } from './services/raceClient';
+import { CoachProviderId, getCoachProviders } from './services/coach';
+import {
+  createSolverClient,
+  SolverClient,
+  SolverFailedError,
+  SolverJob,
+  unlessCancelled
+} from './workers/solverClient';
+import BoardScene from './components/BoardScene';
 import HeaderHUD from './components/HeaderHUD';
 import MobileMenuModal from './components/MobileMenuModal';
 import DPadControls from './components/DPadControls';
-import { Trophy, RefreshCw, Sparkles, AlertCircle } from 'lucide-react';
-
-// --- AI SOLVER UTILS ---
-
-interface CubeOrientation {
-  top: ColorType;
-  bottom: ColorType;
-  front: ColorType;
-  back: ColorType;
-  left: ColorType;
-  right: ColorType;
-}
-
-const rotateOrientation = (o: CubeOrientation, dir: Direction): CubeOrientation => {
-  const n = { ...o };
-  if (dir === 'up') {
-    n.top = o.back; n.front = o.top; n.bottom = o.front; n.back = o.bottom;
-  } else if (dir === 'down') {
-    n.top = o.front; n.front = o.bottom; n.bottom = o.back; n.back = o.top;
-  } else if (dir === 'left') {
-    n.top = o.right; n.right = o.bottom; n.bottom = o.left; n.left = o.top;
-  } else if (dir === 'right') {
-    n.top = o.left; n.left = o.bottom; n.bottom = o.right; n.right = o.top;
+import GameOverModal from './components/GameOverModal';
+import DailyChallengeModal from './components/DailyChallengeModal';
+import CampaignModal from './components/CampaignModal';
+import StatsModal from './components/StatsModal';
+import ReplayViewer from './components/ReplayViewer';
+import VersusGame from './components/VersusGame';
+import RaceLobbyModal from './components/RaceLobbyModal';
+import CoachPanel from './components/CoachPanel';
+import { useI18n } from './components/I18nProvider';
+import { Pencil } from 'lucide-react';
+import LevelEditor from './components/LevelEditor';
+
+// --- BOARD SETUP ---
+
+// Off the main thread the solver can afford a much larger budget.
+const SOLVER_OPTIONS: SolverOptions = { maxNodes: 100000, timeLimitMs: 8000 };
+// Hints answer while the player waits, so they get a short budget.
+const HINT_SOLVER_OPTIONS: SolverOptions = { maxNodes: 20000, timeLimitMs: 1500 };
+
+const createSeededMap = (size: BoardSize, seed: string = createRandomSeed()): MapDocument =>
+  createMapDocument(generateGrid(size, seed), { seed });
+
+// The page URL may ask for a board (?board=<code>) or a seed (?seed=…&size=WxH).
+// A bad code still starts a random board, but its errors are reported.
+const resolveLaunchMap = (): { map: MapDocument; errors: MapValidationError[] } => {
+  const params = parseLaunchParams(window.location.search, window.location.hash);
+  if (params.board) {
+    const result = decodeShareCode(params.board);
+    return { map: result.map ?? createSeededMap(DEFAULT_BOARD_SIZE), errors: result.errors };
   }
-  return n;
+  const seed = normalizeSeed(params.seed ?? '');
+  const size = clampBoardSize(params.size ?? DEFAULT_BOARD_SIZE);
+  return { map: createSeededMap(size, seed || undefined), errors: [] };
 };
 
-const getOrientationKey = (o: CubeOrientation) => `${o.top}-${o.front}`;
-
-const generateGrid = (): ColorType[][] => {
-  const totalTiles = GRID_SIZE * GRID_SIZE;
-  const playableTiles = totalTiles - 1;
-  const colorCount = ALL_COLORS.length;
-  const tilesPerColor = Math.floor(playableTiles / colorCount);
-  const colorPool: ColorType[] = [];
-  ALL_COLORS.forEach(color => {
-    for (let i = 0; i < tilesPerColor; i++) colorPool.push(color);
-  });
-  for (let i = colorPool.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [colorPool[i], colorPool[j]] = [colorPool[j], colorPool[i]];
-  }
-  const grid: ColorType[][] = [];
-  let poolIdx = 0;
-  for (let y = 0; y < GRID_SIZE; y++) {
-    const row: ColorType[] = [];
-    for (let x = 0; x < GRID_SIZE; x++) {
-      if (x === START_POS[0] && y === START_POS[1]) row.push(ColorType.GRAY);
-      else row.push(colorPool[poolIdx++]);
-    }
-    grid.push(row);
-  }
-  return grid;
+const downloadFile = (fileName: string, text: string, mimeType: string) => {
+  const dataStr = `data:${mimeType};charset=utf-8,` + encodeURIComponent(text);
+  const downloadAnchorNode = document.createElement('a');
+  downloadAnchorNode.setAttribute('href', dataStr);
+  downloadAnchorNode.setAttribute('download', fileName);
+  document.body.appendChild(downloadAnchorNode);
+  downloadAnchorNode.click();
+  downloadAnchorNode.remove();
 };
 
-const simulateAiStats = (initialGrid: ColorType[][]): { efficiency: number; moves: number } => {
-  const gridCopy = initialGrid.map(row => [...row]);
-  let currentPos: [number, number] = [START_POS[0], START_POS[1]];
-  let currentFaces = { ...INITIAL_CUBE_FACES };
-  let totalMoves = 0;
-
-  const findPath = (
-    g: ColorType[][],
-    startX: number,
-    startY: number,
-    startF: CubeOrientation
-  ): Direction[] | null => {
-    interface Node { x: number; y: number; faces: CubeOrientation; path: Direction[]; }
-    const queue: Node[] = [{ x: startX, y: startY, faces: startF, path: [] }];
-    const visited = new Set<string>();
-    visited.add(`${startX},${startY},${getOrientationKey(startF)}`);
-
-    while (queue.length > 0) {
-      const curr = queue.shift()!;
-      const tileAt = g[curr.y][curr.x];
-      if (tileAt !== ColorType.BLACK && tileAt !== ColorType.GRAY && curr.faces.bottom === tileAt) {
-        return curr.path;
-      }
-      if (curr.path.length > 15) continue;
-      for (const dir of ['up', 'down', 'left', 'right'] as Direction[]) {
-        let nx = curr.x, ny = curr.y;
-        if (dir === 'up') ny++; else if (dir === 'down') ny--; else if (dir === 'left') nx--; else if (dir === 'right') nx++;
-        if (nx < 0 || nx >= GRID_SIZE || ny < 0 || ny >= GRID_SIZE) continue;
-        const nextFaces = rotateOrientation(curr.faces, dir);
-        const key = `${nx},${ny},${getOrientationKey(nextFaces)}`;
-        if (!visited.has(key)) {
-          visited.add(key);
-          queue.push({ x: nx, y: ny, faces: nextFaces, path: [...curr.path, dir] });
-        }
-      }
-    }
-    return null;
-  };
+const downloadJson = (fileName: string, json: string) => downloadFile(fileName, json, 'text/json');
 
-  while (true) {
-    const path = findPath(gridCopy, currentPos[0], currentPos[1], currentFaces);
-    if (!path) break;
-    totalMoves += path.length;
-    for (const dir of path) {
-      currentFaces = rotateOrientation(currentFaces, dir);
-      if (dir === 'up') currentPos[1]++; else if (dir === 'down') currentPos[1]--; else if (dir === 'left') currentPos[0]--; else if (dir === 'right') currentPos[0]++;
-    }
-    gridCopy[currentPos[1]][currentPos[0]] = ColorType.BLACK;
-  }
-  const efficiency = totalMoves > 0 ? totalMoves : 0;
-  return { efficiency, moves: totalMoves };
+// optimalAiMoves stays null until the solver worker reports its first path.
+const createGameState = (map: MapDocument, mode: GameMode = 'classic'): GameState => {
+  return {
+    ...createEngineState(map.tiles, map.start, map.cubeFaces),
+    map,
+    mode,
+    endReason: null,
+    optimalAiMoves: null,
+    optimalAiProven: false,
+    aiUnsolved: null,
+    aiSolution: null,
+    difficulty: map.difficulty ?? null,
+    hintsUsed: 0,
+    highScore: loadHighScore()
+  };
 };
 
 // --- APP COMPONENT ---
 
 const App: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>(() => {
-    const grid = generateGrid();
-    const aiStats = simulateAiStats(grid);
-    return {
-      initialGrid: grid,
-      grid: grid,
-      cubePosition: [START_POS[0], START_POS[1]],
-      cubeFaces: { ...INITIAL_CUBE_FACES },
-      moves: 0,
-      optimalAiMoves: aiStats.moves || 30,
-      matchedCount: 1,
-      status: 'playing',
-      highScore: parseInt(localStorage.getItem('cube_high_score') || '0', 10)
-    };
-  });
+  const { t, locale } = useI18n();
+  const [launch] = useState(resolveLaunchMap);
+  const [boardSize, setBoardSize] = useState<BoardSize>(launch.map.size);
+  // Null keeps the plain shuffle; a difficulty makes new boards come from the rated generator.
+  const [targetDifficulty, setTargetDifficulty] = useState<Difficulty | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  // Applies from the next game; the daily challenge and the campaign are always classic.
+  const [selectedMode, setSelectedMode] = useState<GameMode>('classic');
+  const [gameState, setGameState] = useState<GameState>(() => createGameState(launch.map));
+  const [mapErrors, setMapErrors] = useState<MapValidationError[]>(launch.errors);
 
   const [isRolling, setIsRolling] = useState(false);
   const [rollDirection, setRollDirection] = useState<Direction | null>(null);
+  // 'undo' rolls play backwards from the restored state; 'redo' rolls consume the redo stack.
+  const [rollMode, setRollMode] = useState<'move' | 'undo' | 'redo'>('move');
+  const [history, setHistory] = useState<MoveHistory>(EMPTY_HISTORY);
+  const [undoPenalty, setUndoPenalty] = useState(loadUndoPenalty);
+  // The setting in force when the game started; a toggle applies from the next
+  // game, so every undo and the replay agree on it.
+  const [gameUndoPenalty, setGameUndoPenalty] = useState(undoPenalty);
+  const [controlMode, setControlMode] = useState<ControlMode>(loadControlMode);
+  // Board direction the camera looks along, snapped to a quadrant as it orbits.
+  const [cameraForward, setCameraForward] = useState<Direction>(DEFAULT_VIEW_FORWARD);
   const [isAiSolving, setIsAiSolving] = useState(false);
   const [aiMoveQueue, setAiMoveQueue] = useState<Direction[]>([]);
-  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(launch.errors.length > 0);
   const [soundEnabled, setSoundEnabled] = useState(true);
+  const [isComputingAi, setIsComputingAi] = useState(true);
+  const [dailyKey, setDailyKey] = useState<string | null>(null);
+  const [dailyResults, setDailyResults] = useState(loadDailyResults);
+  const [isDailyOpen, setIsDailyOpen] = useState(false);
+  // Index into CAMPAIGN_LEVELS while a campaign level is being played.
+  const [campaignLevel, setCampaignLevel] = useState<number | null>(null);
+  const [campaignProgress, setCampaignProgress] = useState(loadCampaignProgress);
+  const [isCampaignOpen, setIsCampaignOpen] = useState(false);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  // Loaded from the history store each time the statistics screen opens.
+  const [statsRecords, setStatsRecords] = useState<GameRecord[] | null>(null);
+  const [leaderboardClient] = useState(() => createLeaderboardClient());
+  const [playerName, setPlayerName] = useState(loadPlayerName);
+  // Online race: the connection, this player's seat and room, and the board
+  // being raced. The game is a race while gameState.map is raceMap.
+  const raceMessageRef = useRef<(message: RaceServerMessage) => void>(() => {});
+  const [raceStatus, setRaceStatus] = useState<RaceConnectionStatus>('idle');
+  const [raceClient] = useState(() =>
+    createRaceClient({ onMessage: message => raceMessageRef.current(message), onStatus: setRaceStatus })
+  );
+  const [raceLobby, setRaceLobby] = useState<{ seat: RaceSeat; room: RaceRoomView } | null>(null);
+  const [raceMap, setRaceMap] = useState<MapDocument | null>(null);
+  const [raceError, setRaceError] = useState<RaceErrorCode | null>(null);
+  const [isRaceOpen, setIsRaceOpen] = useState(false);
+  // Race against the AI ghost: the pace picked for this game, and the ghost's own
+  // run on its copy of the board once its path is known.
+  const [ghostPace, setGhostPace] = useState<GhostPace | null>(null);
+  const [ghost, setGhost] = useState<GhostRun | null>(null);
+  const [ghostRoll, setGhostRoll] = useState<Direction | null>(null);
+  // Inputs of the current game, in order, for its replay.
+  const [replaySteps, setReplaySteps] = useState<ReplayStep[]>([]);
+  const [viewer, setViewer] = useState<{ replay: Replay; title: MessageKey } | null>(null);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [hintLoading, setHintLoading] = useState<HintKind | null>(null);
+  // Set when the solver found nothing to hint from the current position.
+  const [isHintUnavailable, setIsHintUnavailable] = useState(false);
+  // Coach advice belongs to the position it was asked for.
+  const [coachProviders] = useState(getCoachProviders);
+  const [coachProviderId, setCoachProviderId] = useState<CoachProviderId>(() => coachProviders[0].id);
+  const [isCoachOpen, setIsCoachOpen] = useState(false);
+  const [isCoachLoading, setIsCoachLoading] = useState(false);
+  const [coachError, setCoachError] = useState<string | null>(null);
+  const [coachResult, setCoachResult] = useState<{ advice: CoachAdvice; check: CoachCheck } | null>(null);
+  // While a test play runs the editor stays mounted in state, hidden.
+  const [editorMap, setEditorMap] = useState<MapDocument | null>(null);
+  const [isTestingMap, setIsTestingMap] = useState(false);
+  // Board of a local two-player match; the solo game waits underneath.
+  const [versusMap, setVersusMap] = useState<MapDocument | null>(null);
+  // Drives the time attack countdown while it runs.
+  const [clock, setClock] = useState(() => performance.now());
 
   const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+  const solverRef = useRef<SolverClient | null>(null);
+  const aiPathJobRef = useRef<SolverJob<Direction[] | null> | null>(null);
+  const hintJobRef = useRef<{ cancel: () => void } | null>(null);
+  const coachJobRef = useRef<{ cancel: () => void } | null>(null);
+  const generateJobRef = useRef<{ cancel: () => void } | null>(null);
   const audioContext = useRef<AudioContext | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const gameStartRef = useRef(performance.now());
+  // Input time and source of the roll in flight; recorded once the roll lands.
+  const pendingStepRef = useRef<Omit<ReplayStep, 'input'> | null>(null);
+  // Whether the current game is already in the history, and when (ms into it) it ended.
+  const isRecordedRef = useRef(false);
+  const gameEndRef = useRef<number | null>(null);
 
   const playSound = (freq: number, type: OscillatorType = 'sine', duration: number = 0.1) => {
     if (!soundEnabled) return;
@@ -165,102 +264,391 @@ const App: React.FC = () => {
     } catch (e) {}
   };
 
+  // --- MODE RULES ---
+  const rules = GAME_RULES[gameState.mode];
+  const ruleContext = {
+    targets: countTargets(gameState.map.tiles),
+    // The solver's figure only counts once final, so a limit never shrinks mid-game.
+    par: gameState.map.par ?? (isComputingAi ? null : gameState.optimalAiMoves)
+  };
+  const moveLimit = rules.getMoveLimit(ruleContext);
+  const timeLimit = rules.getTimeLimit(ruleContext);
+  // Without a solver figure at all, the move limit is dropped rather than awaited.
+  const isAwaitingPar = rules.usesPar && ruleContext.par === null && gameState.aiUnsolved === null;
+  const timeLeft =
+    timeLimit === null
+      ? null
+      : Math.min(timeLimit, Math.max(0, timeLimit - (clock - gameStartRef.current) / 1000));
+
+  // --- ONLINE RACE ---
+  // Undo, hints and the AI are off in a race; rolls wait while the connection is down.
+  const isRaceGame = raceMap !== null && gameState.map === raceMap;
+  const isRacing = isRaceGame && raceLobby?.room.phase === 'racing';
+  const raceOpponent = isRaceGame ? raceLobby?.room.players.find(player => player.seat !== raceLobby.seat) ?? null : null;
+
+  const cancelHint = () => {
+    hintJobRef.current?.cancel();
+    hintJobRef.current = null;
+    setHintLoading(null);
+    setIsHintUnavailable(false);
+  };
+
+  const cancelCoach = () => {
+    coachJobRef.current?.cancel();
+    coachJobRef.current = null;
+    setIsCoachLoading(false);
+  };
+
   const handleRoll = useCallback(
-    (dir: Direction) => {
-      if (isRolling || gameState.status !== 'playing') return;
+    (dir: Direction, mode: 'move' | 'redo' = 'move') => {
+      if (isRolling || gameState.status !== 'playing' || isAwaitingPar) return;
+      if (isRaceGame && (!isRacing || raceStatus !== 'open')) return;
+      // Walls and wrong-way arrows (and, in zen mode, edges) stop the cube before it tips.
+      if (resolveModeStep(rules, gameState.grid, gameState.cubePosition, dir) === 'blocked') {
+        playSound(90, 'triangle', 0.08);
+        return;
+      }
+      pendingStepRef.current = {
+        at: Math.round(performance.now() - gameStartRef.current),
+        source: isAiSolving ? 'ai' : 'player'
+      };
       setRollDirection(dir);
+      setRollMode(mode);
       setIsRolling(true);
       playSound(200, 'square', 0.1);
     },
-    [isRolling, gameState.status, soundEnabled]
+    [isRolling, gameState, isAiSolving, soundEnabled, rules, isAwaitingPar, isRaceGame, isRacing, raceStatus]
   );
 
+  // Keys and swipes name screen directions; world-fixed controls read them from the default camera.
+  const viewForward = controlMode === 'camera' ? cameraForward : DEFAULT_VIEW_FORWARD;
+  const rollScreen = useCallback((screen: Direction) => handleRoll(toBoardDirection(screen, viewForward)), [
+    handleRoll,
+    viewForward
+  ]);
+
+  const undo = useCallback(() => {
+    if (isRolling || isAiSolving || isRaceGame) return;
+    const undone = undoMove(gameState, history, gameUndoPenalty);
+    if (!undone) return;
+    setGameState({ ...undone.state, endReason: null });
+    setHistory(undone.history);
+    cancelHint();
+    setHint(null);
+    setReplaySteps(prev => [
+      ...prev,
+      { at: Math.round(performance.now() - gameStartRef.current), input: 'undo', source: 'player' }
+    ]);
+    playSound(300, 'triangle', 0.1);
+    // A fall never left the board, so there is no roll to play back.
+    if (gameState.endReason === 'fell') return;
+    setRollDirection(undone.entry.direction);
+    setRollMode('undo');
+    setIsRolling(true);
+  }, [gameState, history, gameUndoPenalty, isRolling, isAiSolving, isRaceGame, soundEnabled]);
+
+  const redo = useCallback(() => {
+    const direction = getRedoDirection(history);
+    if (isAiSolving || isRaceGame || !direction || !canRedo(history, gameState)) return;
+    handleRoll(direction, 'redo');
+  }, [history, gameState, isAiSolving, isRaceGame, handleRoll]);
+
   const completeRoll = useCallback(() => {
     if (!rollDirection) return;
-    setGameState(prev => {
-      let [x, y] = prev.cubePosition;
-      const oldFaces = { ...prev.cubeFaces };
-      const newFaces = rotateOrientation(oldFaces, rollDirection!);
-
-      switch (rollDirection) {
-        case 'up': y += 1; break;
-        case 'down': y -= 1; break;
-        case 'left': x -= 1; break;
-        case 'right': x += 1; break;
-      }
+    if (rollMode === 'undo') {
+      // The restored state was applied when the undo started.
+      setIsRolling(false);
+      setRollDirection(null);
+      setRollMode('move');
+      return;
+    }
+    const { state: moved, events } = applyModeMove(rules, gameState, rollDirection, moveLimit);
 
-      if (x < 0 || x >= GRID_SIZE || y < 0 || y >= GRID_SIZE) {
-        setIsAiSolving(false);
-        playSound(100, 'sawtooth', 0.5);
-        return { ...prev, status: 'lost' };
+    for (const event of events) {
+      switch (event.type) {
+        case 'fell':
+          setIsAiSolving(false);
+          playSound(100, 'sawtooth', 0.5);
+          break;
+        case 'matched':
+          playSound(600, 'sine', 0.1);
+          break;
+        case 'painted':
+          playSound(400, 'triangle', 0.15);
+          break;
+        case 'outOfMoves':
+          setIsAiSolving(false);
+          playSound(120, 'sawtooth', 0.4);
+          break;
+        case 'won':
+          setIsAiSolving(false);
+          playSound(800, 'sine', 0.5);
+          break;
       }
+    }
 
-      const nextMoves = prev.moves + 1;
-      const currentTileColor = prev.grid[y][x];
-      let nextGrid = prev.grid;
-      let nextMatchedCount = prev.matchedCount;
-
-      if (
-        currentTileColor !== ColorType.BLACK &&
-        currentTileColor !== ColorType.GRAY &&
-        currentTileColor === newFaces.bottom
-      ) {
-        playSound(600, 'sine', 0.1);
-        nextGrid = prev.grid.map((row, ry) =>
-          row.map((col, rx) => (ry === y && rx === x ? ColorType.BLACK : col))
-        );
-        nextMatchedCount += 1;
-      }
+    if (moved.status !== 'playing') gameEndRef.current = performance.now() - gameStartRef.current;
+    if (isRacing) reportRaceMove(gameState.moves, rollDirection, moved);
+    setGameState({ ...moved, endReason: getEndReason(events) });
+    setHistory(prev => recordMove(prev, gameState, rollDirection, rollMode === 'redo'));
+    cancelHint();
+    setHint(prev => advanceHint(prev, rollDirection));
+    const pendingStep = pendingStepRef.current;
+    pendingStepRef.current = null;
+    if (pendingStep) setReplaySteps(prev => [...prev, { ...pendingStep, input: rollDirection }]);
+    setIsRolling(false);
+    setRollDirection(null);
+    setRollMode('move');
+  }, [gameState, rollDirection, rollMode, soundEnabled, rules, moveLimit, isRacing]);
 
-      const isWon = nextMatchedCount === GRID_SIZE * GRID_SIZE;
-      if (isWon) {
-        setIsAiSolving(false);
-        playSound(800, 'sine', 0.5);
-        const finalEfficiency = Math.min(
-          100,
-          Math.round((prev.optimalAiMoves / nextMoves) * 100)
-        );
-        if (finalEfficiency > prev.highScore) {
-          localStorage.setItem('cube_high_score', finalEfficiency.toString());
-        }
+  // Any roll, undo or new board makes the coach's advice stale.
+  useEffect(() => {
+    cancelCoach();
+    setCoachResult(null);
+    setCoachError(null);
+  }, [gameState.map, gameState.cubePosition, gameState.cubeFaces]);
 
-        return {
-          ...prev,
-          grid: nextGrid,
-          cubePosition: [x, y],
-          cubeFaces: newFaces,
-          moves: nextMoves,
-          matchedCount: nextMatchedCount,
-          status: 'won',
-          highScore: Math.max(prev.highScore, finalEfficiency),
-          aiComparisonScore: 100,
-          aiComparisonMoves: prev.optimalAiMoves
-        };
-      }
+  useEffect(() => {
+    if (timeLimit === null || gameState.status !== 'playing') return;
+    const timer = setInterval(() => setClock(performance.now()), 250);
+    return () => clearInterval(timer);
+  }, [timeLimit, gameState.status]);
 
-      return {
-        ...prev,
-        grid: nextGrid,
-        cubePosition: [x, y],
-        cubeFaces: newFaces,
-        moves: nextMoves,
-        matchedCount: nextMatchedCount
-      };
+  // A roll in flight still lands before the countdown ends the game.
+  useEffect(() => {
+    if (timeLeft !== 0 || isRolling || gameState.status !== 'playing') return;
+    const { state, events } = expireTime(gameState);
+    setIsAiSolving(false);
+    setAiMoveQueue([]);
+    cancelAiPath();
+    cancelHint();
+    playSound(100, 'sawtooth', 0.5);
+    gameEndRef.current = performance.now() - gameStartRef.current;
+    setGameState({ ...state, endReason: getEndReason(events) });
+  }, [timeLeft, isRolling, gameState]);
+
+  // Scores a win once the solver's figure is known, which may be after the last roll.
+  useEffect(() => {
+    if (
+      gameState.status !== 'won' ||
+      (gameState.optimalAiMoves === null && gameState.aiUnsolved === null) ||
+      isComputingAi ||
+      gameState.aiComparisonScore !== undefined
+    )
+      return;
+    const finalEfficiency = computeEfficiency(gameState.optimalAiMoves, gameState.moves, gameState.hintsUsed);
+    if (finalEfficiency > gameState.highScore) {
+      saveHighScore(finalEfficiency);
+    }
+    if (dailyKey) {
+      setDailyResults(
+        recordDailyResult(dailyKey, {
+          moves: gameState.moves,
+          efficiency: finalEfficiency,
+          completedAt: new Date().toISOString()
+        })
+      );
+    }
+    if (campaignLevel !== null) {
+      const level = CAMPAIGN_LEVELS[campaignLevel];
+      setCampaignProgress(
+        recordCampaignResult(level.id, {
+          stars: computeStars(gameState.moves, level.par),
+          bestMoves: gameState.moves,
+          completedAt: new Date().toISOString()
+        })
+      );
+    }
+    recordGame(gameState);
+    setGameState(prev => ({
+      ...prev,
+      highScore: Math.max(prev.highScore, finalEfficiency),
+      aiComparisonScore: 100,
+      aiComparisonMoves: prev.optimalAiMoves ?? undefined
+    }));
+  }, [gameState, isComputingAi, dailyKey, campaignLevel]);
+
+  useEffect(() => {
+    const solver = createSolverClient();
+    solverRef.current = solver;
+    return () => {
+      solverRef.current = null;
+      solver.terminate();
+    };
+  }, []);
+
+  // Solves every new board in the worker; restarting or loading another map
+  // replaces the map, which cancels the stale job.
+  useEffect(() => {
+    const solver = solverRef.current;
+    if (!solver) return;
+    const map = gameState.map;
+    const applyToBoard = (update: (prev: GameState) => GameState) =>
+      setGameState(prev => (prev.map === map ? update(prev) : prev));
+
+    setIsComputingAi(true);
+    const state = createEngineState(map.tiles, map.start, map.cubeFaces);
+    const job = solver.solve(state, SOLVER_OPTIONS, {
+      onPartial: path => applyToBoard(prev => ({ ...prev, optimalAiMoves: path.length, aiSolution: path }))
     });
+    let isCurrent = true;
+    job.promise
+      .then(result =>
+        applyToBoard(prev => ({
+          ...prev,
+          optimalAiMoves: result.path ? result.moves : null,
+          optimalAiProven: result.status === 'optimal',
+          aiUnsolved: result.path ? null : result.status === 'unsolvable' ? 'unsolvable' : 'unknown',
+          aiSolution: result.path?.length ? result.path : prev.aiSolution,
+          difficulty: prev.difficulty ?? rateBoard(state, result)?.difficulty ?? null
+        }))
+      )
+      // A failed search must not leave the HUD computing or the win unscored.
+      .catch(
+        unlessCancelled(() =>
+          applyToBoard(prev => (prev.optimalAiMoves === null ? { ...prev, aiUnsolved: 'unknown' } : prev))
+        )
+      )
+      .finally(() => isCurrent && setIsComputingAi(false));
+    return () => {
+      isCurrent = false;
+      job.cancel();
+    };
+  }, [gameState.map]);
+
+  const cancelAiPath = () => {
+    aiPathJobRef.current?.cancel();
+    aiPathJobRef.current = null;
+  };
+
+  // --- GAME HISTORY ---
+  // Wins go into the history once scored; losses (which an undo can still take
+  // back) and unfinished games when the player moves on or leaves the page.
+  const recordGame = (state: GameState) => {
+    if (isRecordedRef.current) return;
+    isRecordedRef.current = true;
+    const lastInput = replaySteps[replaySteps.length - 1]?.at ?? 0;
+    gameHistory.add(
+      createGameRecord(state, {
+        playedAt: new Date(),
+        durationMs: Math.round(state.status === 'playing' ? lastInput : gameEndRef.current ?? lastInput),
+        undos: replaySteps.filter(step => step.input === 'undo').length
+      })
+    );
+  };
+
+  const leaveGame = () => {
+    if (gameState.moves > 0 || gameState.status !== 'playing') recordGame(gameState);
+  };
+  const leaveGameRef = useRef(leaveGame);
+  leaveGameRef.current = leaveGame;
+
+  useEffect(() => {
+    const handlePageHide = () => leaveGameRef.current();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  const openStats = () => {
+    setStatsRecords(null);
+    setIsStatsOpen(true);
+    gameHistory.list().then(setStatsRecords);
+  };
+
+  const exportStats = (format: 'csv' | 'json') => {
+    if (!statsRecords) return;
+    if (format === 'csv') downloadFile('chromatic_history.csv', serializeRecordsCsv(statsRecords), 'text/csv');
+    else downloadJson('chromatic_history.json', serializeRecordsJson(statsRecords));
+  };
+
+  // dailyKey marks the game as that date's daily challenge; campaignLevel as a
+  // campaign level; isRace as the board of the online race.
+  const startGame = (
+    map: MapDocument,
+    nextDailyKey: string | null = null,
+    nextCampaignLevel: number | null = null,
+    isRace = false
+  ) => {
+    cancelGenerate();
+    leaveGame();
+    isRecordedRef.current = false;
+    gameEndRef.current = null;
+    const isRanked = nextDailyKey !== null || nextCampaignLevel !== null || isRace;
+    setGameState(createGameState(map, isRanked ? 'classic' : selectedMode));
+    // Set in the same batch as the new board, so nothing waiting on the solver
+    // (such as the ghost) reads the previous game's result. Every caller passes a
+    // new map object, so the solve effect always runs and clears it again.
+    setIsComputingAi(true);
+    setDailyKey(nextDailyKey);
+    setCampaignLevel(nextCampaignLevel);
+    setRaceMap(isRace ? map : null);
+    setGhostPace(null);
+    setGhost(null);
+    setGhostRoll(null);
+    setIsTestingMap(false);
     setIsRolling(false);
     setRollDirection(null);
-  }, [rollDirection, soundEnabled]);
+    setRollMode('move');
+    setHistory(EMPTY_HISTORY);
+    setGameUndoPenalty(undoPenalty);
+    setReplaySteps([]);
+    gameStartRef.current = performance.now();
+    setClock(gameStartRef.current);
+    pendingStepRef.current = null;
+    setIsAiSolving(false);
+    setAiMoveQueue([]);
+    cancelAiPath();
+    cancelHint();
+    setHint(null);
+  };
+
+  const cancelGenerate = () => {
+    generateJobRef.current?.cancel();
+    generateJobRef.current = null;
+    setIsGenerating(false);
+  };
+
+  // Rated boards are generated in the worker; if no candidate could be solved
+  // the plain shuffle is used instead.
+  const startNewBoard = (seed: string = createRandomSeed()) => {
+    const solver = solverRef.current;
+    if (!targetDifficulty || !solver) {
+      startGame(createSeededMap(boardSize, seed));
+      return;
+    }
+    cancelGenerate();
+    const size = boardSize;
+    const job = solver.generate(size, seed, targetDifficulty);
+    generateJobRef.current = job;
+    setIsGenerating(true);
+    const onBoard = (board: GeneratedBoard | null) => {
+      generateJobRef.current = null;
+      startGame(
+        board
+          ? createMapDocument(board.tiles, { seed, difficulty: board.rating.difficulty })
+          : createSeededMap(size, seed)
+      );
+    };
+    // A failed worker also falls back to the plain shuffle.
+    job.promise.then(onBoard, unlessCancelled(() => onBoard(null)));
+  };
+
+  const toggleUndoPenalty = () => {
+    saveUndoPenalty(!undoPenalty);
+    setUndoPenalty(!undoPenalty);
+  };
+
+  const toggleControlMode = () => {
+    const next = controlMode === 'camera' ? 'world' : 'camera';
+    saveControlMode(next);
+    setControlMode(next);
+  };
 
   const saveMap = () => {
-    const dataStr =
-      'data:text/json;charset=utf-8,' +
-      encodeURIComponent(JSON.stringify(gameState.initialGrid));
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute('href', dataStr);
-    downloadAnchorNode.setAttribute('download', 'chromatic_grid.json');
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+    const { map, optimalAiMoves, optimalAiProven } = gameState;
+    // Boards without a designer par take the solver's proven optimum.
+    const par = map.par ?? (optimalAiProven ? optimalAiMoves : null);
+    downloadJson('chromatic_map.json', serializeMapDocument({ ...map, par }));
   };
 
   const handleLoadMap = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -268,32 +656,148 @@ const App: React.FC = () => {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = e => {
-      try {
-        const grid = JSON.parse(e.target?.result as string);
-        if (Array.isArray(grid) && grid.length === GRID_SIZE) {
-          const aiStats = simulateAiStats(grid);
-          setGameState({
-            initialGrid: grid,
-            grid: grid,
-            cubePosition: [START_POS[0], START_POS[1]],
-            cubeFaces: { ...INITIAL_CUBE_FACES },
-            moves: 0,
-            optimalAiMoves: aiStats.moves || 30,
-            matchedCount: 1,
-            status: 'playing',
-            highScore: parseInt(localStorage.getItem('cube_high_score') || '0', 10)
-          });
-          setIsAiSolving(false);
-          setAiMoveQueue([]);
-        }
-      } catch (err) {
-        alert('Erro ao carregar o mapa. Verifique o arquivo JSON.');
+      const result = parseMapFile(String(e.target?.result ?? ''));
+      if (!result.map) {
+        setMapErrors(result.errors);
+        setIsMenuOpen(true);
+        return;
       }
+      setMapErrors([]);
+      setBoardSize(result.map.size);
+      startGame(result.map);
     };
     reader.readAsText(file);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // A hint is only charged once the solver actually returns a path.
+  const requestHint = (kind: HintKind) => {
+    const solver = solverRef.current;
+    if (
+      !solver ||
+      isRaceGame ||
+      hintLoading ||
+      isRolling ||
+      isAiSolving ||
+      gameState.status !== 'playing' ||
+      gameState.hintsUsed >= HINTS_PER_GAME
+    )
+      return;
+    const state = toEngineState(gameState);
+    const map = gameState.map;
+    const onPath = (path: Direction[] | null) => {
+      hintJobRef.current = null;
+      setHintLoading(null);
+      const traced = path ? traceHint(state, kind, path) : null;
+      if (!traced || traced.steps.length === 0) {
+        setIsHintUnavailable(true);
+        return;
+      }
+      setHint(traced);
+      setGameState(prev => (prev.map === map ? { ...prev, hintsUsed: prev.hintsUsed + 1 } : prev));
+    };
+
+    setHintLoading(kind);
+    setIsHintUnavailable(false);
+    if (kind === 'move') {
+      const job = solver.solve(state, HINT_SOLVER_OPTIONS);
+      hintJobRef.current = job;
+      job.promise.then(
+        result => onPath(result.path?.slice(0, 1) ?? null),
+        unlessCancelled(() => onPath(null))
+      );
+    } else {
+      const job = solver.findNearestPath(state.grid, state.cubePosition, state.cubeFaces);
+      hintJobRef.current = job;
+      job.promise.then(onPath, unlessCancelled(() => onPath(null)));
+    }
+  };
+
+  // The provider and the solver run side by side; the advice is checked against
+  // the solver's path and, like a hint, charged once it arrives.
+  const requestCoach = () => {
+    const solver = solverRef.current;
+    const provider = coachProviders.find(p => p.id === coachProviderId);
+    if (
+      !solver ||
+      !provider ||
+      isRaceGame ||
+      isRolling ||
+      isAiSolving ||
+      gameState.status !== 'playing' ||
+      gameState.hintsUsed >= HINTS_PER_GAME
+    )
+      return;
+    cancelCoach();
+    const state = toEngineState(gameState);
+    const map = gameState.map;
+    const recentMoves = replaySteps
+      .map(step => step.input)
+      .filter((input): input is Direction => input !== 'undo')
+      .slice(-COACH_RECENT_MOVES);
+    const job = solver.solve(state, HINT_SOLVER_OPTIONS);
+    let isCancelled = false;
+    coachJobRef.current = {
+      cancel: () => {
+        isCancelled = true;
+        job.cancel();
+      }
+    };
+    setIsCoachLoading(true);
+    setCoachError(null);
+    setCoachResult(null);
+    Promise.all([provider.advise({ state, recentMoves, locale, viewForward }), job.promise]).then(
+      ([advice, result]) => {
+        if (isCancelled) return;
+        coachJobRef.current = null;
+        setIsCoachLoading(false);
+        setCoachResult({ advice, check: checkCoachAdvice(state, advice, result.path) });
+        setGameState(prev => (prev.map === map ? { ...prev, hintsUsed: prev.hintsUsed + 1 } : prev));
+      },
+      (err: Error) => {
+        if (isCancelled) return;
+        coachJobRef.current = null;
+        job.cancel();
+        setIsCoachLoading(false);
+        setCoachError(err instanceof SolverFailedError ? t('coach.error.solver') : err.message);
+      }
+    );
+  };
+
+  const showCoachPlan = () => {
+    if (!coachResult) return;
+    const traced = traceHint(toEngineState(gameState), 'path', coachResult.advice.moves);
+    if (traced.steps.length > 0) setHint(traced);
+  };
+
+  const watchReplay = () =>
+    setViewer({ replay: createReplay(gameState.map, replaySteps, gameUndoPenalty), title: 'replay.yours' });
+
+  const watchAiSolution = () => {
+    if (!gameState.aiSolution) return;
+    setViewer({ replay: createSolutionReplay(gameState.map, gameState.aiSolution), title: 'replay.aiSolution' });
+  };
+
+  const exportReplay = (replay: Replay) => downloadJson('chromatic_replay.json', serializeReplay(replay));
+
+  const handleLoadReplay = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = e => {
+      const result = parseReplayFile(String(e.target?.result ?? ''));
+      if (!result.replay) {
+        setMapErrors(result.errors);
+        setIsMenuOpen(true);
+        return;
+      }
+      setMapErrors([]);
+      setViewer({ replay: result.replay, title: 'replay.imported' });
+    };
+    reader.readAsText(file);
+    if (replayInputRef.current) replayInputRef.current.value = '';
+  };
+
   const runAiStep = useCallback(() => {
     if (!isAiSolving || gameState.status !== 'playing' || isRolling) return;
     if (aiMoveQueue.length > 0) {
@@ -302,49 +806,15 @@ const App: React.FC = () => {
       handleRoll(nextMove);
       return;
     }
-    const startX = gameState.cubePosition[0],
-      startY = gameState.cubePosition[1],
-      startFaces = gameState.cubeFaces;
-    interface Node {
-      x: number;
-      y: number;
-      faces: CubeOrientation;
-      path: Direction[];
-    }
-    const queue: Node[] = [{ x: startX, y: startY, faces: startFaces, path: [] }];
-    const visited = new Set<string>();
-    visited.add(`${startX},${startY},${getOrientationKey(startFaces)}`);
-    let bestPath: Direction[] | null = null;
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      const tileAt = gameState.grid[current.y][current.x];
-      if (
-        tileAt !== ColorType.BLACK &&
-        tileAt !== ColorType.GRAY &&
-        current.faces.bottom === tileAt
-      ) {
-        bestPath = current.path;
-        break;
-      }
-      if (current.path.length > 15) continue;
-      for (const dir of ['up', 'down', 'left', 'right'] as Direction[]) {
-        let nx = current.x,
-          ny = current.y;
-        if (dir === 'up') ny += 1;
-        else if (dir === 'down') ny -= 1;
-        else if (dir === 'left') nx -= 1;
-        else if (dir === 'right') nx += 1;
-        if (nx < 0 || nx >= GRID_SIZE || ny < 0 || ny >= GRID_SIZE) continue;
-        const nextFaces = rotateOrientation(current.faces, dir);
-        const key = `${nx},${ny},${getOrientationKey(nextFaces)}`;
-        if (!visited.has(key)) {
-          visited.add(key);
-          queue.push({ x: nx, y: ny, faces: nextFaces, path: [...current.path, dir] });
-        }
-      }
-    }
-    if (bestPath) setAiMoveQueue(bestPath);
-    else setIsAiSolving(false);
+    if (aiPathJobRef.current || !solverRef.current) return;
+    const job = solverRef.current.findNearestPath(gameState.grid, gameState.cubePosition, gameState.cubeFaces);
+    aiPathJobRef.current = job;
+    const onBestPath = (bestPath: Direction[] | null) => {
+      aiPathJobRef.current = null;
+      if (bestPath) setAiMoveQueue(bestPath);
+      else setIsAiSolving(false);
+    };
+    job.promise.then(onBestPath, unlessCancelled(() => onBestPath(null)));
   }, [isAiSolving, gameState, isRolling, aiMoveQueue, handleRoll]);
 
   useEffect(() => {
@@ -355,62 +825,232 @@ const App: React.FC = () => {
   }, [isAiSolving, runAiStep]);
 
   const toggleAi = () => {
-    if (gameState.status === 'playing') {
+    if (gameState.status === 'playing' && !isAwaitingPar && !isRaceGame) {
       setAiMoveQueue([]);
+      cancelAiPath();
       setIsAiSolving(!isAiSolving);
     }
   };
 
   const restart = () => {
-    const grid = generateGrid();
-    const aiStats = simulateAiStats(grid);
-    setGameState({
-      initialGrid: grid,
-      grid: grid,
-      cubePosition: [START_POS[0], START_POS[1]],
-      cubeFaces: { ...INITIAL_CUBE_FACES },
-      moves: 0,
-      optimalAiMoves: aiStats.moves || 30,
-      matchedCount: 1,
-      status: 'playing',
-      highScore: parseInt(localStorage.getItem('cube_high_score') || '0', 10)
-    });
+    if (ghostPace) {
+      startGhostRace(ghostPace);
+      return;
+    }
+    if (isTestingMap && editorMap) {
+      testPlayMap(editorMap);
+      return;
+    }
+    if (campaignLevel !== null) {
+      startCampaignLevel(campaignLevel);
+      return;
+    }
+    startNewBoard();
+  };
+
+  const openEditor = () => setEditorMap(createMapDocument(gameState.map.tiles, { ...gameState.map }));
+
+  // A fresh copy, so replaying an unchanged map still gets the solver run again.
+  const testPlayMap = (map: MapDocument) => {
+    startGame(createMapDocument(map.tiles, { ...map }));
+    setIsTestingMap(true);
+  };
+
+  const loadShareCode = (code: string) => {
+    const result = decodeShareCode(code);
+    setMapErrors(result.errors);
+    if (!result.map) return false;
+    setBoardSize(result.map.size);
+    startGame(result.map);
+    return true;
+  };
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  };
+
+  const changePlayerName = (name: string) => {
+    setPlayerName(name);
+    savePlayerName(name);
+  };
+
+  const startDaily = (dateKey: string) => startGame(createDailyMap(dateKey, locale), dateKey);
+
+  const startCampaignLevel = (index: number) => {
+    const level = CAMPAIGN_LEVELS[index];
+    if (!level) return;
+    setIsCampaignOpen(false);
+    const title = level.titleKey ? t(level.titleKey) : level.map.title;
+    // A fresh copy each time, so a retry gets the solver run again.
+    startGame(createMapDocument(level.map.tiles, { ...level.map, title }), null, index);
+  };
+
+  const startSeed = (seed: string) => {
+    const normalized = normalizeSeed(seed);
+    if (normalized) startNewBoard(normalized);
+  };
+
+  // --- GHOST AI RACE ---
+  // A fresh copy of the map, so the solver runs again and the ghost gets a path.
+  const startGhostRace = (pace: GhostPace) => {
+    startGame(createMapDocument(gameState.map.tiles, { ...gameState.map }));
+    setGhostPace(pace);
+  };
+
+  // The ghost sets off once the solver has settled on its path; boards it could
+  // not solve fall back to the greedy path.
+  useEffect(() => {
+    if (!ghostPace || ghost || isComputingAi) return;
+    const map = gameState.map;
+    const state = createEngineState(map.tiles, map.start, map.cubeFaces);
+    const path = gameState.aiSolution ?? solveGreedy(state).path;
+    if (path.length === 0) {
+      setGhostPace(null);
+      return;
+    }
+    setGhost(createGhostRun(state, path, ghostPace, performance.now() - gameStartRef.current));
+  }, [ghostPace, ghost, isComputingAi, gameState.map, gameState.aiSolution]);
+
+  // Rolls start on a fixed schedule from the ghost's start, whatever the frame rate.
+  useEffect(() => {
+    if (!ghost || ghostRoll || !isGhostRunning(ghost)) return;
+    const delay = getGhostRollTime(ghost) - (performance.now() - gameStartRef.current);
+    const timer = setTimeout(() => setGhostRoll(ghost.path[ghost.step]), Math.max(0, delay));
+    return () => clearTimeout(timer);
+  }, [ghost, ghostRoll]);
+
+  const completeGhostRoll = () => {
+    setGhost(prev => prev && advanceGhost(prev, performance.now() - gameStartRef.current).run);
+    setGhostRoll(null);
+  };
+
+  // Every roll is checked by the server; a cleared board is claimed as soon as it lands.
+  const reportRaceMove = (index: number, direction: Direction, moved: GameState) => {
+    raceClient.send({ type: 'move', index, direction });
+    raceClient.send({ type: 'stateHash', moves: moved.moves, hash: hashRaceState(moved) });
+    if (moved.status === 'won') raceClient.send({ type: 'finished', moves: moved.moves, hash: hashRaceState(moved) });
+  };
+
+  // Rebuilds the race board from the moves the server accepted.
+  const resyncRace = (map: MapDocument, moves: Direction[]) => {
+    const state = replayRaceMoves(map, moves);
+    setGameState(prev =>
+      prev.map === map ? { ...prev, ...state, endReason: state.status === 'lost' ? 'fell' : null } : prev
+    );
     setIsRolling(false);
     setRollDirection(null);
-    setIsAiSolving(false);
-    setAiMoveQueue([]);
+    setRollMode('move');
+    pendingStepRef.current = null;
+    if (state.status === 'won') raceClient.send({ type: 'finished', moves: state.moves, hash: hashRaceState(state) });
+  };
+
+  const handleRaceMessage = (message: RaceServerMessage) => {
+    switch (message.type) {
+      case 'lobby':
+        setRaceLobby({ seat: message.seat, room: message.room });
+        setRaceError(null);
+        break;
+      case 'start': {
+        // After a reconnect the board in play is kept if it is still the race's.
+        const isResumed = isRaceGame && raceMap.seed === message.seed;
+        const map = isResumed ? raceMap : createRaceMap(message.seed, message.size, locale);
+        if (!isResumed) startGame(map, null, null, true);
+        if (message.moves.length !== (isResumed ? gameState.moves : 0)) resyncRace(map, message.moves);
+        setIsRaceOpen(false);
+        setIsMenuOpen(false);
+        break;
+      }
+      case 'move':
+        setRaceLobby(prev =>
+          prev && {
+            ...prev,
+            room: {
+              ...prev.room,
+              players: prev.room.players.map(player => (player.seat === message.seat ? message.player : player))
+            }
+          }
+        );
+        break;
+      case 'desync':
+        if (isRaceGame) resyncRace(raceMap, message.moves);
+        break;
+      case 'finished':
+        setRaceLobby(prev => prev && { ...prev, room: message.room });
+        setIsRaceOpen(true);
+        if (raceLobby && message.room.winner !== raceLobby.seat) playSound(150, 'sawtooth', 0.4);
+        break;
+      case 'error':
+        setRaceError(message.code);
+        // Turned away before taking a seat: there is nothing to stay connected for.
+        if (!raceLobby) raceClient.leave();
+        break;
+    }
+  };
+  raceMessageRef.current = handleRaceMessage;
+
+  useEffect(() => () => raceClient.leave(), [raceClient]);
+
+  const joinRace = (room: string | null) => {
+    setRaceError(null);
+    setRaceLobby(null);
+    raceClient.join(normalizePlayerName(playerName), room, boardSize);
+  };
+
+  // The board stays, as an ordinary game.
+  const leaveRace = () => {
+    raceClient.leave();
+    setRaceLobby(null);
+    setRaceError(null);
+    setRaceMap(null);
   };
 
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (viewer || versusMap || (editorMap && !isTestingMap)) return;
+      if (e.ctrlKey || e.metaKey) {
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          undo();
+        } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+          e.preventDefault();
+          redo();
+        }
+        return;
+      }
       if (gameState.status !== 'playing' || isAiSolving) return;
       switch (e.key) {
         case 'ArrowUp':
         case 'w':
         case 'W':
-          handleRoll('up');
+          rollScreen('up');
           break;
         case 'ArrowDown':
         case 's':
         case 'S':
-          handleRoll('down');
+          rollScreen('down');
           break;
         case 'ArrowLeft':
         case 'a':
         case 'A':
-          handleRoll('right');
+          rollScreen('left');
           break;
         case 'ArrowRight':
         case 'd':
         case 'D':
-          handleRoll('left');
+          rollScreen('right');
           break;
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [gameState.status, handleRoll, isAiSolving]);
+  }, [gameState.status, rollScreen, isAiSolving, undo, redo, viewer, versusMap, editorMap, isTestingMap]);
 
   // Touch Swipe Handlers for mobile device screen control
   const handleTouchStart = (e: React.TouchEvent) => {
@@ -425,6 +1065,9 @@ const App: React.FC = () => {
   const handleTouchEnd = (e: React.TouchEvent) => {
     if (
       !touchStartRef.current ||
+      viewer ||
+      versusMap ||
+      (editorMap && !isTestingMap) ||
       gameState.status !== 'playing' ||
       isRolling ||
       isAiSolving
@@ -440,24 +1083,32 @@ const App: React.FC = () => {
 
     if (Math.abs(deltaX) > Math.abs(deltaY)) {
       if (Math.abs(deltaX) > minSwipeDistance) {
-        if (deltaX > 0) handleRoll('left');
-        else handleRoll('right');
+        if (deltaX > 0) rollScreen('right');
+        else rollScreen('left');
       }
     } else {
       if (Math.abs(deltaY) > minSwipeDistance) {
-        if (deltaY > 0) handleRoll('down');
-        else handleRoll('up');
+        if (deltaY > 0) rollScreen('down');
+        else rollScreen('up');
       }
     }
     touchStartRef.current = null;
   };
 
-  const currentTileColor =
-    gameState.grid[gameState.cubePosition[1]]?.[gameState.cubePosition[0]] || ColorType.BLACK;
-  const userEfficiency =
-    gameState.moves > 0
-      ? Math.min(100, Math.round((gameState.optimalAiMoves / gameState.moves) * 100))
-      : 100;
+  const todayKey = toDateKey(new Date());
+  const dailyStreak = computeDailyStreak(dailyResults, todayKey);
+  const dailyMapHash = useMemo(() => getMapHash(createDailyMap(todayKey)), [todayKey]);
+  const campaignSummary = getCampaignSummary(CAMPAIGN_LEVELS, campaignProgress);
+  const currentCampaignLevel = campaignLevel !== null ? CAMPAIGN_LEVELS[campaignLevel] : null;
+
+  // Time that ran out cannot be undone.
+  const isUndoAvailable =
+    canUndo(history, gameState) && gameState.endReason !== 'timeUp' && !isRolling && !isAiSolving && !isRaceGame;
+  const isRedoAvailable = canRedo(history, gameState) && !isRolling && !isAiSolving && !isRaceGame;
+
+  const currentTile = gameState.grid[gameState.cubePosition[1]]?.[gameState.cubePosition[0]] ?? CLEARED_TILE;
+  const userEfficiency = computeEfficiency(gameState.optimalAiMoves, gameState.moves, gameState.hintsUsed);
+  const hintsRemaining = HINTS_PER_GAME - gameState.hintsUsed;
 
   return (
     <div
@@ -473,47 +1124,111 @@ const App: React.FC = () => {
         accept=".json"
         className="hidden"
       />
+      <input
+        type="file"
+        ref={replayInputRef}
+        onChange={handleLoadReplay}
+        accept=".json"
+        className="hidden"
+      />
 
       {/* 3D Canvas */}
-      <Canvas shadows>
-        <PerspectiveCamera makeDefault position={[-5, 6, -8]} fov={45} />
-        <OrbitControls enablePan={false} maxPolarAngle={Math.PI / 2.2} />
-        <ambientLight intensity={0.5} />
-        <directionalLight position={[0, 10, 0]} intensity={1.5} castShadow />
-        <group position={[-2, -0.05, -2]}>
-          {gameState.grid.map((row, y) =>
-            row.map((color, x) => (
-              <mesh key={`${x}-${y}`} position={[x, 0, y]} receiveShadow>
-                <boxGeometry args={[0.95, 0.1, 0.95]} />
-                <meshStandardMaterial color={color} />
-              </mesh>
-            ))
-          )}
-        </group>
-        <group position={[gameState.cubePosition[0] - 2, 0, gameState.cubePosition[1] - 2]}>
-          <CubeMesh
-            faces={gameState.cubeFaces}
-            isRolling={isRolling}
-            rollDirection={rollDirection}
-            onRollComplete={completeRoll}
-          />
-        </group>
-      </Canvas>
+      <BoardScene
+        grid={gameState.grid}
+        cubes={[
+          {
+            position: gameState.cubePosition,
+            faces: gameState.cubeFaces,
+            isRolling,
+            rollDirection,
+            reversed: rollMode === 'undo',
+            onRollComplete: completeRoll
+          },
+          ...(ghost
+            ? [
+                {
+                  position: ghost.state.cubePosition,
+                  faces: ghost.state.cubeFaces,
+                  isRolling: ghostRoll !== null,
+                  rollDirection: ghostRoll,
+                  onRollComplete: completeGhostRoll,
+                  marker: CLEAR_OWNER_COLORS.ghost,
+                  ghost: true
+                }
+              ]
+            : []),
+          ...(raceOpponent
+            ? [
+                {
+                  position: raceOpponent.cubePosition,
+                  faces: raceOpponent.cubeFaces,
+                  isRolling: false,
+                  rollDirection: null,
+                  onRollComplete: () => {},
+                  marker: '#38bdf8',
+                  ghost: true
+                }
+              ]
+            : [])
+        ]}
+        hintSteps={hint?.steps}
+        tileTints={
+          ghost
+            ? getClearOwners(gameState.map.tiles, gameState.grid, ghost.state.grid).map(row =>
+                row.map(owner => owner && CLEAR_OWNER_COLORS[owner])
+              )
+            : undefined
+        }
+        onViewForwardChange={setCameraForward}
+      />
 
       {/* Header HUD Bar */}
       <HeaderHUD
         moves={gameState.moves}
         optimalAiMoves={gameState.optimalAiMoves}
+        optimalAiProven={gameState.optimalAiProven}
+        aiUnsolved={gameState.aiUnsolved}
+        isComputingAi={isComputingAi}
         userEfficiency={userEfficiency}
         highScore={gameState.highScore}
         cubeBottomColor={gameState.cubeFaces.bottom}
-        currentTileColor={currentTileColor}
+        currentTile={currentTile}
+        difficulty={gameState.difficulty}
+        mode={gameState.mode}
+        timeLeft={timeLeft}
+        moveLimit={moveLimit}
+        isAwaitingPar={isAwaitingPar}
+        opponent={
+          raceOpponent
+            ? {
+                name: raceOpponent.name,
+                cleared: ruleContext.targets - raceOpponent.remaining,
+                total: ruleContext.targets,
+                moves: raceOpponent.moves,
+                connected: raceOpponent.connected
+              }
+            : ghost && {
+                name: t('ghost.name'),
+                cleared: ruleContext.targets - countTargets(ghost.state.grid),
+                total: ruleContext.targets,
+                moves: ghost.state.moves,
+                connected: true
+              }
+        }
+        isGenerating={isGenerating}
         isAiSolving={isAiSolving}
         soundEnabled={soundEnabled}
         onOpenMenu={() => setIsMenuOpen(true)}
         onRestart={restart}
         onToggleAi={toggleAi}
         onToggleSound={() => setSoundEnabled(prev => !prev)}
+        canUndo={isUndoAvailable}
+        canRedo={isRedoAvailable}
+        onUndo={undo}
+        onRedo={redo}
+        hintsRemaining={hintsRemaining}
+        hintLoading={hintLoading}
+        onHint={requestHint}
       />
 
       {/* AI Solving Floating Badge */}
@@ -521,20 +1236,39 @@ const App: React.FC = () => {
         <div className="absolute top-20 right-4 sm:right-6 z-20 flex flex-col items-end gap-1 pointer-events-none">
           <div className="bg-black/70 backdrop-blur-xl px-3.5 py-1.5 rounded-full border border-yellow-400/40 text-[10px] font-bold uppercase tracking-[0.15em] text-yellow-400 flex items-center gap-2 shadow-xl animate-pulse">
             <span className="w-2 h-2 rounded-full bg-yellow-400" />
-            AI Resolvendo...
+            {t('app.aiSolving')}
           </div>
           <div className="text-[10px] text-gray-400 font-mono bg-black/50 px-2 py-0.5 rounded-md">
-            Fila: {aiMoveQueue.length} mov.
+            {t('app.aiQueue', { count: aiMoveQueue.length })}
           </div>
         </div>
       )}
 
+      {/* No Hint Badge */}
+      {isHintUnavailable && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 bg-black/70 backdrop-blur-xl px-3.5 py-1.5 rounded-full border border-yellow-400/40 text-[10px] font-bold uppercase tracking-[0.15em] text-yellow-400 shadow-xl pointer-events-none">
+          {t('app.noHint')}
+        </div>
+      )}
+
+      {/* Race Connection Badge */}
+      {isRaceGame && raceStatus === 'reconnecting' && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 bg-black/70 backdrop-blur-xl px-3.5 py-1.5 rounded-full border border-red-400/40 text-[10px] font-bold uppercase tracking-[0.15em] text-red-300 shadow-xl animate-pulse pointer-events-none">
+          {t('race.reconnectingBadge')}
+        </div>
+      )}
+
       {/* Touch D-Pad Controls */}
       {gameState.status === 'playing' && (
         <DPadControls
           cubeFaces={gameState.cubeFaces}
           onRoll={handleRoll}
+          viewForward={viewForward}
           disabled={isRolling || isAiSolving}
+          canUndo={isUndoAvailable}
+          canRedo={isRedoAvailable}
+          onUndo={undo}
+          onRedo={redo}
         />
       )}
 
@@ -544,76 +1278,224 @@ const App: React.FC = () => {
         onClose={() => setIsMenuOpen(false)}
         moves={gameState.moves}
         optimalAiMoves={gameState.optimalAiMoves}
+        optimalAiProven={gameState.optimalAiProven}
+        aiUnsolved={gameState.aiUnsolved}
+        isComputingAi={isComputingAi}
         userEfficiency={userEfficiency}
         highScore={gameState.highScore}
         isAiSolving={isAiSolving}
         soundEnabled={soundEnabled}
         onToggleAi={toggleAi}
+        hintsRemaining={hintsRemaining}
+        hintLoading={hintLoading}
+        onHint={requestHint}
         onSaveMap={saveMap}
         onLoadMapClick={() => fileInputRef.current?.click()}
+        onLoadReplayClick={() => replayInputRef.current?.click()}
+        onOpenEditor={openEditor}
         onRestart={restart}
         onToggleSound={() => setSoundEnabled(prev => !prev)}
+        seed={gameState.map.seed}
+        onStartSeed={startSeed}
+        undoPenalty={undoPenalty}
+        onToggleUndoPenalty={toggleUndoPenalty}
+        controlMode={controlMode}
+        onToggleControlMode={toggleControlMode}
+        dailyStreak={dailyStreak}
+        onOpenDaily={() => setIsDailyOpen(true)}
+        shareCode={encodeShareCode(gameState.map)}
+        onCopyShareCode={() => copyToClipboard(encodeShareCode(gameState.map))}
+        onCopyShareLink={() => copyToClipboard(buildShareUrl(window.location.href, gameState.map))}
+        onLoadShareCode={loadShareCode}
+        mapErrors={mapErrors}
+        onDismissMapErrors={() => setMapErrors([])}
+        boardSize={boardSize}
+        onChangeBoardSize={size => setBoardSize(clampBoardSize(size))}
+        targetDifficulty={targetDifficulty}
+        onChangeTargetDifficulty={setTargetDifficulty}
+        selectedMode={selectedMode}
+        onChangeMode={setSelectedMode}
+        isGenerating={isGenerating}
+        campaignSummary={{ ...campaignSummary, levels: CAMPAIGN_LEVELS.length }}
+        onOpenCampaign={() => setIsCampaignOpen(true)}
+        onOpenStats={openStats}
+        onOpenVersus={() => setVersusMap(gameState.map)}
+        onOpenRace={() => setIsRaceOpen(true)}
+        onStartGhostRace={startGhostRace}
+        onOpenCoach={() => setIsCoachOpen(true)}
       />
 
-      {/* Game Over / Victory Modal */}
-      {gameState.status !== 'playing' && (
-        <div className="absolute inset-0 bg-black/80 backdrop-blur-xl flex items-center justify-center p-4 z-50 animate-in fade-in zoom-in duration-300">
-          <div className="bg-[#121318] p-6 sm:p-8 rounded-3xl border border-white/20 shadow-2xl max-w-sm w-full text-center">
-            {gameState.status === 'won' ? (
-              <>
-                <div className="w-16 h-16 bg-yellow-400/20 text-yellow-400 rounded-full flex items-center justify-center mx-auto mb-4 border border-yellow-400/30">
-                  <Trophy className="w-8 h-8" />
-                </div>
-                <h2 className="text-3xl sm:text-4xl font-black text-white mb-1 italic">
-                  VITÓRIA!
-                </h2>
-                <p className="text-gray-400 text-xs sm:text-sm mb-6">
-                  Você completou todo o tabuleiro com sucesso.
-                </p>
-
-                <div className="grid grid-cols-2 gap-3 mb-6">
-                  <div className="bg-white/5 p-3.5 rounded-2xl border border-white/10">
-                    <p className="text-[10px] uppercase text-gray-400 font-bold mb-0.5 tracking-wider">
-                      Moves
-                    </p>
-                    <p className="text-2xl font-mono font-bold text-white">
-                      {gameState.moves}
-                    </p>
-                  </div>
-                  <div className="bg-blue-500/10 p-3.5 rounded-2xl border border-blue-400/20">
-                    <p className="text-[10px] uppercase text-blue-400 font-bold mb-0.5 tracking-wider">
-                      IA optimal moves
-                    </p>
-                    <p className="text-2xl font-mono font-bold text-blue-400">
-                      {gameState.optimalAiMoves}
-                    </p>
-                  </div>
-                </div>
-              </>
-            ) : (
-              <>
-                <div className="w-16 h-16 bg-red-500/20 text-red-400 rounded-full flex items-center justify-center mx-auto mb-4 border border-red-500/30">
-                  <AlertCircle className="w-8 h-8" />
-                </div>
-                <h2 className="text-3xl sm:text-4xl font-black text-white mb-1 italic uppercase">
-                  VOCÊ CAIU!
-                </h2>
-                <p className="text-gray-400 text-xs sm:text-sm mb-6">
-                  Cuidado com as bordas do tabuleiro!
-                </p>
-              </>
-            )}
-
-            <button
-              onClick={restart}
-              className="w-full bg-yellow-400 hover:bg-yellow-300 text-black font-black py-3.5 rounded-2xl transition-all active:scale-95 text-lg uppercase italic tracking-tight flex items-center justify-center gap-2 shadow-lg"
-            >
-              <RefreshCw className="w-5 h-5" />
-              Tentar Novamente
-            </button>
-          </div>
-        </div>
+      {/* Coach (off in online races) */}
+      <CoachPanel
+        isOpen={isCoachOpen && !isRaceGame}
+        onClose={() => setIsCoachOpen(false)}
+        providers={coachProviders}
+        providerId={coachProviderId}
+        onChangeProvider={setCoachProviderId}
+        isLoading={isCoachLoading}
+        error={coachError}
+        result={coachResult}
+        hintsRemaining={hintsRemaining}
+        disabled={isRolling || isAiSolving || gameState.status !== 'playing'}
+        onAsk={requestCoach}
+        onShowOnBoard={showCoachPlan}
+        viewForward={viewForward}
+      />
+
+      {/* Online Race Lobby */}
+      <RaceLobbyModal
+        isOpen={isRaceOpen}
+        onClose={() => setIsRaceOpen(false)}
+        status={raceStatus}
+        seat={raceLobby?.seat ?? null}
+        room={raceLobby?.room ?? null}
+        error={raceError}
+        playerName={playerName}
+        onChangePlayerName={changePlayerName}
+        onCreateRoom={() => joinRace(null)}
+        onJoinRoom={joinRace}
+        onReady={ready => raceClient.send({ type: 'ready', ready })}
+        onLeave={leaveRace}
+      />
+
+      {/* Statistics Dashboard */}
+      <StatsModal
+        isOpen={isStatsOpen}
+        onClose={() => setIsStatsOpen(false)}
+        records={statsRecords}
+        onExportCsv={() => exportStats('csv')}
+        onExportJson={() => exportStats('json')}
+      />
+
+      {/* Daily Challenge Calendar */}
+      <DailyChallengeModal
+        isOpen={isDailyOpen}
+        onClose={() => setIsDailyOpen(false)}
+        todayKey={todayKey}
+        results={dailyResults}
+        streak={dailyStreak}
+        onPlay={startDaily}
+        leaderboard={{
+          client: leaderboardClient,
+          mapHash: dailyMapHash,
+          title: t('leaderboard.today'),
+          playerName,
+          onChangePlayerName: changePlayerName
+        }}
+      />
+
+      {/* Campaign Level Select */}
+      <CampaignModal
+        isOpen={isCampaignOpen}
+        onClose={() => setIsCampaignOpen(false)}
+        levels={CAMPAIGN_LEVELS}
+        progress={campaignProgress}
+        currentLevel={campaignLevel}
+        onPlay={startCampaignLevel}
+      />
+
+      {/* Game Over / Victory Modal (a race's result is shown in its lobby) */}
+      {!isRaceGame && (
+        <GameOverModal
+          status={gameState.status}
+          endReason={gameState.endReason}
+          mode={gameState.mode}
+          moves={gameState.moves}
+          moveLimit={moveLimit}
+          timeLeft={timeLeft}
+          clearedTiles={ruleContext.targets - countTargets(gameState.grid)}
+          totalTiles={ruleContext.targets}
+          optimalAiMoves={gameState.optimalAiMoves}
+          optimalAiProven={gameState.optimalAiProven}
+          aiUnsolved={gameState.aiUnsolved}
+          isComputingAi={isComputingAi}
+          hintsUsed={gameState.hintsUsed}
+          efficiency={userEfficiency}
+          daily={
+            dailyKey ? { dateKey: dailyKey, best: dailyResults[dailyKey], streak: dailyStreak } : null
+          }
+          onRestart={restart}
+          onUndo={isUndoAvailable ? undo : undefined}
+          onWatchReplay={watchReplay}
+          onWatchAiSolution={gameState.aiSolution ? watchAiSolution : undefined}
+          onReplayDaily={() => dailyKey && startDaily(dailyKey)}
+          campaign={
+            currentCampaignLevel
+              ? {
+                  levelNumber: campaignLevel + 1,
+                  title: currentCampaignLevel.titleKey
+                    ? t(currentCampaignLevel.titleKey)
+                    : currentCampaignLevel.map.title,
+                  par: currentCampaignLevel.par,
+                  stars: computeStars(gameState.moves, currentCampaignLevel.par),
+                  best: campaignProgress[currentCampaignLevel.id],
+                  hasNextLevel: campaignLevel + 1 < CAMPAIGN_LEVELS.length
+                }
+              : null
+          }
+          leaderboard={
+            gameState.status === 'won'
+              ? {
+                  client: leaderboardClient,
+                  mapHash: getMapHash(gameState.map),
+                  title: t('leaderboard.board'),
+                  result: { replay: createReplay(gameState.map, replaySteps, gameUndoPenalty), moves: gameState.moves },
+                  playerName,
+                  onChangePlayerName: changePlayerName
+                }
+              : null
+          }
+          ghostRace={
+            ghost && {
+              playerTimeMs: gameState.status === 'won' ? gameEndRef.current : null,
+              ghostTimeMs: getGhostFinishTime(ghost),
+              ghostMoves: ghost.path.length,
+              isGhostFinished: ghost.finishedAt !== null
+            }
+          }
+          onNextLevel={() => campaignLevel !== null && startCampaignLevel(campaignLevel + 1)}
+          onOpenCampaign={() => setIsCampaignOpen(true)}
+        />
+      )}
+
+      {/* Test Play Banner */}
+      {editorMap && isTestingMap && (
+        <button
+          onClick={() => setIsTestingMap(false)}
+          className="absolute top-20 left-1/2 -translate-x-1/2 z-30 bg-yellow-400 hover:bg-yellow-300 text-black px-4 py-2 rounded-full font-black uppercase italic text-xs tracking-wider shadow-xl flex items-center gap-2 transition-all active:scale-95"
+        >
+          <Pencil className="w-4 h-4" />
+          {t('app.backToEditor')}
+        </button>
       )}
+
+      {/* Level Editor */}
+      {editorMap && !isTestingMap && (
+        <LevelEditor
+          map={editorMap}
+          solver={solverRef.current}
+          onChange={setEditorMap}
+          onTestPlay={() => testPlayMap(editorMap)}
+          onExport={map => downloadJson('chromatic_map.json', serializeMapDocument(map))}
+          onExit={() => setEditorMap(null)}
+        />
+      )}
+
+      {/* Replay Viewer */}
+      <ReplayViewer
+        replay={viewer?.replay ?? null}
+        title={viewer ? t(viewer.title) : ''}
+        onClose={() => setViewer(null)}
+        onExport={exportReplay}
+      />
+
+      {/* Local Versus */}
+      <VersusGame
+        map={versusMap}
+        onSound={playSound}
+        controlMode={controlMode}
+        onClose={() => setVersusMap(null)}
+      />
     </div>
   );
 };
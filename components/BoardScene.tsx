@@ -0,0 +1,129 @@
+import React, { useRef } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
+import { BoardSize, CubeFaces, Direction, Tile } from '../types';
+import { DEFAULT_BOARD_SIZE } from '../constants';
+import { getViewForward } from '../engine/controls';
+import { getBoardSize } from '../engine/generator';
+import { HintStep } from '../engine/hints';
+import CubeMesh from './CubeMesh';
+import HintTrail from './HintTrail';
+import TileMesh from './TileMesh';
+
+export interface SceneCube {
+  position: [number, number];
+  faces: CubeFaces;
+  isRolling: boolean;
+  rollDirection: Direction | null;
+  reversed?: boolean;
+  onRollComplete: () => void;
+  // Ring drawn around the cube's tile, to tell several cubes apart.
+  marker?: string;
+  ghost?: boolean;
+}
+
+interface BoardSceneProps {
+  grid: Tile[][];
+  cubes: SceneCube[];
+  rollDuration?: number;
+  hintSteps?: HintStep[];
+  // Per-cell tint colors, indexed [y][x] like the grid.
+  tileTints?: (string | null)[][];
+  // Editor painting: called on press and while dragging across tiles. Camera
+  // rotation is disabled while set so drags paint instead of orbiting.
+  onTilePaint?: (position: [number, number]) => void;
+  // Called with the board direction the camera looks along whenever orbiting
+  // moves it into another quadrant, and once on mount.
+  onViewForwardChange?: (forward: Direction) => void;
+}
+
+// Keeps the default camera angle and pulls it back in proportion to the board.
+const getCameraPosition = ({ width, height }: BoardSize): [number, number, number] => {
+  const scale = Math.max(width, height, DEFAULT_BOARD_SIZE.width) / DEFAULT_BOARD_SIZE.width;
+  return [-5 * scale, 6 * scale, -8 * scale];
+};
+
+// Panning is off, so the camera always orbits the board's center at the origin.
+const ViewForwardTracker: React.FC<{ onChange: (forward: Direction) => void }> = ({ onChange }) => {
+  const forwardRef = useRef<Direction | null>(null);
+  useFrame(({ camera }) => {
+    const forward = getViewForward(-camera.position.x, -camera.position.z);
+    if (forward === forwardRef.current) return;
+    forwardRef.current = forward;
+    onChange(forward);
+  });
+  return null;
+};
+
+// The 3D board and its cubes, shared by the game (with an online opponent's
+// ghost), the versus mode, the editor and the replay viewer.
+export const BoardScene: React.FC<BoardSceneProps> = ({
+  grid,
+  cubes,
+  rollDuration,
+  hintSteps,
+  tileTints,
+  onTilePaint,
+  onViewForwardChange
+}) => {
+  const size = getBoardSize(grid);
+  const boardOffset: [number, number] = [(size.width - 1) / 2, (size.height - 1) / 2];
+
+  return (
+    <Canvas shadows>
+      <PerspectiveCamera makeDefault position={getCameraPosition(size)} fov={45} />
+      <OrbitControls enablePan={false} enableRotate={!onTilePaint} maxPolarAngle={Math.PI / 2.2} />
+      {onViewForwardChange && <ViewForwardTracker onChange={onViewForwardChange} />}
+      <ambientLight intensity={0.5} />
+      <directionalLight position={[0, 10, 0]} intensity={1.5} castShadow />
+      <group position={[-boardOffset[0], -0.05, -boardOffset[1]]}>
+        {grid.map((row, y) =>
+          row.map((tile, x) => (
+            <group
+              key={`${x}-${y}`}
+              onPointerDown={
+                onTilePaint &&
+                (e => {
+                  e.stopPropagation();
+                  onTilePaint([x, y]);
+                })
+              }
+              onPointerOver={
+                onTilePaint &&
+                (e => {
+                  if (e.buttons !== 1) return;
+                  e.stopPropagation();
+                  onTilePaint([x, y]);
+                })
+              }
+            >
+              <TileMesh tile={tile} position={[x, 0, y]} tint={tileTints?.[y]?.[x]} />
+            </group>
+          ))
+        )}
+        {hintSteps && hintSteps.length > 0 && <HintTrail steps={hintSteps} />}
+      </group>
+      {cubes.map((cube, index) => (
+        <group key={index} position={[cube.position[0] - boardOffset[0], 0, cube.position[1] - boardOffset[1]]}>
+          {cube.marker && (
+            <mesh position={[0, 0.02, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+              <ringGeometry args={[0.56, 0.68, 32]} />
+              <meshBasicMaterial color={cube.marker} />
+            </mesh>
+          )}
+          <CubeMesh
+            faces={cube.faces}
+            isRolling={cube.isRolling}
+            rollDirection={cube.rollDirection}
+            reversed={cube.reversed}
+            duration={rollDuration}
+            ghost={cube.ghost}
+            onRollComplete={cube.onRollComplete}
+          />
+        </group>
+      ))}
+    </Canvas>
+  );
+};
+
+export default BoardScene;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { X, Map as MapIcon, Star, Lock } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+import { CampaignLevel, CampaignProgress, MAX_STARS, getCampaignSummary, isLevelUnlocked } from '../engine/campaign';
+
+interface CampaignModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  levels: CampaignLevel[];
+  progress: CampaignProgress;
+  currentLevel: number | null;
+  onPlay: (index: number) => void;
+}
+
+export const StarRow: React.FC<{ stars: number; className?: string }> = ({ stars, className = 'w-3.5 h-3.5' }) => (
+  <span className="flex items-center gap-0.5">
+    {Array.from({ length: MAX_STARS }, (_, i) => (
+      <Star
+        key={i}
+        className={`${className} ${i < stars ? 'text-yellow-400 fill-yellow-400' : 'text-gray-600'}`}
+      />
+    ))}
+  </span>
+);
+
+export const CampaignModal: React.FC<CampaignModalProps> = ({
+  isOpen,
+  onClose,
+  levels,
+  progress,
+  currentLevel,
+  onPlay
+}) => {
+  const { t } = useI18n();
+
+  if (!isOpen) return null;
+
+  const summary = getCampaignSummary(levels, progress);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/70 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="absolute inset-0" onClick={onClose} />
+
+      <div className="relative z-10 w-full max-w-md bg-[#121318] border-t sm:border border-white/15 rounded-t-3xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom duration-300">
+        {/* Header Bar */}
+        <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div className="flex items-center gap-2">
+            <MapIcon className="w-5 h-5 text-yellow-400" />
+            <h2 className="text-lg font-black tracking-tight text-white uppercase italic">
+              {t('menu.campaign')}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+            title={t('common.close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-4">
+          {/* Progress */}
+          <div className="grid grid-cols-2 gap-3 bg-black/40 p-3.5 rounded-2xl border border-white/10">
+            <div className="text-center p-1">
+              <span className="text-[10px] font-bold uppercase text-gray-400 tracking-wider block mb-0.5">
+                {t('campaign.levels')}
+              </span>
+              <span className="text-xl font-mono font-bold text-white">
+                {summary.completed}/{levels.length}
+              </span>
+            </div>
+            <div className="text-center p-1 border-l border-white/10">
+              <span className="text-[10px] font-bold uppercase text-yellow-400 tracking-wider block mb-0.5">
+                {t('campaign.stars')}
+              </span>
+              <span className="text-xl font-mono font-bold text-yellow-400">
+                {summary.stars}/{summary.maxStars}
+              </span>
+            </div>
+          </div>
+
+          {/* Level Grid */}
+          <div className="grid grid-cols-2 gap-2">
+            {levels.map((level, index) => {
+              const unlocked = isLevelUnlocked(levels, progress, index);
+              const result = progress[level.id];
+              return (
+                <button
+                  key={level.id}
+                  onClick={() => onPlay(index)}
+                  disabled={!unlocked}
+                  className={`p-3 rounded-2xl border text-left transition-colors disabled:opacity-40 ${
+                    currentLevel === index
+                      ? 'bg-yellow-400/15 border-yellow-400/50'
+                      : 'bg-white/5 border-white/10 hover:bg-white/10'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-gray-500">
+                      {t('campaign.level', { number: index + 1 })}
+                    </span>
+                    {unlocked ? <StarRow stars={result?.stars ?? 0} /> : <Lock className="w-3.5 h-3.5 text-gray-500" />}
+                  </div>
+                  <p className="text-xs font-bold text-white truncate">
+                    {level.titleKey ? t(level.titleKey) : level.map.title}
+                  </p>
+                  <p className="text-[10px] text-gray-400 font-mono mt-0.5">
+                    {result && `${t('common.movesShort', { count: result.bestMoves })} · `}
+                    {t('campaign.parValue', { par: level.par })}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+
+          <p className="text-[11px] text-gray-500 px-1">
+            {t('campaign.note')}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignModal;
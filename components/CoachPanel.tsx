@@ -0,0 +1,163 @@
+import React from 'react';
+import { X, GraduationCap, LoaderCircle, ShieldCheck, ShieldAlert, TriangleAlert, Eye } from 'lucide-react';
+import { Direction } from '../types';
+import { CoachAdvice, CoachCheck, CoachIssue, CoachVerdict } from '../engine/coach';
+import { getScreenArrow } from '../engine/controls';
+import { MessageKey } from '../engine/i18n';
+import { CoachProvider, CoachProviderId } from '../services/coach';
+import { useI18n } from './I18nProvider';
+
+interface CoachPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  providers: CoachProvider[];
+  providerId: CoachProviderId;
+  onChangeProvider: (id: CoachProviderId) => void;
+  isLoading: boolean;
+  error: string | null;
+  // Advice for the current position; dropped on the next move.
+  result: { advice: CoachAdvice; check: CoachCheck } | null;
+  hintsRemaining: number;
+  disabled: boolean;
+  onAsk: () => void;
+  onShowOnBoard: () => void;
+  // Plans are shown as the arrow keys that play them from this view.
+  viewForward: Direction;
+}
+
+const VERDICT_STYLES: Record<CoachVerdict, { label: MessageKey; className: string }> = {
+  good: { label: 'coach.verdict.good', className: 'bg-emerald-500/15 border-emerald-400/40 text-emerald-300' },
+  questionable: { label: 'coach.verdict.questionable', className: 'bg-yellow-400/10 border-yellow-400/40 text-yellow-300' },
+  bad: { label: 'coach.verdict.bad', className: 'bg-red-500/10 border-red-400/40 text-red-300' }
+};
+
+const describeIssue = (t: (key: MessageKey, params?: Record<string, number>) => string, issue: CoachIssue) => {
+  switch (issue.type) {
+    case 'fell': return t('coach.issue.fell', { step: issue.step });
+    case 'blocked': return t('coach.issue.blocked', { step: issue.step });
+    case 'noMatch': return t('coach.issue.noMatch');
+    case 'slower': return t('coach.issue.slower', { count: issue.planSteps, solverSteps: issue.solverSteps });
+    case 'empty': return t('coach.issue.empty');
+  }
+};
+
+export const CoachPanel: React.FC<CoachPanelProps> = ({
+  isOpen,
+  onClose,
+  providers,
+  providerId,
+  onChangeProvider,
+  isLoading,
+  error,
+  result,
+  hintsRemaining,
+  disabled,
+  onAsk,
+  onShowOnBoard,
+  viewForward
+}) => {
+  const { t } = useI18n();
+
+  if (!isOpen) return null;
+
+  const verdict = result && VERDICT_STYLES[result.check.verdict];
+  const VerdictIcon = result?.check.verdict === 'good' ? ShieldCheck : ShieldAlert;
+
+  return (
+    <div className="absolute top-20 left-4 z-30 w-[calc(100%-2rem)] max-w-xs bg-black/80 backdrop-blur-xl border border-white/15 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in duration-200">
+      <div className="px-4 py-2.5 border-b border-white/10 flex items-center justify-between bg-white/5">
+        <div className="flex items-center gap-2">
+          <GraduationCap className="w-4 h-4 text-yellow-400" />
+          <h2 className="text-xs font-black tracking-wider text-white uppercase italic">{t('menu.coach')}</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+          title={t('common.close')}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-3.5 space-y-3 max-h-[60vh] overflow-y-auto">
+        <div className="grid grid-flow-col auto-cols-fr gap-1.5">
+          {providers.map(provider => (
+            <button
+              key={provider.id}
+              onClick={() => onChangeProvider(provider.id)}
+              disabled={isLoading}
+              className={`py-1.5 px-2 rounded-lg border text-[11px] font-bold transition-colors disabled:opacity-40 ${
+                provider.id === providerId
+                  ? 'bg-yellow-400/20 border-yellow-400/50 text-yellow-300'
+                  : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {t(provider.label)}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={onAsk}
+          disabled={disabled || isLoading || hintsRemaining <= 0}
+          className="w-full bg-yellow-400 hover:bg-yellow-300 text-black font-black py-2.5 rounded-xl transition-all active:scale-95 uppercase italic text-xs tracking-tight flex items-center justify-center gap-2 shadow-lg disabled:opacity-40"
+        >
+          {isLoading ? <LoaderCircle className="w-4 h-4 animate-spin" /> : <GraduationCap className="w-4 h-4" />}
+          {t(isLoading ? 'coach.thinking' : 'coach.ask')}
+        </button>
+        <p className="text-[10px] text-gray-500">
+          {t('coach.note', { count: hintsRemaining })}
+        </p>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {result && verdict && (
+          <div className="space-y-2.5">
+            <p className="text-xs text-gray-200 leading-relaxed">{result.advice.explanation}</p>
+
+            {result.advice.moves.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {result.advice.moves.map((move, i) => (
+                  <span
+                    key={i}
+                    className="w-6 h-6 flex items-center justify-center rounded-md bg-white/10 text-sm font-bold text-white"
+                  >
+                    {getScreenArrow(move, viewForward)}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className={`rounded-xl border px-3 py-2 space-y-1 ${verdict.className}`}>
+              <p className="flex items-center gap-1.5 text-[11px] font-black uppercase tracking-wider">
+                <VerdictIcon className="w-4 h-4" />
+                {t(verdict.label)}
+              </p>
+              {result.check.issues.map((issue, i) => (
+                <p key={i} className="flex items-start gap-1.5 text-[11px]">
+                  <TriangleAlert className="w-3.5 h-3.5 shrink-0 mt-px" />
+                  {describeIssue(t, issue)}
+                </p>
+              ))}
+              {!result.check.agreesWithSolver && result.check.verdict !== 'bad' && (
+                <p className="text-[11px] opacity-80">{t('coach.solverDiffers')}</p>
+              )}
+            </div>
+
+            {result.check.verdict !== 'bad' && (
+              <button
+                onClick={onShowOnBoard}
+                className="w-full py-2 px-3 bg-white/5 border border-white/10 hover:bg-white/10 text-gray-200 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors flex items-center justify-center gap-2"
+              >
+                <Eye className="w-4 h-4" />
+                {t('coach.showOnBoard')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoachPanel;
@@ -2,23 +2,32 @@
 import React, { useRef, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { ColorType } from '../types';
+import { CubeFaces, Direction } from '../types';
+import { ROTATION_DURATION } from '../constants';
 
 interface CubeMeshProps {
-  faces: {
-    top: ColorType;
-    bottom: ColorType;
-    front: ColorType;
-    back: ColorType;
-    left: ColorType;
-    right: ColorType;
-  };
+  faces: CubeFaces;
   isRolling: boolean;
-  rollDirection: 'up' | 'down' | 'left' | 'right' | null;
+  rollDirection: Direction | null;
+  // Plays the roll backwards: the cube starts tipped over onto the next tile
+  // and rolls back to rest on its own. Used by undo.
+  reversed?: boolean;
+  // Seconds per roll.
+  duration?: number;
+  // Drawn see-through and without a shadow, e.g. another player's cube.
+  ghost?: boolean;
   onRollComplete: () => void;
 }
 
-const CubeMesh: React.FC<CubeMeshProps> = ({ faces, isRolling, rollDirection, onRollComplete }) => {
+const CubeMesh: React.FC<CubeMeshProps> = ({
+  faces,
+  isRolling,
+  rollDirection,
+  reversed = false,
+  duration = ROTATION_DURATION,
+  ghost = false,
+  onRollComplete
+}) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const pivotRef = useRef<THREE.Group>(null);
   const animationStartTime = useRef<number | null>(null);
@@ -39,6 +48,24 @@ const CubeMesh: React.FC<CubeMeshProps> = ({ faces, isRolling, rollDirection, on
     faces.back
   ];
 
+  const setPivotAngle = (direction: Direction, angle: number) => {
+    if (!pivotRef.current) return;
+    switch (direction) {
+      case 'up':
+        pivotRef.current.rotation.x = angle;
+        break;
+      case 'down':
+        pivotRef.current.rotation.x = -angle;
+        break;
+      case 'left':
+        pivotRef.current.rotation.z = angle;
+        break;
+      case 'right':
+        pivotRef.current.rotation.z = -angle;
+        break;
+    }
+  };
+
   // Initialize and Reset behavior
   useEffect(() => {
     if (isRolling && rollDirection && pivotRef.current && meshRef.current) {
@@ -65,6 +92,7 @@ const CubeMesh: React.FC<CubeMeshProps> = ({ faces, isRolling, rollDirection, on
       pivotRef.current.position.set(pivotX, 0, pivotZ);
       // Offset mesh so it stays in same world position initially
       meshRef.current.position.set(-pivotX, 0.5, -pivotZ);
+      if (reversed) setPivotAngle(rollDirection, Math.PI / 2);
     } else if (!isRolling) {
       // Ensure total reset when not rolling
       if (pivotRef.current && meshRef.current) {
@@ -73,33 +101,17 @@ const CubeMesh: React.FC<CubeMeshProps> = ({ faces, isRolling, rollDirection, on
         meshRef.current.position.set(0, 0.5, 0);
       }
     }
-  }, [isRolling, rollDirection]);
+  }, [isRolling, rollDirection, reversed]);
 
   useFrame(() => {
     if (isRolling && rollDirection && animationStartTime.current && pivotRef.current) {
       const now = performance.now();
       const elapsed = (now - animationStartTime.current) / 1000;
-      const duration = 0.5;
       const progress = Math.min(elapsed / duration, 1);
       
       // Smooth interpolation
       const eased = progress * progress * (3 - 2 * progress);
-      const angle = eased * (Math.PI / 2);
-
-      switch (rollDirection) {
-        case 'up': 
-          pivotRef.current.rotation.x = angle; 
-          break;
-        case 'down': 
-          pivotRef.current.rotation.x = -angle; 
-          break;
-        case 'left': 
-          pivotRef.current.rotation.z = angle; 
-          break;
-        case 'right': 
-          pivotRef.current.rotation.z = -angle; 
-          break;
-      }
+      setPivotAngle(rollDirection, (reversed ? 1 - eased : eased) * (Math.PI / 2));
 
       if (progress >= 1) {
         animationStartTime.current = null;
@@ -110,10 +122,17 @@ const CubeMesh: React.FC<CubeMeshProps> = ({ faces, isRolling, rollDirection, on
 
   return (
     <group ref={pivotRef}>
-      <mesh ref={meshRef} castShadow>
+      <mesh ref={meshRef} castShadow={!ghost}>
         <boxGeometry args={[1, 1, 1]} />
         {faceColors.map((color, idx) => (
-          <meshStandardMaterial key={`${idx}-${color}`} attach={`material-${idx}`} color={color} />
+          <meshStandardMaterial
+            key={`${idx}-${color}`}
+            attach={`material-${idx}`}
+            color={color}
+            transparent={ghost}
+            opacity={ghost ? 0.35 : 1}
+            depthWrite={!ghost}
+          />
         ))}
       </mesh>
     </group>
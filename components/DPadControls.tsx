@@ -1,96 +1,117 @@
 import React from 'react';
-import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight } from 'lucide-react';
-import { Direction, ColorType } from '../types';
+import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Undo2, Redo2 } from 'lucide-react';
+import { Direction, CubeFaces } from '../types';
+import { DEFAULT_VIEW_FORWARD, toBoardDirection } from '../engine/controls';
+import { rotateOrientation } from '../engine/gameEngine';
+import { useI18n } from './I18nProvider';
 
 interface DPadControlsProps {
-  cubeFaces: {
-    top: ColorType;
-    bottom: ColorType;
-    front: ColorType;
-    back: ColorType;
-    left: ColorType;
-    right: ColorType;
-  };
+  cubeFaces: CubeFaces;
   onRoll: (dir: Direction) => void;
+  // Board direction the up button rolls towards; the others follow around it.
+  viewForward?: Direction;
   disabled?: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 export const DPadControls: React.FC<DPadControlsProps> = ({
   cubeFaces,
   onRoll,
-  disabled = false
+  viewForward = DEFAULT_VIEW_FORWARD,
+  disabled = false,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo
 }) => {
+  const { t } = useI18n();
   const getIconColor = (bgColor: string) =>
     ['#ffffff', '#eab308', '#f472b6'].includes(bgColor) ? '#111111' : '#ffffff';
+  // Each button previews the face its roll brings to the bottom.
+  const getButton = (screen: Direction) => {
+    const dir = toBoardDirection(screen, viewForward);
+    const face = rotateOrientation(cubeFaces, dir).bottom;
+    return {
+      onPointerDown: (e: React.PointerEvent) => {
+        e.preventDefault();
+        if (!disabled) onRoll(dir);
+      },
+      style: { backgroundColor: face, color: getIconColor(face) }
+    };
+  };
 
   return (
     <div className="absolute bottom-4 sm:bottom-8 left-1/2 -translate-x-1/2 z-20 pointer-events-auto flex flex-col items-center gap-1.5 sm:gap-2 select-none">
-      {/* Up Button */}
-      <button
-        onPointerDown={(e) => {
-          e.preventDefault();
-          if (!disabled) onRoll('up');
-        }}
-        disabled={disabled}
-        className="w-12 h-12 sm:w-14 sm:h-14 bg-white/10 backdrop-blur-md rounded-2xl flex items-center justify-center transition-all active:scale-90 border-2 border-white/20 shadow-2xl disabled:opacity-50"
-        style={{
-          backgroundColor: cubeFaces.front,
-          color: getIconColor(cubeFaces.front)
-        }}
-        title="Rolar para Cima (W / Seta Cima)"
-      >
-        <ChevronUp className="w-7 h-7 stroke-[3]" />
-      </button>
-
-      {/* Left, Down, Right Row */}
-      <div className="flex items-center gap-1.5 sm:gap-2">
-        {/* Left Button */}
+      {/* Undo, Up, Redo Row */}
+      <div className="flex items-end gap-3 sm:gap-4">
+        {/* Undo Button */}
         <button
           onPointerDown={(e) => {
             e.preventDefault();
-            if (!disabled) onRoll('right');
+            if (canUndo) onUndo();
           }}
+          disabled={!canUndo}
+          className="w-9 h-9 sm:w-10 sm:h-10 bg-black/60 backdrop-blur-md rounded-xl flex items-center justify-center transition-all active:scale-90 border border-white/20 text-gray-200 shadow-2xl disabled:opacity-30"
+          title={t('common.undoShortcut')}
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+
+        {/* Up Button */}
+        <button
+          {...getButton('up')}
           disabled={disabled}
           className="w-12 h-12 sm:w-14 sm:h-14 bg-white/10 backdrop-blur-md rounded-2xl flex items-center justify-center transition-all active:scale-90 border-2 border-white/20 shadow-2xl disabled:opacity-50"
-          style={{
-            backgroundColor: cubeFaces.right,
-            color: getIconColor(cubeFaces.right)
-          }}
-          title="Botão Esquerda -> Rolar para Direita"
+          title={t('dpad.up')}
         >
-          <ChevronLeft className="w-7 h-7 stroke-[3]" />
+          <ChevronUp className="w-7 h-7 stroke-[3]" />
         </button>
 
-        {/* Down Button */}
+        {/* Redo Button */}
         <button
           onPointerDown={(e) => {
             e.preventDefault();
-            if (!disabled) onRoll('down');
+            if (canRedo) onRedo();
           }}
+          disabled={!canRedo}
+          className="w-9 h-9 sm:w-10 sm:h-10 bg-black/60 backdrop-blur-md rounded-xl flex items-center justify-center transition-all active:scale-90 border border-white/20 text-gray-200 shadow-2xl disabled:opacity-30"
+          title={t('common.redoShortcut')}
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Left, Down, Right Row */}
+      <div className="flex items-center gap-1.5 sm:gap-2">
+        {/* Left Button */}
+        <button
+          {...getButton('left')}
           disabled={disabled}
           className="w-12 h-12 sm:w-14 sm:h-14 bg-white/10 backdrop-blur-md rounded-2xl flex items-center justify-center transition-all active:scale-90 border-2 border-white/20 shadow-2xl disabled:opacity-50"
-          style={{
-            backgroundColor: cubeFaces.back,
-            color: getIconColor(cubeFaces.back)
-          }}
-          title="Rolar para Baixo (S / Seta Baixo)"
+          title={t('dpad.left')}
+        >
+          <ChevronLeft className="w-7 h-7 stroke-[3]" />
+        </button>
+
+        {/* Down Button */}
+        <button
+          {...getButton('down')}
+          disabled={disabled}
+          className="w-12 h-12 sm:w-14 sm:h-14 bg-white/10 backdrop-blur-md rounded-2xl flex items-center justify-center transition-all active:scale-90 border-2 border-white/20 shadow-2xl disabled:opacity-50"
+          title={t('dpad.down')}
         >
           <ChevronDown className="w-7 h-7 stroke-[3]" />
         </button>
 
         {/* Right Button */}
         <button
-          onPointerDown={(e) => {
-            e.preventDefault();
-            if (!disabled) onRoll('left');
-          }}
+          {...getButton('right')}
           disabled={disabled}
           className="w-12 h-12 sm:w-14 sm:h-14 bg-white/10 backdrop-blur-md rounded-2xl flex items-center justify-center transition-all active:scale-90 border-2 border-white/20 shadow-2xl disabled:opacity-50"
-          style={{
-            backgroundColor: cubeFaces.left,
-            color: getIconColor(cubeFaces.left)
-          }}
-          title="Botão Direita -> Rolar para Esquerda"
+          title={t('dpad.right')}
         >
           <ChevronRight className="w-7 h-7 stroke-[3]" />
         </button>
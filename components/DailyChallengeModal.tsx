@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { X, Calendar, Flame, ChevronLeft, ChevronRight, Play } from 'lucide-react';
+import { DailyResults, addDays, fromDateKey } from '../engine/daily';
+import { useI18n } from './I18nProvider';
+import { LeaderboardPanel, LeaderboardPanelProps } from './LeaderboardPanel';
+
+interface DailyChallengeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  todayKey: string;
+  results: DailyResults;
+  streak: number;
+  onPlay: (dateKey: string) => void;
+  // Today's board.
+  leaderboard: LeaderboardPanelProps;
+}
+
+// Any Sunday; the calendar header names the seven days from it.
+const WEEK_START = '2023-01-01';
+
+// Month grid (UTC) padded with nulls so the first day lands on its weekday.
+const buildMonth = (monthKey: string): (string | null)[] => {
+  const first = `${monthKey}-01`;
+  const cells: (string | null)[] = Array(new Date(`${first}T00:00:00Z`).getUTCDay()).fill(null);
+  for (let day = first; day.startsWith(monthKey); day = addDays(day, 1)) cells.push(day);
+  return cells;
+};
+
+const shiftMonth = (monthKey: string, delta: number) => {
+  const date = new Date(`${monthKey}-01T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + delta);
+  return date.toISOString().slice(0, 7);
+};
+
+export const DailyChallengeModal: React.FC<DailyChallengeModalProps> = ({
+  isOpen,
+  onClose,
+  todayKey,
+  results,
+  streak,
+  onPlay,
+  leaderboard
+}) => {
+  const { t, formatNumber, formatDate } = useI18n();
+  const [monthKey, setMonthKey] = useState(todayKey.slice(0, 7));
+
+  if (!isOpen) return null;
+
+  const today = results[todayKey];
+  const formatResult = (result: DailyResults[string]) =>
+    `${t('common.movesShort', { count: result.moves })} · ${formatNumber(result.efficiency / 100, { style: 'percent' })}`;
+  const isCurrentMonth = monthKey === todayKey.slice(0, 7);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/70 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="absolute inset-0" onClick={onClose} />
+
+      <div className="relative z-10 w-full max-w-md bg-[#121318] border-t sm:border border-white/15 rounded-t-3xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom duration-300">
+        {/* Header Bar */}
+        <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div className="flex items-center gap-2">
+            <Calendar className="w-5 h-5 text-yellow-400" />
+            <h2 className="text-lg font-black tracking-tight text-white uppercase italic">
+              {t('menu.daily')}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+            title={t('common.close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-5">
+          {/* Today & Streak */}
+          <div className="grid grid-cols-2 gap-3 bg-black/40 p-3.5 rounded-2xl border border-white/10">
+            <div className="text-center p-1">
+              <span className="text-[10px] font-bold uppercase text-gray-400 tracking-wider block mb-0.5">
+                {t('daily.today')}
+              </span>
+              <span className="text-xl font-mono font-bold text-white">
+                {today ? `${today.moves} · ${formatNumber(today.efficiency / 100, { style: 'percent' })}` : '—'}
+              </span>
+            </div>
+            <div className="text-center p-1 border-l border-white/10">
+              <span className="text-[10px] font-bold uppercase text-orange-400 tracking-wider block mb-0.5">
+                {t('daily.streak')}
+              </span>
+              <span className="text-xl font-mono font-bold text-orange-400 flex items-center justify-center gap-1">
+                <Flame className="w-5 h-5" />
+                {streak}
+              </span>
+            </div>
+          </div>
+
+          <button
+            onClick={() => {
+              onPlay(todayKey);
+              onClose();
+            }}
+            className="w-full py-3.5 px-4 rounded-2xl border font-black uppercase italic text-xs tracking-wider transition-all shadow-lg flex items-center justify-center gap-2 bg-yellow-400/20 border-yellow-400/50 text-yellow-400 hover:bg-yellow-400/30"
+          >
+            <Play className="w-5 h-5" />
+            {t(today ? 'daily.playAgain' : 'daily.playToday')}
+          </button>
+
+          {/* Today's Leaderboard */}
+          <LeaderboardPanel {...leaderboard} />
+
+          {/* Calendar */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between px-1">
+              <button
+                onClick={() => setMonthKey(shiftMonth(monthKey, -1))}
+                className="p-1.5 text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-lg transition-colors"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-xs font-bold uppercase tracking-wider text-gray-300">
+                {formatDate(fromDateKey(`${monthKey}-01`), { month: 'long', year: 'numeric', timeZone: 'UTC' })}
+              </span>
+              <button
+                onClick={() => setMonthKey(shiftMonth(monthKey, 1))}
+                disabled={isCurrentMonth}
+                className="p-1.5 text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-7 gap-1.5">
+              {Array.from({ length: 7 }, (_, idx) => (
+                <span key={idx} className="text-center text-[10px] font-bold text-gray-500 uppercase">
+                  {formatDate(fromDateKey(addDays(WEEK_START, idx)), { weekday: 'narrow', timeZone: 'UTC' })}
+                </span>
+              ))}
+              {buildMonth(monthKey).map((dateKey, idx) => {
+                if (!dateKey) return <span key={`pad-${idx}`} />;
+                const result = results[dateKey];
+                const isFuture = dateKey > todayKey;
+                return (
+                  <button
+                    key={dateKey}
+                    disabled={isFuture}
+                    onClick={() => {
+                      onPlay(dateKey);
+                      onClose();
+                    }}
+                    title={result ? formatResult(result) : formatDate(fromDateKey(dateKey), { dateStyle: 'medium', timeZone: 'UTC' })}
+                    className={`aspect-square rounded-lg text-[11px] font-mono font-bold flex items-center justify-center border transition-colors disabled:opacity-20 ${
+                      result
+                        ? 'bg-emerald-500/20 border-emerald-400/40 text-emerald-300 hover:bg-emerald-500/30'
+                        : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                    } ${dateKey === todayKey ? 'ring-2 ring-yellow-400' : ''}`}
+                  >
+                    {Number(dateKey.slice(8))}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DailyChallengeModal;
@@ -0,0 +1,354 @@
+import React from 'react';
+import {
+  Trophy,
+  RefreshCw,
+  AlertCircle,
+  Calendar,
+  Flame,
+  Undo2,
+  Film,
+  Bot,
+  Lightbulb,
+  Map as MapIcon,
+  ArrowRight,
+  Timer,
+  Ghost
+} from 'lucide-react';
+import { AiUnsolvedReason, GameStatus } from '../types';
+import { CampaignResult } from '../engine/campaign';
+import { DailyResult, fromDateKey } from '../engine/daily';
+import { EndReason, GameMode } from '../engine/gameModes';
+import { HINTS_PER_GAME } from '../engine/hints';
+import { HINT_EFFICIENCY_PENALTY } from '../engine/scoring';
+import { StarRow } from './CampaignModal';
+import { LeaderboardPanel, LeaderboardPanelProps } from './LeaderboardPanel';
+import { useI18n } from './I18nProvider';
+
+interface GameOverModalProps {
+  status: GameStatus;
+  endReason: EndReason | null;
+  mode: GameMode;
+  moves: number;
+  moveLimit: number | null;
+  timeLeft: number | null;
+  clearedTiles: number;
+  totalTiles: number;
+  optimalAiMoves: number | null;
+  optimalAiProven: boolean;
+  aiUnsolved: AiUnsolvedReason | null;
+  isComputingAi: boolean;
+  hintsUsed: number;
+  efficiency: number;
+  daily: { dateKey: string; best?: DailyResult; streak: number } | null;
+  // stars is this game's rating; best is the stored one.
+  campaign: {
+    levelNumber: number;
+    title: string;
+    par: number;
+    stars: number;
+    best?: CampaignResult;
+    hasNextLevel: boolean;
+  } | null;
+  // Shown after a win.
+  leaderboard: LeaderboardPanelProps | null;
+  // Set in a race against the AI ghost. Times are ms into the game; the
+  // player's is null after a loss, the ghost's projected until it finishes.
+  ghostRace: { playerTimeMs: number | null; ghostTimeMs: number; ghostMoves: number; isGhostFinished: boolean } | null;
+  onRestart: () => void;
+  // Only offered after a loss that can be taken back; undefined hides the button.
+  onUndo?: () => void;
+  onWatchReplay: () => void;
+  // Undefined until the solver has reported a path.
+  onWatchAiSolution?: () => void;
+  onReplayDaily: () => void;
+  onNextLevel: () => void;
+  onOpenCampaign: () => void;
+}
+
+export const GameOverModal: React.FC<GameOverModalProps> = ({
+  status,
+  endReason,
+  mode,
+  moves,
+  moveLimit,
+  timeLeft,
+  clearedTiles,
+  totalTiles,
+  optimalAiMoves,
+  optimalAiProven,
+  aiUnsolved,
+  isComputingAi,
+  hintsUsed,
+  efficiency,
+  daily,
+  campaign,
+  leaderboard,
+  ghostRace,
+  onRestart,
+  onUndo,
+  onWatchReplay,
+  onWatchAiSolution,
+  onReplayDaily,
+  onNextLevel,
+  onOpenCampaign
+}) => {
+  const { t, formatNumber, formatDate } = useI18n();
+  if (status === 'playing') return null;
+
+  const formatSeconds = (ms: number) =>
+    formatNumber(ms / 1000, {
+      style: 'unit',
+      unit: 'second',
+      unitDisplay: 'narrow',
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1
+    });
+  const ghostLead =
+    ghostRace && ghostRace.playerTimeMs !== null ? ghostRace.ghostTimeMs - ghostRace.playerTimeMs : null;
+
+  const isCampaignWin = campaign !== null && status === 'won';
+
+  const winMessage =
+    mode === 'timeAttack' && timeLeft !== null
+      ? t('gameOver.winTimeAttack', { count: Math.floor(timeLeft) })
+      : mode === 'moveLimit' && moveLimit !== null
+        ? t('gameOver.winMoveLimit', { count: moveLimit })
+        : t('gameOver.win');
+
+  const loss =
+    endReason === 'timeUp'
+      ? {
+          title: t('gameOver.timeUp'),
+          message: t('gameOver.timeUpMessage', { cleared: clearedTiles, count: totalTiles }),
+          undoLabel: ''
+        }
+      : endReason === 'outOfMoves'
+        ? {
+            title: t('gameOver.outOfMoves'),
+            message: t('gameOver.outOfMovesMessage', { limit: moveLimit ?? 0, count: totalTiles - clearedTiles }),
+            undoLabel: t('gameOver.undoMove')
+          }
+        : { title: t('gameOver.fell'), message: t('gameOver.fellMessage'), undoLabel: t('gameOver.undoFall') };
+
+  return (
+    <div className="absolute inset-0 bg-black/80 backdrop-blur-xl flex items-center justify-center p-4 z-50 animate-in fade-in zoom-in duration-300">
+      <div className="bg-[#121318] p-6 sm:p-8 rounded-3xl border border-white/20 shadow-2xl max-w-sm w-full text-center">
+        {status === 'won' ? (
+          <>
+            <div className="w-16 h-16 bg-yellow-400/20 text-yellow-400 rounded-full flex items-center justify-center mx-auto mb-4 border border-yellow-400/30">
+              <Trophy className="w-8 h-8" />
+            </div>
+            <h2 className="text-3xl sm:text-4xl font-black text-white mb-1 italic">
+              {t('gameOver.victory')}
+            </h2>
+            <p className="text-gray-400 text-xs sm:text-sm mb-6">
+              {winMessage}
+            </p>
+
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              <div className="bg-white/5 p-3.5 rounded-2xl border border-white/10">
+                <p className="text-[10px] uppercase text-gray-400 font-bold mb-0.5 tracking-wider">
+                  {t('hud.moves')}
+                </p>
+                <p className="text-2xl font-mono font-bold text-white">
+                  {moves}
+                </p>
+              </div>
+              <div className="bg-blue-500/10 p-3.5 rounded-2xl border border-blue-400/20">
+                <p className="text-[10px] uppercase text-blue-400 font-bold mb-0.5 tracking-wider">
+                  {t(isComputingAi ? 'gameOver.aiComputing' : optimalAiProven ? 'hud.aiOptimal' : 'hud.aiBest')}
+                </p>
+                <p className="text-2xl font-mono font-bold text-blue-400">
+                  {optimalAiMoves === null ? (
+                    aiUnsolved ? t(aiUnsolved === 'unsolvable' ? 'hud.aiUnsolvable' : 'hud.aiUnknown') : '…'
+                  ) : (
+                    <>
+                      {optimalAiProven ? '' : '≤'}
+                      {optimalAiMoves}
+                    </>
+                  )}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between bg-white/5 border border-white/10 rounded-2xl px-3.5 py-2.5 mb-3 text-xs">
+              <span className="flex items-center gap-1.5 text-gray-400 font-bold uppercase tracking-wider text-[10px]">
+                <Lightbulb className="w-3.5 h-3.5 text-yellow-400" />
+                {t('gameOver.hints', { used: hintsUsed, total: HINTS_PER_GAME })}
+                {hintsUsed > 0 && (
+                  <span className="text-red-400 normal-case">
+                    (−{formatNumber((hintsUsed * HINT_EFFICIENCY_PENALTY) / 100, { style: 'percent' })})
+                  </span>
+                )}
+              </span>
+              <span className="text-gray-400">
+                {t('gameOver.efficiency')}:{' '}
+                <strong className="text-white font-mono">{formatNumber(efficiency / 100, { style: 'percent' })}</strong>
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              <button
+                onClick={onWatchReplay}
+                className="py-2.5 px-3 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors flex items-center justify-center gap-1.5"
+              >
+                <Film className="w-4 h-4 text-yellow-400" />
+                {t('gameOver.watchReplay')}
+              </button>
+              <button
+                onClick={onWatchAiSolution}
+                disabled={!onWatchAiSolution}
+                className="py-2.5 px-3 bg-blue-500/10 hover:bg-blue-500/20 border border-blue-400/20 text-blue-300 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors flex items-center justify-center gap-1.5 disabled:opacity-40"
+              >
+                <Bot className="w-4 h-4" />
+                {t('gameOver.aiSolution')}
+              </button>
+            </div>
+
+            {leaderboard && <LeaderboardPanel {...leaderboard} />}
+          </>
+        ) : (
+          <>
+            <div className="w-16 h-16 bg-red-500/20 text-red-400 rounded-full flex items-center justify-center mx-auto mb-4 border border-red-500/30">
+              {endReason === 'timeUp' ? <Timer className="w-8 h-8" /> : <AlertCircle className="w-8 h-8" />}
+            </div>
+            <h2 className="text-3xl sm:text-4xl font-black text-white mb-1 italic uppercase">
+              {loss.title}
+            </h2>
+            <p className="text-gray-400 text-xs sm:text-sm mb-6">
+              {loss.message}
+            </p>
+
+            {onUndo && (
+              <button
+                onClick={onUndo}
+                className="w-full mb-3 py-3 bg-white/5 hover:bg-white/10 border border-white/15 text-white rounded-2xl text-sm font-black uppercase italic tracking-wider transition-all active:scale-95 flex items-center justify-center gap-2"
+              >
+                <Undo2 className="w-5 h-5" />
+                {loss.undoLabel}
+              </button>
+            )}
+          </>
+        )}
+
+        {ghostRace && (
+          <div className="bg-sky-500/5 border border-sky-400/20 rounded-2xl p-3.5 mb-6 text-left space-y-2">
+            <span className="text-[10px] uppercase font-bold tracking-wider text-sky-300 flex items-center gap-1.5">
+              <Ghost className="w-3.5 h-3.5" />
+              {t('menu.ghostRace')}
+            </span>
+            <div className="grid grid-cols-3 gap-x-2 gap-y-1 text-xs">
+              <span />
+              <span className="text-[10px] uppercase font-bold text-gray-500 tracking-wider">{t('gameOver.time')}</span>
+              <span className="text-[10px] uppercase font-bold text-gray-500 tracking-wider">{t('hud.moves')}</span>
+              <span className="font-bold text-yellow-400">{t('gameOver.you')}</span>
+              <span className="font-mono text-white">
+                {ghostRace.playerTimeMs === null ? '—' : formatSeconds(ghostRace.playerTimeMs)}
+              </span>
+              <span className="font-mono text-white">{moves}</span>
+              <span className="font-bold text-sky-300">{t('ghost.name')}</span>
+              <span className="font-mono text-white">
+                {ghostRace.isGhostFinished ? '' : '~'}
+                {formatSeconds(ghostRace.ghostTimeMs)}
+              </span>
+              <span className="font-mono text-white">{ghostRace.ghostMoves}</span>
+            </div>
+            <p className={`text-xs font-bold ${ghostLead !== null && ghostLead > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+              {ghostLead === null
+                ? t('gameOver.ghostWins')
+                : ghostLead > 0
+                  ? t('gameOver.playerAhead', { time: formatSeconds(ghostLead) })
+                  : t('gameOver.ghostAhead', { time: formatSeconds(-ghostLead) })}
+            </p>
+          </div>
+        )}
+
+        {daily && (
+          <div className="bg-yellow-400/5 border border-yellow-400/20 rounded-2xl p-3.5 mb-6 text-left space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] uppercase font-bold tracking-wider text-yellow-400 flex items-center gap-1.5">
+                <Calendar className="w-3.5 h-3.5" />
+                {t('menu.daily')} · {formatDate(fromDateKey(daily.dateKey), { dateStyle: 'medium', timeZone: 'UTC' })}
+              </span>
+              <span className="text-[11px] font-bold text-orange-400 flex items-center gap-1">
+                <Flame className="w-3.5 h-3.5" />
+                {t('common.days', { count: daily.streak })}
+              </span>
+            </div>
+            <p className="text-xs text-gray-300">
+              {daily.best ? (
+                <>
+                  {t('gameOver.dailyBest')}: <strong className="text-white font-mono">{daily.best.moves}</strong>{' '}
+                  {t('common.movesUnit')} ·{' '}
+                  <strong className="text-white font-mono">
+                    {formatNumber(daily.best.efficiency / 100, { style: 'percent' })}
+                  </strong>
+                </>
+              ) : (
+                t('gameOver.dailyNoResult')
+              )}
+            </p>
+            <button
+              onClick={onReplayDaily}
+              className="w-full py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors"
+            >
+              {t('gameOver.replayDaily')}
+            </button>
+          </div>
+        )}
+
+        {campaign && (
+          <div className="bg-yellow-400/5 border border-yellow-400/20 rounded-2xl p-3.5 mb-6 text-left space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] uppercase font-bold tracking-wider text-yellow-400 flex items-center gap-1.5 min-w-0">
+                <MapIcon className="w-3.5 h-3.5 shrink-0" />
+                <span className="truncate">
+                  {t('campaign.level', { number: campaign.levelNumber })} · {campaign.title}
+                </span>
+              </span>
+              {status === 'won' && <StarRow stars={campaign.stars} className="w-4 h-4" />}
+            </div>
+            <p className="text-xs text-gray-300">
+              {t('campaign.par')}: <strong className="text-white font-mono">{campaign.par}</strong> {t('common.movesUnit')}
+              {campaign.best && (
+                <>
+                  {' '}
+                  · {t('campaign.best')}: <strong className="text-white font-mono">{campaign.best.bestMoves}</strong>{' '}
+                  {t('common.movesUnit')}
+                </>
+              )}
+            </p>
+            {isCampaignWin && (
+              <button
+                onClick={onRestart}
+                className="w-full py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors"
+              >
+                {t('gameOver.replayLevel')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {isCampaignWin ? (
+          <button
+            onClick={campaign.hasNextLevel ? onNextLevel : onOpenCampaign}
+            className="w-full bg-yellow-400 hover:bg-yellow-300 text-black font-black py-3.5 rounded-2xl transition-all active:scale-95 text-lg uppercase italic tracking-tight flex items-center justify-center gap-2 shadow-lg"
+          >
+            {campaign.hasNextLevel ? <ArrowRight className="w-5 h-5" /> : <MapIcon className="w-5 h-5" />}
+            {t(campaign.hasNextLevel ? 'gameOver.nextLevel' : 'gameOver.chooseLevel')}
+          </button>
+        ) : (
+          <button
+            onClick={onRestart}
+            className="w-full bg-yellow-400 hover:bg-yellow-300 text-black font-black py-3.5 rounded-2xl transition-all active:scale-95 text-lg uppercase italic tracking-tight flex items-center justify-center gap-2 shadow-lg"
+          >
+            <RefreshCw className="w-5 h-5" />
+            {t('gameOver.tryAgain')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GameOverModal;
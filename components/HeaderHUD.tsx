@@ -1,40 +1,95 @@
 import React from 'react';
-import { Menu, Bot, RotateCcw, Volume2, VolumeX, Sparkles } from 'lucide-react';
-import { ColorType } from '../types';
+import { Menu, Bot, RotateCcw, Volume2, VolumeX, Sparkles, Undo2, Redo2, Lightbulb, Route, Timer, WifiOff } from 'lucide-react';
+import { AiUnsolvedReason, ColorType, Tile } from '../types';
+import { Difficulty } from '../engine/difficulty';
+import { GameMode } from '../engine/gameModes';
+import { HintKind } from '../engine/hints';
+import { getTileColor, tileMatches } from '../engine/tiles';
+import { useI18n } from './I18nProvider';
+
+const DIFFICULTY_STYLES: Record<Difficulty, string> = {
+  easy: 'bg-emerald-500/20 border-emerald-400/40 text-emerald-300',
+  medium: 'bg-sky-500/20 border-sky-400/40 text-sky-300',
+  hard: 'bg-orange-500/20 border-orange-400/40 text-orange-300',
+  expert: 'bg-red-500/20 border-red-400/40 text-red-300'
+};
+
+// Countdown under this many seconds turns red.
+const LOW_TIME = 10;
+
+const formatCountdown = (seconds: number) => {
+  const whole = Math.ceil(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
 
 interface HeaderHUDProps {
   moves: number;
-  optimalAiMoves: number;
+  optimalAiMoves: number | null;
+  optimalAiProven: boolean;
+  aiUnsolved: AiUnsolvedReason | null;
+  isComputingAi: boolean;
   userEfficiency: number;
   highScore: number;
   cubeBottomColor: ColorType;
-  currentTileColor: ColorType;
+  currentTile: Tile;
+  difficulty: Difficulty | null;
+  mode: GameMode;
+  // Seconds left in time attack; null in untimed modes.
+  timeLeft: number | null;
+  moveLimit: number | null;
+  // The mode's limit is still waiting for the solver's par.
+  isAwaitingPar: boolean;
+  // The other racer's progress in an online race.
+  opponent: { name: string; cleared: number; total: number; moves: number; connected: boolean } | null;
+  isGenerating: boolean;
   isAiSolving: boolean;
   soundEnabled: boolean;
   onOpenMenu: () => void;
   onRestart: () => void;
   onToggleAi: () => void;
   onToggleSound: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  hintsRemaining: number;
+  hintLoading: HintKind | null;
+  onHint: (kind: HintKind) => void;
 }
 
 export const HeaderHUD: React.FC<HeaderHUDProps> = ({
   moves,
   optimalAiMoves,
+  optimalAiProven,
+  aiUnsolved,
+  isComputingAi,
   userEfficiency,
   highScore,
   cubeBottomColor,
-  currentTileColor,
+  currentTile,
+  difficulty,
+  mode,
+  timeLeft,
+  moveLimit,
+  isAwaitingPar,
+  opponent,
+  isGenerating,
   isAiSolving,
   soundEnabled,
   onOpenMenu,
   onRestart,
   onToggleAi,
-  onToggleSound
+  onToggleSound,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  hintsRemaining,
+  hintLoading,
+  onHint
 }) => {
-  const isColorMatch =
-    currentTileColor !== ColorType.BLACK &&
-    currentTileColor !== ColorType.GRAY &&
-    cubeBottomColor === currentTileColor;
+  const { t } = useI18n();
+  const isColorMatch = tileMatches(currentTile, cubeBottomColor);
 
   return (
     <header className="absolute top-0 left-0 right-0 z-30 p-3 sm:p-4 pointer-events-none flex items-center justify-between gap-2 max-w-7xl mx-auto">
@@ -47,12 +102,80 @@ export const HeaderHUD: React.FC<HeaderHUDProps> = ({
               <h1 className="text-sm sm:text-base font-black tracking-tight uppercase italic text-yellow-400 leading-none">
                 Chromatic
               </h1>
+              {isGenerating ? (
+                <span className="px-1.5 py-0.5 rounded-md border border-white/10 bg-white/5 text-[9px] font-bold uppercase tracking-wider text-gray-400 animate-pulse">
+                  {t('common.generating')}
+                </span>
+              ) : (
+                difficulty && (
+                  <span
+                    className={`px-1.5 py-0.5 rounded-md border text-[9px] font-bold uppercase tracking-wider ${DIFFICULTY_STYLES[difficulty]}`}
+                  >
+                    {t(`difficulty.${difficulty}`)}
+                  </span>
+                )
+              )}
+              {mode !== 'classic' && (
+                <span className="px-1.5 py-0.5 rounded-md border border-purple-400/40 bg-purple-500/20 text-[9px] font-bold uppercase tracking-wider text-purple-300">
+                  {t(`gameMode.${mode}`)}
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2 mt-1 text-[11px] font-mono text-gray-300">
-              <span>Moves: <strong className="text-white font-bold">{moves}</strong></span>
+              {timeLeft !== null && (
+                <>
+                  <span
+                    className={`flex items-center gap-1 font-bold ${
+                      timeLeft <= LOW_TIME ? 'text-red-400 animate-pulse' : 'text-white'
+                    }`}
+                  >
+                    <Timer className="w-3.5 h-3.5" />
+                    {formatCountdown(timeLeft)}
+                  </span>
+                  <span className="text-white/20">•</span>
+                </>
+              )}
+              <span>
+                {t('hud.moves')}: <strong className="text-white font-bold">{moves}</strong>
+                {moveLimit !== null && <span className="text-gray-500">/{moveLimit}</span>}
+                {isAwaitingPar && <span className="text-gray-500 animate-pulse">/…</span>}
+              </span>
               <span className="text-white/20">•</span>
-              <span>IA optimal moves: <strong className="text-blue-400 font-bold">{optimalAiMoves}</strong></span>
+              <span>
+                {t(optimalAiProven ? 'hud.aiOptimal' : 'hud.aiBest')}:{' '}
+                <strong className="text-blue-400 font-bold">
+                  {optimalAiMoves === null ? (
+                    t(!aiUnsolved ? 'common.computing' : aiUnsolved === 'unsolvable' ? 'hud.aiUnsolvable' : 'hud.aiUnknown')
+                  ) : (
+                    <>
+                      {optimalAiProven ? '' : '≤'}
+                      {optimalAiMoves}
+                    </>
+                  )}
+                </strong>
+                {isComputingAi && optimalAiMoves !== null && (
+                  <span className="text-gray-500 animate-pulse"> {t('common.computing')}</span>
+                )}
+              </span>
             </div>
+            {opponent && (
+              <div className="flex items-center gap-2 mt-1.5 text-[11px] font-mono text-gray-300">
+                <span className="flex items-center gap-1 max-w-[96px] truncate font-bold text-sky-300">
+                  {!opponent.connected && <WifiOff className="w-3 h-3 shrink-0 text-red-400" />}
+                  {opponent.name}
+                </span>
+                <span className="flex-1 min-w-[48px] h-1.5 bg-white/10 rounded-full overflow-hidden">
+                  <span
+                    className="block h-full bg-sky-400 rounded-full transition-all duration-300"
+                    style={{ width: `${(opponent.cleared / Math.max(1, opponent.total)) * 100}%` }}
+                  />
+                </span>
+                <span>
+                  {opponent.cleared}/{opponent.total}
+                </span>
+                <span className="text-gray-500">{t('common.movesShort', { count: opponent.moves })}</span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -60,11 +183,11 @@ export const HeaderHUD: React.FC<HeaderHUDProps> = ({
         <button
           onClick={onOpenMenu}
           className="relative group bg-yellow-400/10 hover:bg-yellow-400/20 text-yellow-400 border border-yellow-400/40 p-2.5 sm:p-3 rounded-2xl transition-all active:scale-95 shadow-lg flex items-center gap-2"
-          title="Opções do Jogo"
+          title={t('hud.optionsTitle')}
         >
           <Menu className="w-5 h-5" />
           <span className="text-xs font-black uppercase italic tracking-wider hidden sm:inline">
-            Opções
+            {t('hud.options')}
           </span>
           {isAiSolving && (
             <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-red-500 animate-ping" />
@@ -76,6 +199,47 @@ export const HeaderHUD: React.FC<HeaderHUDProps> = ({
       <div className="flex items-center gap-2 pointer-events-auto">
         {/* Desktop Quick Actions */}
         <div className="hidden lg:flex items-center gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="p-2.5 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 hover:text-white rounded-xl transition-all disabled:opacity-30 disabled:pointer-events-none"
+            title={t('common.undoShortcut')}
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="p-2.5 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 hover:text-white rounded-xl transition-all disabled:opacity-30 disabled:pointer-events-none"
+            title={t('common.redoShortcut')}
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+
+          <div className="flex items-center bg-white/5 border border-white/10 rounded-xl overflow-hidden">
+            <button
+              onClick={() => onHint('move')}
+              disabled={hintsRemaining <= 0 || hintLoading !== null || isAiSolving}
+              className="px-2.5 py-2 hover:bg-white/10 text-gray-200 text-xs font-black uppercase italic tracking-wider transition-all flex items-center gap-1.5 disabled:opacity-30"
+              title={t('hud.hintMoveTitle')}
+            >
+              <Lightbulb className={`w-4 h-4 text-yellow-400 ${hintLoading === 'move' ? 'animate-pulse' : ''}`} />
+              {t('hud.hint')}
+            </button>
+            <button
+              onClick={() => onHint('path')}
+              disabled={hintsRemaining <= 0 || hintLoading !== null || isAiSolving}
+              className="px-2.5 py-2 hover:bg-white/10 border-l border-white/10 text-gray-200 transition-all disabled:opacity-30"
+              title={t('hud.hintPathTitle')}
+            >
+              <Route className={`w-4 h-4 text-yellow-400 ${hintLoading === 'path' ? 'animate-pulse' : ''}`} />
+            </button>
+            <span className="px-2 text-[11px] font-mono font-bold text-gray-400 border-l border-white/10">
+              {hintsRemaining}
+            </span>
+          </div>
+
           <button
             onClick={onToggleAi}
             className={`px-3 py-2 rounded-xl border text-xs font-black uppercase italic tracking-wider transition-all flex items-center gap-1.5 ${
@@ -85,13 +249,13 @@ export const HeaderHUD: React.FC<HeaderHUDProps> = ({
             }`}
           >
             <Bot className="w-4 h-4 text-yellow-400" />
-            {isAiSolving ? 'AI Ativa' : 'AI Solver'}
+            {t(isAiSolving ? 'hud.aiActive' : 'hud.aiSolver')}
           </button>
 
           <button
             onClick={onToggleSound}
             className="p-2.5 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 rounded-xl transition-all"
-            title="Som"
+            title={t('hud.sound')}
           >
             {soundEnabled ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4 text-gray-500" />}
           </button>
@@ -99,7 +263,7 @@ export const HeaderHUD: React.FC<HeaderHUDProps> = ({
           <button
             onClick={onRestart}
             className="p-2.5 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 hover:text-white rounded-xl transition-all"
-            title="Reiniciar Tabuleiro"
+            title={t('hud.restart')}
           >
             <RotateCcw className="w-4 h-4" />
           </button>
@@ -110,7 +274,7 @@ export const HeaderHUD: React.FC<HeaderHUDProps> = ({
           {/* Bottom Face */}
           <div className="flex flex-col items-center">
             <span className="text-[9px] uppercase font-bold text-gray-400 tracking-wider mb-1">
-              Base
+              {t('hud.bottomFace')}
             </span>
             <div
               className="w-6 h-6 sm:w-7 sm:h-7 rounded-lg shadow-inner border border-white/20 transition-all duration-300"
@@ -118,12 +282,12 @@ export const HeaderHUD: React.FC<HeaderHUDProps> = ({
             />
           </div>
 
-          <span className="text-gray-600 font-bold text-xs">vs</span>
+          <span className="text-gray-600 font-bold text-xs">{t('hud.versus')}</span>
 
           {/* Tile Face */}
           <div className="flex flex-col items-center">
             <span className="text-[9px] uppercase font-bold text-gray-400 tracking-wider mb-1">
-              Piso
+              {t('hud.floorTile')}
             </span>
             <div
               className={`w-6 h-6 sm:w-7 sm:h-7 rounded-lg shadow-inner border transition-all duration-300 relative ${
@@ -131,7 +295,7 @@ export const HeaderHUD: React.FC<HeaderHUDProps> = ({
                   ? 'border-emerald-400 scale-110 shadow-[0_0_12px_rgba(52,211,153,0.8)]'
                   : 'border-white/20'
               }`}
-              style={{ backgroundColor: currentTileColor }}
+              style={{ backgroundColor: getTileColor(currentTile) }}
             >
               {isColorMatch && (
                 <Sparkles className="w-3 h-3 text-white absolute -top-1 -right-1 animate-spin" />
@@ -0,0 +1,55 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { HintStep } from '../engine/hints';
+
+interface HintTrailProps {
+  steps: HintStep[];
+}
+
+// Sits just above the tile tops, in board coordinates.
+const TRAIL_HEIGHT = 0.06;
+
+// Glowing squares along the hinted path. Each one carries a swatch of the
+// face the cube will land on there, and the glow ripples away from the cube.
+const HintTrail: React.FC<HintTrailProps> = ({ steps }) => {
+  const glowRefs = useRef<(THREE.MeshBasicMaterial | null)[]>([]);
+
+  useFrame(({ clock }) => {
+    const t = clock.getElapsedTime();
+    glowRefs.current.forEach((material, i) => {
+      if (material) material.opacity = 0.35 + 0.3 * Math.sin(t * 4 - i * 0.8);
+    });
+  });
+
+  return (
+    <group>
+      {steps.map((step, i) => (
+        <group
+          key={`${i}-${step.position[0]}-${step.position[1]}`}
+          position={[step.position[0], TRAIL_HEIGHT, step.position[1]]}
+          rotation={[-Math.PI / 2, 0, 0]}
+        >
+          <mesh>
+            <planeGeometry args={[0.9, 0.9]} />
+            <meshBasicMaterial
+              ref={material => {
+                glowRefs.current[i] = material;
+              }}
+              color="#facc15"
+              transparent
+              opacity={0.5}
+              depthWrite={false}
+            />
+          </mesh>
+          <mesh position={[0, 0, 0.005]}>
+            <planeGeometry args={[0.38, 0.38]} />
+            <meshBasicMaterial color={step.bottom} />
+          </mesh>
+        </group>
+      ))}
+    </group>
+  );
+};
+
+export default HintTrail;
@@ -0,0 +1,46 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale, MessageKey, MessageParams, detectLocale, formatDate, formatNumber, translate } from '../engine/i18n';
+import { loadLocale, saveLocale } from '../services/storage';
+
+interface I18nValue {
+  locale: Locale;
+  // Persists the choice; until then the browser language is used.
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (date: Date, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => loadLocale() ?? detectLocale(navigator.languages ?? []));
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nValue>(
+    () => ({
+      locale,
+      setLocale: next => {
+        saveLocale(next);
+        setLocaleState(next);
+      },
+      t: (key, params) => translate(locale, key, params),
+      formatNumber: (number, options) => formatNumber(locale, number, options),
+      formatDate: (date, options) => formatDate(locale, date, options)
+    }),
+    [locale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nValue => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside an I18nProvider');
+  return value;
+};
+
+export default I18nProvider;
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Medal, Send } from 'lucide-react';
+import { LeaderboardEntry, MAX_PLAYER_NAME_LENGTH, createSubmission, normalizePlayerName } from '../engine/leaderboard';
+import { Replay } from '../engine/replay';
+import { LeaderboardClient, LeaderboardRequestError } from '../services/leaderboardClient';
+import { useI18n } from './I18nProvider';
+
+export interface LeaderboardPanelProps {
+  client: LeaderboardClient;
+  mapHash: string;
+  title: string;
+  // A finished game that can be submitted; the player only adds a name.
+  result?: { replay: Replay; moves: number } | null;
+  playerName: string;
+  onChangePlayerName: (name: string) => void;
+}
+
+// Top scores of one board, fetched when shown, with an optional submit form.
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({
+  client,
+  mapHash,
+  title,
+  result,
+  playerName,
+  onChangePlayerName
+}) => {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<LeaderboardRequestError | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submittedRank, setSubmittedRank] = useState<number | null>(null);
+
+  // Anything but a server answer, such as a malformed reply, counts as a server error.
+  const showError = (err: unknown) =>
+    setError(
+      err instanceof LeaderboardRequestError ? err : new LeaderboardRequestError('leaderboard.error.serverError')
+    );
+
+  useEffect(() => {
+    let isCurrent = true;
+    setEntries(null);
+    setError(null);
+    setSubmittedRank(null);
+    client
+      .fetchTop(mapHash)
+      .then(top => isCurrent && setEntries(top))
+      .catch(err => isCurrent && showError(err));
+    return () => {
+      isCurrent = false;
+    };
+  }, [client, mapHash]);
+
+  const submit = () => {
+    if (!result || isSubmitting || !normalizePlayerName(playerName)) return;
+    setIsSubmitting(true);
+    setError(null);
+    client
+      .submit(createSubmission(playerName, result.replay, result.moves))
+      .then(response => {
+        setEntries(response.entries);
+        setSubmittedRank(response.rank);
+      })
+      .catch(showError)
+      .finally(() => setIsSubmitting(false));
+  };
+
+  const ownName = normalizePlayerName(playerName).toLowerCase();
+
+  return (
+    <div className="bg-blue-500/5 border border-blue-400/20 rounded-2xl p-3.5 mb-6 text-left space-y-2">
+      <span className="text-[10px] uppercase font-bold tracking-wider text-blue-300 flex items-center gap-1.5">
+        <Medal className="w-3.5 h-3.5" />
+        {title}
+      </span>
+
+      {entries === null && !error && <p className="text-xs text-gray-500 animate-pulse">{t('leaderboard.loading')}</p>}
+      {entries !== null && entries.length === 0 && (
+        <p className="text-xs text-gray-400">{t('leaderboard.empty')}</p>
+      )}
+      {entries !== null && entries.length > 0 && (
+        <ol className="space-y-0.5">
+          {entries.map((entry, i) => (
+            <li
+              key={entry.id}
+              className={`flex items-center justify-between text-xs px-2 py-1 rounded-lg ${
+                entry.playerName.toLowerCase() === ownName ? 'bg-yellow-400/10 text-yellow-300' : 'text-gray-300'
+              }`}
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <span className="font-mono text-gray-500 w-5 text-right">{i + 1}.</span>
+                <span className="font-bold truncate">{entry.playerName}</span>
+              </span>
+              <span className="font-mono shrink-0">{t('common.movesShort', { count: entry.moves })}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {error && <p className="text-xs text-red-400">{t(error.key, error.params)}</p>}
+
+      {result &&
+        (submittedRank !== null ? (
+          <p className="text-xs text-emerald-400 font-bold">{t('leaderboard.submitted', { rank: submittedRank })}</p>
+        ) : (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={e => {
+              e.preventDefault();
+              submit();
+            }}
+          >
+            <input
+              value={playerName}
+              onChange={e => onChangePlayerName(e.target.value)}
+              maxLength={MAX_PLAYER_NAME_LENGTH}
+              placeholder={t('leaderboard.namePlaceholder')}
+              className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs text-white placeholder:text-gray-600 focus:outline-none focus:border-blue-400/50"
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting || !normalizePlayerName(playerName)}
+              className="py-2 px-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-400/30 text-blue-300 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors flex items-center gap-1.5 disabled:opacity-40"
+            >
+              <Send className={`w-3.5 h-3.5 ${isSubmitting ? 'animate-pulse' : ''}`} />
+              {t('leaderboard.send')}
+            </button>
+          </form>
+        ))}
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
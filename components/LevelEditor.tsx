@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  X,
+  Pencil,
+  MapPin,
+  Minus,
+  Plus,
+  ChevronUp,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  RotateCw,
+  FlaskConical,
+  Download,
+  AlertCircle,
+  CheckCircle2,
+  Loader2,
+  Paintbrush
+} from 'lucide-react';
+import { BoardSize, CubeFaces, Direction, Tile } from '../types';
+import { ALL_COLORS, MAX_BOARD_DIMENSION, MIN_BOARD_DIMENSION } from '../constants';
+import { createEngineState, rotateOrientation } from '../engine/gameEngine';
+import { paintTile, resizeMap, setOrientation, spinOrientation } from '../engine/editor';
+import { MessageKey } from '../engine/i18n';
+import { MapDocument, parseMapDocument, toMapJson } from '../engine/mapFormat';
+import { SolveStatus, SolverOptions } from '../engine/solver';
+import {
+  CLEARED_TILE,
+  HOLE_TILE,
+  START_TILE,
+  WALL_TILE,
+  WILDCARD_TILE,
+  arrowTile,
+  colorTile,
+  encodeTile,
+  getTileColor,
+  isSameTile,
+  paintColorTile
+} from '../engine/tiles';
+import { SolverClient, unlessCancelled } from '../workers/solverClient';
+import BoardScene from './BoardScene';
+import { useI18n } from './I18nProvider';
+
+interface LevelEditorProps {
+  map: MapDocument;
+  solver: SolverClient | null;
+  onChange: (map: MapDocument) => void;
+  onTestPlay: () => void;
+  onExport: (map: MapDocument) => void;
+  onExit: () => void;
+}
+
+interface EditorSolveStats {
+  status: SolveStatus | 'computing';
+  moves: number | null;
+}
+
+const EDITOR_SOLVER_OPTIONS: SolverOptions = { maxNodes: 50000, timeLimitMs: 4000 };
+// Waits for the designer to stop painting before solving.
+const SOLVE_DEBOUNCE_MS = 400;
+
+const ARROW_ICONS: Record<Direction, React.ReactNode> = {
+  up: <ChevronUp className="w-4 h-4 text-yellow-400" />,
+  down: <ChevronDown className="w-4 h-4 text-yellow-400" />,
+  left: <ChevronLeft className="w-4 h-4 text-yellow-400" />,
+  right: <ChevronRight className="w-4 h-4 text-yellow-400" />
+};
+
+// Color tiles show only their swatch; special tiles get an icon or, with
+// `textClassName`, their label written on them.
+const PALETTE: { tool: Tile; label?: MessageKey; icon?: React.ReactNode; textClassName?: string }[] = [
+  ...ALL_COLORS.map(color => ({ tool: colorTile(color) })),
+  { tool: WILDCARD_TILE, label: 'editor.tile.wildcard', textClassName: 'text-white' },
+  { tool: CLEARED_TILE, label: 'editor.tile.cleared', textClassName: 'text-gray-400' },
+  { tool: WALL_TILE, label: 'editor.tile.wall', textClassName: 'text-gray-200' },
+  { tool: HOLE_TILE, label: 'editor.tile.hole', textClassName: 'text-gray-500' },
+  ...(['up', 'down', 'left', 'right'] as Direction[]).map(direction => ({
+    tool: arrowTile(direction),
+    label: 'editor.tile.arrow' as MessageKey,
+    icon: ARROW_ICONS[direction]
+  })),
+  ...ALL_COLORS.map(color => ({
+    tool: paintColorTile(color),
+    label: 'editor.tile.paint' as MessageKey,
+    icon: <Paintbrush className="w-4 h-4 text-black/60" />
+  })),
+  { tool: START_TILE, label: 'editor.tile.start', icon: <MapPin className="w-4 h-4 text-white" /> }
+];
+
+const CUBE_FACES: (keyof CubeFaces)[] = ['top', 'bottom', 'front', 'back', 'left', 'right'];
+
+const ROLL_BUTTONS: [Direction, React.ReactNode][] = [
+  ['up', <ChevronUp className="w-4 h-4" />],
+  ['down', <ChevronDown className="w-4 h-4" />],
+  ['right', <ChevronLeft className="w-4 h-4" />],
+  ['left', <ChevronRight className="w-4 h-4" />]
+];
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ map, solver, onChange, onTestPlay, onExport, onExit }) => {
+  const { t } = useI18n();
+  const [tool, setTool] = useState<Tile>(colorTile(ALL_COLORS[0]));
+  const [stats, setStats] = useState<EditorSolveStats>({ status: 'computing', moves: null });
+
+  // The parser reads the file form, so the map goes through the same JSON as an export.
+  const errors = useMemo(() => parseMapDocument(toMapJson(map)).errors, [map]);
+
+  useEffect(() => {
+    if (!solver || errors.length > 0) return;
+    setStats({ status: 'computing', moves: null });
+    let job: { cancel: () => void } | null = null;
+    const timer = setTimeout(() => {
+      const solveJob = solver.solve(createEngineState(map.tiles, map.start, map.cubeFaces), EDITOR_SOLVER_OPTIONS, {
+        onPartial: path => setStats({ status: 'computing', moves: path.length })
+      });
+      job = solveJob;
+      solveJob.promise.then(
+        result => setStats({ status: result.status, moves: result.moves }),
+        // A failed worker leaves the best figure found so far.
+        unlessCancelled(() => setStats(prev => ({ status: 'bounded', moves: prev.moves })))
+      );
+    }, SOLVE_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      job?.cancel();
+    };
+  }, [map.tiles, map.start, map.cubeFaces, solver, errors.length]);
+
+  const isValid = errors.length === 0;
+
+  const stepper = (label: MessageKey, key: keyof BoardSize) => (
+    <div className="flex items-center justify-between bg-white/5 border border-white/10 rounded-xl px-3 py-2">
+      <span className="text-[11px] font-bold uppercase tracking-wider text-gray-400">{t(label)}</span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange(resizeMap(map, { ...map.size, [key]: map.size[key] - 1 }))}
+          disabled={map.size[key] <= MIN_BOARD_DIMENSION}
+          className="p-1.5 bg-white/5 hover:bg-white/10 text-gray-300 rounded-lg transition-colors disabled:opacity-30"
+        >
+          <Minus className="w-3.5 h-3.5" />
+        </button>
+        <span className="w-6 text-center text-sm font-mono font-bold text-white">{map.size[key]}</span>
+        <button
+          onClick={() => onChange(resizeMap(map, { ...map.size, [key]: map.size[key] + 1 }))}
+          disabled={map.size[key] >= MAX_BOARD_DIMENSION}
+          className="p-1.5 bg-white/5 hover:bg-white/10 text-gray-300 rounded-lg transition-colors disabled:opacity-30"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 bg-[#0a0a0c] animate-in fade-in duration-200">
+      <BoardScene
+        grid={map.tiles}
+        cubes={[
+          { position: map.start, faces: map.cubeFaces, isRolling: false, rollDirection: null, onRollComplete: () => {} }
+        ]}
+        onTilePaint={position => onChange(paintTile(map, position, tool))}
+      />
+
+      {/* Header Bar */}
+      <div className="absolute top-0 left-0 p-3 sm:p-4 pointer-events-none">
+        <div className="bg-black/60 backdrop-blur-md px-3 py-2 rounded-2xl border border-white/10 shadow-2xl flex items-center gap-1.5">
+          <Pencil className="w-4 h-4 text-yellow-400" />
+          <h2 className="text-sm font-black tracking-tight uppercase italic text-yellow-400 leading-none">
+            {t('menu.editor')}
+          </h2>
+        </div>
+      </div>
+
+      {/* Tools Panel */}
+      <div className="absolute inset-x-0 bottom-0 max-h-[48vh] sm:inset-x-auto sm:right-4 sm:top-4 sm:bottom-4 sm:max-h-none sm:w-80 bg-[#121318]/95 backdrop-blur-xl border-t sm:border border-white/15 rounded-t-3xl sm:rounded-3xl shadow-2xl overflow-y-auto p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold uppercase tracking-wider text-gray-400">{t('editor.tools')}</span>
+          <button
+            onClick={onExit}
+            className="p-2 text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+            title={t('editor.exit')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Palette */}
+        <div className="grid grid-cols-4 gap-2">
+          {PALETTE.map(entry => (
+            <button
+              key={encodeTile(entry.tool)}
+              onClick={() => setTool(entry.tool)}
+              title={entry.label ? t(entry.label) : getTileColor(entry.tool)}
+              className={`h-10 rounded-xl border-2 flex items-center justify-center text-[9px] font-bold uppercase transition-all ${
+                isSameTile(tool, entry.tool) ? 'border-yellow-400 scale-105' : 'border-white/10 hover:border-white/30'
+              }`}
+              style={{ backgroundColor: getTileColor(entry.tool) }}
+            >
+              {entry.textClassName ? <span className={entry.textClassName}>{t(entry.label)}</span> : entry.icon}
+            </button>
+          ))}
+        </div>
+
+        {/* Board Size */}
+        <div className="grid grid-cols-2 gap-2">
+          {stepper('menu.width', 'width')}
+          {stepper('menu.height', 'height')}
+        </div>
+
+        {/* Cube Orientation */}
+        <div className="space-y-2">
+          <span className="text-[11px] font-bold uppercase tracking-wider text-gray-400">{t('editor.orientation')}</span>
+          <div className="grid grid-cols-6 gap-1.5">
+            {CUBE_FACES.map(face => (
+              <div key={face} className="flex flex-col items-center gap-1">
+                <div
+                  className="w-7 h-7 rounded-lg border border-white/20"
+                  style={{ backgroundColor: map.cubeFaces[face] }}
+                />
+                <span className="text-[9px] uppercase font-bold text-gray-500">{t(`editor.face.${face}`)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-1.5">
+            {ROLL_BUTTONS.map(([direction, icon]) => (
+              <button
+                key={direction}
+                onClick={() => onChange(setOrientation(map, rotateOrientation(map.cubeFaces, direction)))}
+                className="flex-1 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 rounded-lg flex items-center justify-center transition-colors"
+              >
+                {icon}
+              </button>
+            ))}
+            <button
+              onClick={() => onChange(setOrientation(map, spinOrientation(map.cubeFaces)))}
+              className="flex-1 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 rounded-lg flex items-center justify-center transition-colors"
+              title={t('editor.spin')}
+            >
+              <RotateCw className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Details */}
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            value={map.title}
+            onChange={e => onChange({ ...map, title: e.target.value })}
+            placeholder={t('editor.titlePlaceholder')}
+            className="min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-white placeholder:text-gray-500 focus:outline-none focus:border-yellow-400/60"
+          />
+          <input
+            value={map.author}
+            onChange={e => onChange({ ...map, author: e.target.value })}
+            placeholder={t('editor.authorPlaceholder')}
+            className="min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-white placeholder:text-gray-500 focus:outline-none focus:border-yellow-400/60"
+          />
+        </div>
+
+        {/* Validation & Solver Stats */}
+        {isValid ? (
+          <div className="bg-black/40 border border-white/10 rounded-2xl p-3 flex items-center justify-between text-xs">
+            <span className="flex items-center gap-1.5 font-bold text-gray-300">
+              {stats.status === 'computing' ? (
+                <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+              ) : stats.status === 'unsolvable' ? (
+                <AlertCircle className="w-4 h-4 text-red-400" />
+              ) : (
+                <CheckCircle2 className="w-4 h-4 text-emerald-400" />
+              )}
+              {t(
+                stats.status === 'computing'
+                  ? 'editor.solving'
+                  : stats.status === 'unsolvable'
+                    ? 'editor.unsolvable'
+                    : stats.status === 'optimal'
+                      ? 'editor.optimal'
+                      : 'editor.bestFound'
+              )}
+            </span>
+            {stats.moves !== null && stats.status !== 'unsolvable' && (
+              <span className="font-mono font-bold text-blue-400">
+                {stats.status === 'optimal' ? '' : '≤'}
+                {t('common.movesShort', { count: stats.moves })}
+              </span>
+            )}
+          </div>
+        ) : (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-2xl p-3 space-y-1">
+            {errors.map((error, i) => (
+              <p key={i} className="text-[11px] text-red-300">
+                {error.field && <code className="font-mono text-red-400">{error.field}: </code>}
+                {t(`mapError.${error.detail}`, error.params)}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={onTestPlay}
+            disabled={!isValid || stats.status === 'unsolvable'}
+            className="py-3 px-3 bg-yellow-400/20 border border-yellow-400/50 text-yellow-400 hover:bg-yellow-400/30 rounded-2xl font-black uppercase italic text-xs tracking-wider flex items-center justify-center gap-2 transition-colors disabled:opacity-40"
+          >
+            <FlaskConical className="w-4 h-4" />
+            {t('editor.test')}
+          </button>
+          <button
+            onClick={() =>
+              onExport({ ...map, par: stats.status === 'optimal' ? stats.moves : null })
+            }
+            disabled={!isValid}
+            className="py-3 px-3 bg-white/5 border border-white/10 text-gray-200 hover:bg-white/10 rounded-2xl font-bold text-xs uppercase tracking-wider flex items-center justify-center gap-2 transition-colors disabled:opacity-40"
+          >
+            <Download className="w-4 h-4" />
+            {t('replay.export')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   X,
   Bot,
@@ -11,23 +11,96 @@ import {
   Activity,
   Hand,
   HelpCircle,
-  Sparkles
+  Sparkles,
+  Minus,
+  Plus,
+  AlertCircle,
+  Dices,
+  Play,
+  Copy,
+  Check,
+  Link,
+  ClipboardPaste,
+  Calendar,
+  Flame,
+  Undo2,
+  Film,
+  Lightbulb,
+  Route,
+  Pencil,
+  Map as MapIcon,
+  Star,
+  ChartLine,
+  Swords,
+  Globe,
+  Ghost,
+  GraduationCap,
+  Languages,
+  Compass,
+  Grid3x3
 } from 'lucide-react';
+import { AiUnsolvedReason, BoardSize } from '../types';
+import { MapValidationError } from '../engine/mapFormat';
+import { DIFFICULTIES, Difficulty } from '../engine/difficulty';
+import { GAME_MODES, GameMode } from '../engine/gameModes';
+import { GHOST_PACES, GhostPace } from '../engine/ghostRace';
+import { HintKind } from '../engine/hints';
+import { ControlMode } from '../engine/controls';
+import { LOCALES, LOCALE_NAMES } from '../engine/i18n';
+import { useI18n } from './I18nProvider';
+import { MAX_BOARD_DIMENSION, MIN_BOARD_DIMENSION } from '../constants';
 
 interface MobileMenuModalProps {
   isOpen: boolean;
   onClose: () => void;
   moves: number;
-  optimalAiMoves: number;
+  optimalAiMoves: number | null;
+  optimalAiProven: boolean;
+  aiUnsolved: AiUnsolvedReason | null;
+  isComputingAi: boolean;
   userEfficiency: number;
   highScore: number;
   isAiSolving: boolean;
   soundEnabled: boolean;
   onToggleAi: () => void;
+  hintsRemaining: number;
+  hintLoading: HintKind | null;
+  onHint: (kind: HintKind) => void;
   onSaveMap: () => void;
   onLoadMapClick: () => void;
+  onLoadReplayClick: () => void;
+  onOpenEditor: () => void;
   onRestart: () => void;
   onToggleSound: () => void;
+  undoPenalty: boolean;
+  onToggleUndoPenalty: () => void;
+  controlMode: ControlMode;
+  onToggleControlMode: () => void;
+  seed?: string;
+  onStartSeed: (seed: string) => void;
+  dailyStreak: number;
+  onOpenDaily: () => void;
+  shareCode: string;
+  onCopyShareCode: () => Promise<boolean>;
+  onCopyShareLink: () => Promise<boolean>;
+  onLoadShareCode: (code: string) => boolean;
+  mapErrors: MapValidationError[];
+  onDismissMapErrors: () => void;
+  boardSize: BoardSize;
+  onChangeBoardSize: (size: BoardSize) => void;
+  targetDifficulty: Difficulty | null;
+  onChangeTargetDifficulty: (difficulty: Difficulty | null) => void;
+  selectedMode: GameMode;
+  onChangeMode: (mode: GameMode) => void;
+  isGenerating: boolean;
+  campaignSummary: { completed: number; levels: number; stars: number; maxStars: number };
+  onOpenCampaign: () => void;
+  onOpenStats: () => void;
+  onOpenVersus: () => void;
+  onOpenRace: () => void;
+  // Restarts the current board with an AI ghost racing on its own copy.
+  onStartGhostRace: (pace: GhostPace) => void;
+  onOpenCoach: () => void;
 }
 
 export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
@@ -35,18 +108,90 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
   onClose,
   moves,
   optimalAiMoves,
+  optimalAiProven,
+  aiUnsolved,
+  isComputingAi,
   userEfficiency,
   highScore,
   isAiSolving,
   soundEnabled,
   onToggleAi,
+  hintsRemaining,
+  hintLoading,
+  onHint,
   onSaveMap,
   onLoadMapClick,
+  onLoadReplayClick,
+  onOpenEditor,
   onRestart,
-  onToggleSound
+  onToggleSound,
+  undoPenalty,
+  onToggleUndoPenalty,
+  controlMode,
+  onToggleControlMode,
+  seed,
+  onStartSeed,
+  dailyStreak,
+  onOpenDaily,
+  shareCode,
+  onCopyShareCode,
+  onCopyShareLink,
+  onLoadShareCode,
+  mapErrors,
+  onDismissMapErrors,
+  boardSize,
+  onChangeBoardSize,
+  targetDifficulty,
+  onChangeTargetDifficulty,
+  selectedMode,
+  onChangeMode,
+  isGenerating,
+  campaignSummary,
+  onOpenCampaign,
+  onOpenStats,
+  onOpenVersus,
+  onOpenRace,
+  onStartGhostRace,
+  onOpenCoach
 }) => {
+  const { t, locale, setLocale } = useI18n();
+  const [seedInput, setSeedInput] = useState('');
+  const [codeInput, setCodeInput] = useState('');
+  const [ghostPace, setGhostPace] = useState<GhostPace>('normal');
+  const [copied, setCopied] = useState<'code' | 'link' | null>(null);
+
+  const handleCopy = async (target: 'code' | 'link') => {
+    const ok = await (target === 'code' ? onCopyShareCode() : onCopyShareLink());
+    if (!ok) return;
+    setCopied(target);
+    setTimeout(() => setCopied(current => (current === target ? null : current)), 2000);
+  };
+
   if (!isOpen) return null;
 
+  const dimensionStepper = (label: string, key: keyof BoardSize) => (
+    <div className="flex items-center justify-between bg-white/5 border border-white/10 rounded-xl px-3 py-2">
+      <span className="text-[11px] font-bold uppercase tracking-wider text-gray-400">{label}</span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChangeBoardSize({ ...boardSize, [key]: boardSize[key] - 1 })}
+          disabled={boardSize[key] <= MIN_BOARD_DIMENSION}
+          className="p-1.5 bg-white/5 hover:bg-white/10 text-gray-300 rounded-lg transition-colors disabled:opacity-30"
+        >
+          <Minus className="w-3.5 h-3.5" />
+        </button>
+        <span className="w-6 text-center text-sm font-mono font-bold text-white">{boardSize[key]}</span>
+        <button
+          onClick={() => onChangeBoardSize({ ...boardSize, [key]: boardSize[key] + 1 })}
+          disabled={boardSize[key] >= MAX_BOARD_DIMENSION}
+          className="p-1.5 bg-white/5 hover:bg-white/10 text-gray-300 rounded-lg transition-colors disabled:opacity-30"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/70 backdrop-blur-md animate-in fade-in duration-200">
       {/* Backdrop click */}
@@ -59,13 +204,13 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
           <div className="flex items-center gap-2">
             <Sparkles className="w-5 h-5 text-yellow-400" />
             <h2 className="text-lg font-black tracking-tight text-white uppercase italic">
-              Opções do Jogo
+              {t('hud.optionsTitle')}
             </h2>
           </div>
           <button
             onClick={onClose}
             className="p-2 text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
-            title="Fechar"
+            title={t('common.close')}
           >
             <X className="w-5 h-5" />
           </button>
@@ -77,7 +222,7 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
           <div className="grid grid-cols-2 gap-3 bg-black/40 p-3.5 rounded-2xl border border-white/10">
             <div className="text-center p-1">
               <span className="text-[10px] font-bold uppercase text-gray-400 tracking-wider block mb-0.5">
-                Moves
+                {t('hud.moves')}
               </span>
               <span className="text-xl font-mono font-bold text-white">
                 {moves}
@@ -85,18 +230,28 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
             </div>
             <div className="text-center p-1 border-l border-white/10">
               <span className="text-[10px] font-bold uppercase text-blue-400 tracking-wider block mb-0.5">
-                IA optimal moves
+                {t(optimalAiProven ? 'hud.aiOptimal' : 'hud.aiBest')}
               </span>
               <span className="text-xl font-mono font-bold text-blue-400">
-                {optimalAiMoves}
+                {optimalAiMoves === null ? (
+                  aiUnsolved ? t(aiUnsolved === 'unsolvable' ? 'hud.aiUnsolvable' : 'hud.aiUnknown') : '…'
+                ) : (
+                  <>
+                    {optimalAiProven ? '' : '≤'}
+                    {optimalAiMoves}
+                  </>
+                )}
               </span>
+              {isComputingAi && (
+                <span className="text-[10px] text-gray-500 block animate-pulse">{t('common.computing')}</span>
+              )}
             </div>
           </div>
 
           {/* AI Solver Toggle Button */}
           <div className="space-y-2">
             <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">
-              Assistente Inteligente
+              {t('menu.assistant')}
             </span>
             <button
               onClick={() => {
@@ -110,14 +265,241 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
               }`}
             >
               <Bot className="w-5 h-5" />
-              {isAiSolving ? 'Parar Solver AI' : 'Executar AI Solver'}
+              {t(isAiSolving ? 'menu.stopAi' : 'menu.runAi')}
+            </button>
+            <div className="grid grid-cols-2 gap-2">
+              {(['move', 'path'] as const).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => {
+                    onHint(kind);
+                    onClose();
+                  }}
+                  disabled={hintsRemaining <= 0 || hintLoading !== null || isAiSolving}
+                  className="py-2.5 px-3 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 rounded-xl font-bold text-xs tracking-wide flex items-center justify-center gap-2 transition-colors disabled:opacity-40"
+                >
+                  {kind === 'move' ? (
+                    <Lightbulb className="w-4 h-4 text-yellow-400" />
+                  ) : (
+                    <Route className="w-4 h-4 text-yellow-400" />
+                  )}
+                  {t(kind === 'move' ? 'menu.hintMove' : 'menu.hintPath')}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => {
+                onOpenCoach();
+                onClose();
+              }}
+              className="w-full py-2.5 px-3 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 rounded-xl font-bold text-xs tracking-wide flex items-center justify-center gap-2 transition-colors"
+            >
+              <GraduationCap className="w-4 h-4 text-yellow-400" />
+              {t('menu.coach')}
             </button>
+            <p className="text-[10px] text-gray-500 px-1">
+              {t('menu.hintsRemaining')}: <strong className="text-gray-300">{hintsRemaining}</strong> ·{' '}
+              {t('menu.hintsCost')}
+            </p>
+          </div>
+
+          {/* Daily Challenge */}
+          <button
+            onClick={() => {
+              onOpenDaily();
+              onClose();
+            }}
+            className="w-full py-3 px-4 bg-white/5 border border-white/10 hover:bg-white/10 rounded-2xl flex items-center justify-between transition-colors"
+          >
+            <span className="flex items-center gap-2 text-xs font-black uppercase italic tracking-wider text-gray-200">
+              <Calendar className="w-5 h-5 text-yellow-400" />
+              {t('menu.daily')}
+            </span>
+            <span className="flex items-center gap-1 text-xs font-bold text-orange-400">
+              <Flame className="w-4 h-4" />
+              {dailyStreak}
+            </span>
+          </button>
+
+          {/* Campaign */}
+          <button
+            onClick={() => {
+              onOpenCampaign();
+              onClose();
+            }}
+            className="w-full py-3 px-4 bg-white/5 border border-white/10 hover:bg-white/10 rounded-2xl space-y-2 transition-colors"
+          >
+            <span className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-xs font-black uppercase italic tracking-wider text-gray-200">
+                <MapIcon className="w-5 h-5 text-yellow-400" />
+                {t('menu.campaign')}
+              </span>
+              <span className="flex items-center gap-2 text-xs font-bold">
+                <span className="text-gray-400 font-mono">
+                  {campaignSummary.completed}/{campaignSummary.levels}
+                </span>
+                <span className="flex items-center gap-1 text-yellow-400">
+                  <Star className="w-4 h-4 fill-yellow-400" />
+                  {campaignSummary.stars}/{campaignSummary.maxStars}
+                </span>
+              </span>
+            </span>
+            <span className="block h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <span
+                className="block h-full bg-yellow-400 rounded-full"
+                style={{ width: `${(campaignSummary.stars / Math.max(1, campaignSummary.maxStars)) * 100}%` }}
+              />
+            </span>
+          </button>
+
+          {/* Statistics */}
+          <button
+            onClick={() => {
+              onOpenStats();
+              onClose();
+            }}
+            className="w-full py-3 px-4 bg-white/5 border border-white/10 hover:bg-white/10 rounded-2xl flex items-center justify-between transition-colors"
+          >
+            <span className="flex items-center gap-2 text-xs font-black uppercase italic tracking-wider text-gray-200">
+              <ChartLine className="w-5 h-5 text-yellow-400" />
+              {t('menu.stats')}
+            </span>
+            <span className="text-[11px] text-gray-400">{t('menu.statsNote')}</span>
+          </button>
+
+          {/* Local Versus */}
+          <button
+            onClick={() => {
+              onOpenVersus();
+              onClose();
+            }}
+            className="w-full py-3 px-4 bg-white/5 border border-white/10 hover:bg-white/10 rounded-2xl flex items-center justify-between transition-colors"
+          >
+            <span className="flex items-center gap-2 text-xs font-black uppercase italic tracking-wider text-gray-200">
+              <Swords className="w-5 h-5 text-yellow-400" />
+              {t('menu.versus')}
+            </span>
+            <span className="text-[11px] text-gray-400">{t('menu.versusNote')}</span>
+          </button>
+
+          {/* Online Race */}
+          <button
+            onClick={() => {
+              onOpenRace();
+              onClose();
+            }}
+            className="w-full py-3 px-4 bg-white/5 border border-white/10 hover:bg-white/10 rounded-2xl flex items-center justify-between transition-colors"
+          >
+            <span className="flex items-center gap-2 text-xs font-black uppercase italic tracking-wider text-gray-200">
+              <Globe className="w-5 h-5 text-yellow-400" />
+              {t('menu.race')}
+            </span>
+            <span className="text-[11px] text-gray-400">{t('menu.raceNote')}</span>
+          </button>
+
+          {/* Board Size (applies to the next game) */}
+          <div className="space-y-2">
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">
+              {t('menu.boardSize')}
+            </span>
+            <div className="grid grid-cols-2 gap-2">
+              {dimensionStepper(t('menu.width'), 'width')}
+              {dimensionStepper(t('menu.height'), 'height')}
+            </div>
+            <p className="text-[11px] text-gray-500 px-1">
+              {t('menu.boardSizeNote', { width: boardSize.width, height: boardSize.height })}
+            </p>
+          </div>
+
+          {/* Target Difficulty (applies to the next game) */}
+          <div className="space-y-2">
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">
+              {t('menu.difficulty')}
+            </span>
+            <div className="grid grid-cols-5 gap-1.5">
+              {([null, ...DIFFICULTIES] as (Difficulty | null)[]).map(difficulty => (
+                <button
+                  key={difficulty ?? 'any'}
+                  onClick={() => onChangeTargetDifficulty(difficulty)}
+                  className={`py-2 px-0.5 rounded-xl border text-[9px] font-bold uppercase transition-colors ${
+                    targetDifficulty === difficulty
+                      ? 'bg-yellow-400/20 border-yellow-400/50 text-yellow-400'
+                      : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  {difficulty ? t(`difficulty.${difficulty}`) : t('menu.difficultyAny')}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-500 px-1">
+              {t(targetDifficulty ? 'menu.difficultyRatedNote' : 'menu.difficultyAnyNote')}
+            </p>
+          </div>
+
+          {/* Game Mode (applies to the next game) */}
+          <div className="space-y-2">
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">
+              {t('menu.gameMode')}
+            </span>
+            <div className="grid grid-cols-4 gap-1.5">
+              {GAME_MODES.map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onChangeMode(mode)}
+                  className={`py-2 px-0.5 rounded-xl border text-[9px] font-bold uppercase transition-colors ${
+                    selectedMode === mode
+                      ? 'bg-purple-500/20 border-purple-400/50 text-purple-300'
+                      : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  {t(`gameMode.${mode}`)}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-500 px-1">
+              {t(`gameModeDescription.${selectedMode}`)} {t('menu.gameModeNote')}
+            </p>
+          </div>
+
+          {/* Ghost AI Race */}
+          <div className="space-y-2">
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">
+              {t('menu.ghostRace')}
+            </span>
+            <div className="grid grid-cols-4 gap-1.5">
+              {GHOST_PACES.map(pace => (
+                <button
+                  key={pace}
+                  onClick={() => setGhostPace(pace)}
+                  className={`py-2 px-0.5 rounded-xl border text-[9px] font-bold uppercase transition-colors ${
+                    ghostPace === pace
+                      ? 'bg-sky-500/20 border-sky-400/50 text-sky-300'
+                      : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  {t(`ghostPace.${pace}`)}
+                </button>
+              ))}
+              <button
+                onClick={() => {
+                  onStartGhostRace(ghostPace);
+                  onClose();
+                }}
+                className="py-2 px-0.5 rounded-xl border border-sky-400/40 bg-sky-500/10 hover:bg-sky-500/20 text-sky-300 text-[9px] font-black uppercase flex items-center justify-center gap-1 transition-colors"
+              >
+                <Ghost className="w-3.5 h-3.5" />
+                {t('menu.ghostRaceStart')}
+              </button>
+            </div>
+            <p className="text-[11px] text-gray-500 px-1">
+              {t('menu.ghostRaceNote')}
+            </p>
           </div>
 
           {/* Quick Game Actions */}
           <div className="space-y-2">
             <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">
-              Ações Rápidas
+              {t('menu.quickActions')}
             </span>
             <div className="grid grid-cols-2 gap-2">
               <button
@@ -127,8 +509,8 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
                 }}
                 className="py-3 px-3 bg-blue-500/20 border border-blue-400/30 text-blue-400 hover:bg-blue-500/30 rounded-2xl font-bold text-xs uppercase tracking-wider flex items-center justify-center gap-2 transition-colors"
               >
-                <RotateCcw className="w-4 h-4" />
-                Novo Jogo
+                <RotateCcw className={`w-4 h-4 ${isGenerating ? 'animate-spin' : ''}`} />
+                {t(isGenerating ? 'common.generating' : 'menu.newGame')}
               </button>
 
               <button
@@ -137,21 +519,89 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
               >
                 {soundEnabled ? (
                   <>
-                    <Volume2 className="w-4 h-4 text-emerald-400" /> Som Ativado
+                    <Volume2 className="w-4 h-4 text-emerald-400" /> {t('menu.soundOn')}
                   </>
                 ) : (
                   <>
-                    <VolumeX className="w-4 h-4 text-gray-500" /> Som Mudo
+                    <VolumeX className="w-4 h-4 text-gray-500" /> {t('menu.soundOff')}
                   </>
                 )}
               </button>
+
+              <button
+                onClick={onToggleUndoPenalty}
+                title={t('menu.undoPenaltyTitle')}
+                className={`col-span-2 py-3 px-3 border rounded-2xl font-bold text-xs uppercase tracking-wider flex items-center justify-center gap-2 transition-colors ${
+                  undoPenalty
+                    ? 'bg-orange-500/20 border-orange-400/40 text-orange-300 hover:bg-orange-500/30'
+                    : 'bg-white/5 border-white/10 text-gray-200 hover:bg-white/10'
+                }`}
+              >
+                <Undo2 className="w-4 h-4" />
+                {t(undoPenalty ? 'menu.undoPenaltyOn' : 'menu.undoPenaltyOff')}
+              </button>
+
+              <button
+                onClick={onToggleControlMode}
+                title={t(controlMode === 'camera' ? 'menu.controlsCameraTitle' : 'menu.controlsWorldTitle')}
+                className="col-span-2 py-3 px-3 bg-white/5 border border-white/10 text-gray-200 hover:bg-white/10 rounded-2xl font-bold text-xs uppercase tracking-wider flex items-center justify-center gap-2 transition-colors"
+              >
+                {controlMode === 'camera' ? (
+                  <Compass className="w-4 h-4 text-sky-400" />
+                ) : (
+                  <Grid3x3 className="w-4 h-4 text-gray-400" />
+                )}
+                {t(controlMode === 'camera' ? 'menu.controlsCamera' : 'menu.controlsWorld')}
+              </button>
+            </div>
+          </div>
+
+          {/* Seeded Boards */}
+          <div className="space-y-2">
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">
+              {t('menu.seed')}
+            </span>
+            <div className="bg-black/40 border border-white/10 rounded-2xl p-3 space-y-2.5">
+              <div className="flex items-center gap-2 text-[11px] text-gray-400">
+                <Dices className="w-4 h-4 text-yellow-400" />
+                {t('menu.seedCurrent')}
+                <code className="font-mono font-bold text-white select-all">{seed ?? '—'}</code>
+              </div>
+              <form
+                className="flex items-center gap-2"
+                onSubmit={e => {
+                  e.preventDefault();
+                  if (!seedInput.trim()) return;
+                  onStartSeed(seedInput);
+                  setSeedInput('');
+                  onClose();
+                }}
+              >
+                <input
+                  value={seedInput}
+                  onChange={e => setSeedInput(e.target.value)}
+                  placeholder={t('menu.seedPlaceholder')}
+                  className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-mono text-white placeholder:text-gray-500 focus:outline-none focus:border-yellow-400/60"
+                />
+                <button
+                  type="submit"
+                  disabled={!seedInput.trim()}
+                  className="py-2 px-3 bg-yellow-400/20 border border-yellow-400/50 text-yellow-400 hover:bg-yellow-400/30 rounded-xl font-bold text-xs uppercase tracking-wider flex items-center gap-1.5 transition-colors disabled:opacity-40"
+                >
+                  <Play className="w-3.5 h-3.5" />
+                  {t('menu.play')}
+                </button>
+              </form>
+              <p className="text-[10px] text-gray-500 leading-relaxed">
+                {t('menu.seedNote')}
+              </p>
             </div>
           </div>
 
           {/* Custom Maps Management */}
           <div className="space-y-2">
             <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">
-              Gerenciar Mapa
+              {t('menu.manageMap')}
             </span>
             <div className="grid grid-cols-2 gap-2">
               <button
@@ -159,7 +609,7 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
                 className="py-2.5 px-3 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 rounded-xl font-bold text-xs tracking-wide flex items-center justify-center gap-2 transition-colors"
               >
                 <Download className="w-4 h-4 text-gray-400" />
-                Salvar Mapa
+                {t('menu.saveMap')}
               </button>
               <button
                 onClick={() => {
@@ -169,9 +619,127 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
                 className="py-2.5 px-3 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 rounded-xl font-bold text-xs tracking-wide flex items-center justify-center gap-2 transition-colors"
               >
                 <Upload className="w-4 h-4 text-gray-400" />
-                Carregar Mapa
+                {t('menu.loadMap')}
+              </button>
+              <button
+                onClick={() => {
+                  onLoadReplayClick();
+                  onClose();
+                }}
+                className="col-span-2 py-2.5 px-3 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 rounded-xl font-bold text-xs tracking-wide flex items-center justify-center gap-2 transition-colors"
+              >
+                <Film className="w-4 h-4 text-gray-400" />
+                {t('menu.loadReplay')}
+              </button>
+              <button
+                onClick={() => {
+                  onOpenEditor();
+                  onClose();
+                }}
+                className="col-span-2 py-2.5 px-3 bg-yellow-400/10 border border-yellow-400/30 text-yellow-400 hover:bg-yellow-400/20 rounded-xl font-bold text-xs tracking-wide flex items-center justify-center gap-2 transition-colors"
+              >
+                <Pencil className="w-4 h-4" />
+                {t('menu.editor')}
               </button>
             </div>
+
+            {/* Share Code */}
+            <div className="bg-black/40 border border-white/10 rounded-2xl p-3 space-y-2.5">
+              <code className="block font-mono text-[11px] text-gray-300 break-all select-all leading-relaxed">
+                {shareCode}
+              </code>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => handleCopy('code')}
+                  className="py-2 px-3 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 rounded-xl font-bold text-xs tracking-wide flex items-center justify-center gap-2 transition-colors"
+                >
+                  {copied === 'code' ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4 text-gray-400" />}
+                  {t(copied === 'code' ? 'common.copied' : 'menu.copyCode')}
+                </button>
+                <button
+                  onClick={() => handleCopy('link')}
+                  className="py-2 px-3 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 rounded-xl font-bold text-xs tracking-wide flex items-center justify-center gap-2 transition-colors"
+                >
+                  {copied === 'link' ? <Check className="w-4 h-4 text-emerald-400" /> : <Link className="w-4 h-4 text-gray-400" />}
+                  {t(copied === 'link' ? 'common.copied' : 'menu.copyLink')}
+                </button>
+              </div>
+              <form
+                className="flex items-center gap-2"
+                onSubmit={e => {
+                  e.preventDefault();
+                  if (!codeInput.trim()) return;
+                  if (onLoadShareCode(codeInput)) {
+                    setCodeInput('');
+                    onClose();
+                  }
+                }}
+              >
+                <input
+                  value={codeInput}
+                  onChange={e => setCodeInput(e.target.value)}
+                  placeholder={t('menu.shareCodePlaceholder')}
+                  className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-mono text-white placeholder:text-gray-500 focus:outline-none focus:border-yellow-400/60"
+                />
+                <button
+                  type="submit"
+                  disabled={!codeInput.trim()}
+                  className="py-2 px-3 bg-white/5 border border-white/10 text-gray-300 hover:bg-white/10 rounded-xl font-bold text-xs uppercase tracking-wider flex items-center gap-1.5 transition-colors disabled:opacity-40"
+                >
+                  <ClipboardPaste className="w-3.5 h-3.5" />
+                  {t('menu.open')}
+                </button>
+              </form>
+            </div>
+
+            {mapErrors.length > 0 && (
+              <div className="bg-red-500/10 border border-red-500/30 rounded-2xl p-3 space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] font-bold uppercase tracking-wider text-red-400 flex items-center gap-1.5">
+                    <AlertCircle className="w-4 h-4" />
+                    {t('menu.loadFailed')}
+                  </span>
+                  <button
+                    onClick={onDismissMapErrors}
+                    className="p-1 text-red-300 hover:text-white rounded-full transition-colors"
+                    title={t('common.dismiss')}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <ul className="space-y-1 max-h-32 overflow-y-auto">
+                  {mapErrors.map((error, idx) => (
+                    <li key={idx} className="text-[11px] text-red-200 leading-snug">
+                      {error.field && <code className="font-mono text-red-300">{error.field}: </code>}
+                      {t(`mapError.${error.detail}`, error.params)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {/* Language */}
+          <div className="space-y-2">
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1 flex items-center gap-1.5">
+              <Languages className="w-4 h-4 text-yellow-400" />
+              {t('menu.language')}
+            </span>
+            <div className="grid grid-cols-2 gap-1.5">
+              {LOCALES.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setLocale(option)}
+                  className={`py-2 px-3 rounded-xl border text-xs font-bold transition-colors ${
+                    locale === option
+                      ? 'bg-yellow-400/20 border-yellow-400/50 text-yellow-400'
+                      : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  {LOCALE_NAMES[option]}
+                </button>
+              ))}
+            </div>
           </div>
 
           {/* Gesture / Mobile Hint */}
@@ -181,10 +749,10 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
             </div>
             <div>
               <h4 className="text-xs font-bold text-white uppercase tracking-wider">
-                Controle por Gestos
+                {t('menu.gestures')}
               </h4>
               <p className="text-[11px] text-gray-400 mt-0.5 leading-relaxed">
-                No celular, você pode <strong>deslizar o dedo na tela</strong> em qualquer direção para rolar o cubo!
+                {t('menu.gesturesNote')}
               </p>
             </div>
           </div>
@@ -196,7 +764,7 @@ export const MobileMenuModal: React.FC<MobileMenuModalProps> = ({
             onClick={onClose}
             className="w-full py-3 bg-white/10 hover:bg-white/20 text-white font-bold rounded-xl text-xs uppercase tracking-wider transition-colors"
           >
-            Continuar Jogando
+            {t('menu.continue')}
           </button>
         </div>
       </div>
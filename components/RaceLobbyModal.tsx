@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { X, Globe, Flag, LogOut, WifiOff, Trophy, Check } from 'lucide-react';
+import { MAX_PLAYER_NAME_LENGTH, normalizePlayerName } from '../engine/leaderboard';
+import { RACE_ROOM_CODE_LENGTH, RaceErrorCode, RaceRoomView, RaceSeat, normalizeRoomCode } from '../engine/race';
+import { RaceConnectionStatus } from '../services/raceClient';
+import { useI18n } from './I18nProvider';
+
+interface RaceLobbyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  status: RaceConnectionStatus;
+  // Null until the server gives this player a seat.
+  seat: RaceSeat | null;
+  room: RaceRoomView | null;
+  error: RaceErrorCode | null;
+  playerName: string;
+  onChangePlayerName: (name: string) => void;
+  onCreateRoom: () => void;
+  onJoinRoom: (code: string) => void;
+  onReady: (ready: boolean) => void;
+  onLeave: () => void;
+}
+
+export const RaceLobbyModal: React.FC<RaceLobbyModalProps> = ({
+  isOpen,
+  onClose,
+  status,
+  seat,
+  room,
+  error,
+  playerName,
+  onChangePlayerName,
+  onCreateRoom,
+  onJoinRoom,
+  onReady,
+  onLeave
+}) => {
+  const { t } = useI18n();
+  const [codeInput, setCodeInput] = useState('');
+
+  if (!isOpen) return null;
+
+  const hasName = normalizePlayerName(playerName) !== '';
+  const isBusy = status === 'connecting';
+  const self = room?.players.find(player => player.seat === seat) ?? null;
+  const winner = room?.players.find(player => player.seat === room.winner) ?? null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/70 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="absolute inset-0" onClick={onClose} />
+
+      <div className="relative z-10 w-full max-w-md bg-[#121318] border-t sm:border border-white/15 rounded-t-3xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom duration-300">
+        {/* Header Bar */}
+        <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div className="flex items-center gap-2">
+            <Globe className="w-5 h-5 text-yellow-400" />
+            <h2 className="text-lg font-black tracking-tight text-white uppercase italic">{t('menu.race')}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+            title={t('common.close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-4">
+          {(status === 'reconnecting' || status === 'closed') && (
+            <div className="flex items-center gap-2 bg-red-500/10 border border-red-400/30 rounded-2xl px-3.5 py-2.5 text-xs text-red-300">
+              <WifiOff className="w-4 h-4 shrink-0" />
+              {t(status === 'reconnecting' ? 'race.reconnecting' : 'race.unreachable')}
+            </div>
+          )}
+          {error && <p className="text-xs text-red-400 px-1">{t(`race.error.${error}`)}</p>}
+
+          {!room ? (
+            <>
+              <p className="text-xs text-gray-400 px-1">
+                {t('race.intro')}
+              </p>
+              <input
+                value={playerName}
+                onChange={e => onChangePlayerName(e.target.value)}
+                maxLength={MAX_PLAYER_NAME_LENGTH}
+                placeholder={t('leaderboard.namePlaceholder')}
+                className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-yellow-400/50"
+              />
+              <button
+                onClick={onCreateRoom}
+                disabled={!hasName || isBusy}
+                className="w-full bg-yellow-400 hover:bg-yellow-300 text-black font-black py-3 rounded-2xl transition-all active:scale-95 uppercase italic tracking-tight flex items-center justify-center gap-2 shadow-lg disabled:opacity-40"
+              >
+                <Flag className="w-5 h-5" />
+                {t(isBusy ? 'race.connecting' : 'race.createRoom')}
+              </button>
+              <form
+                className="flex items-center gap-2"
+                onSubmit={e => {
+                  e.preventDefault();
+                  if (hasName && codeInput.trim()) onJoinRoom(normalizeRoomCode(codeInput));
+                }}
+              >
+                <input
+                  value={codeInput}
+                  onChange={e => setCodeInput(e.target.value.toUpperCase())}
+                  maxLength={RACE_ROOM_CODE_LENGTH}
+                  placeholder={t('race.codePlaceholder')}
+                  className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2.5 text-sm font-mono tracking-widest text-white placeholder:text-gray-600 placeholder:tracking-normal placeholder:font-sans focus:outline-none focus:border-yellow-400/50"
+                />
+                <button
+                  type="submit"
+                  disabled={!hasName || isBusy || !codeInput.trim()}
+                  className="py-2.5 px-4 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-40"
+                >
+                  {t('race.join')}
+                </button>
+              </form>
+            </>
+          ) : (
+            <>
+              <div className="text-center bg-black/40 border border-white/10 rounded-2xl py-3">
+                <span className="text-[10px] uppercase font-bold tracking-wider text-gray-400 block">{t('race.roomCode')}</span>
+                <span className="text-3xl font-mono font-black tracking-[0.3em] text-yellow-400">{room.code}</span>
+                <span className="text-[11px] text-gray-500 block">
+                  {t('race.board', { width: room.size.width, height: room.size.height })}
+                </span>
+              </div>
+
+              {room.phase === 'finished' && (
+                <div className="flex items-center gap-3 bg-yellow-400/10 border border-yellow-400/30 rounded-2xl px-4 py-3">
+                  <Trophy className="w-6 h-6 text-yellow-400 shrink-0" />
+                  <div>
+                    <p className="text-sm font-black uppercase italic text-white">
+                      {winner === null
+                        ? t('race.noWinner')
+                        : winner.seat === seat
+                          ? t('race.youWon')
+                          : t('race.winner', { name: winner.name })}
+                    </p>
+                    {winner && room.endReason && (
+                      <p className="text-[11px] text-gray-400">{t(`race.endReason.${room.endReason}`)}</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <ul className="space-y-1.5">
+                {room.players.map(player => (
+                  <li
+                    key={player.seat}
+                    className="flex items-center justify-between bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs"
+                  >
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span
+                        className={`w-2 h-2 rounded-full ${player.connected ? 'bg-emerald-400' : 'bg-gray-600 animate-pulse'}`}
+                      />
+                      <span className="font-bold text-white truncate">{player.name}</span>
+                      {player.seat === seat && <span className="text-gray-500">{t('common.you')}</span>}
+                    </span>
+                    <span className="font-mono text-gray-400 shrink-0">
+                      {room.phase === 'lobby' || player.ready ? (
+                        player.ready ? (
+                          <span className="flex items-center gap-1 text-emerald-400">
+                            <Check className="w-3.5 h-3.5" /> {t('race.ready')}
+                          </span>
+                        ) : (
+                          t('race.waiting')
+                        )
+                      ) : (
+                        `${t('race.remaining', { count: player.remaining })} • ${t('common.movesShort', { count: player.moves })}`
+                      )}
+                    </span>
+                  </li>
+                ))}
+                {room.players.length < 2 && (
+                  <li className="text-xs text-gray-500 px-3 py-2 border border-dashed border-white/10 rounded-xl animate-pulse">
+                    {t('race.waitingOpponent')}
+                  </li>
+                )}
+              </ul>
+
+              {room.phase !== 'racing' && self && (
+                <button
+                  onClick={() => onReady(!self.ready)}
+                  disabled={status !== 'open'}
+                  className={`w-full font-black py-3 rounded-2xl transition-all active:scale-95 uppercase italic tracking-tight flex items-center justify-center gap-2 shadow-lg disabled:opacity-40 ${
+                    self.ready
+                      ? 'bg-white/5 border border-white/10 text-gray-200 hover:bg-white/10'
+                      : 'bg-yellow-400 hover:bg-yellow-300 text-black'
+                  }`}
+                >
+                  <Flag className="w-5 h-5" />
+                  {t(self.ready ? 'race.cancel' : room.phase === 'finished' ? 'versus.rematch' : 'race.imReady')}
+                </button>
+              )}
+
+              <button
+                onClick={onLeave}
+                className="w-full py-2.5 px-4 bg-white/5 border border-white/10 hover:bg-white/10 text-gray-300 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors flex items-center justify-center gap-2"
+              >
+                <LogOut className="w-4 h-4" />
+                {t('race.leave')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RaceLobbyModal;
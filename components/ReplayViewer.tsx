@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Film, Play, Pause, SkipBack, SkipForward, Gauge, Download, Bot, Hand, Undo2 } from 'lucide-react';
+import { ROTATION_DURATION } from '../constants';
+import { Replay, buildReplayFrames } from '../engine/replay';
+import BoardScene from './BoardScene';
+import { useI18n } from './I18nProvider';
+
+interface ReplayViewerProps {
+  replay: Replay | null;
+  title: string;
+  onClose: () => void;
+  onExport: (replay: Replay) => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+// Long pauses in the recording are shortened to this at 1x.
+const MAX_IDLE_MS = 1500;
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, title, onClose, onExport }) => {
+  const { t } = useI18n();
+  const frames = useMemo(() => (replay ? buildReplayFrames(replay) : []), [replay]);
+  const [index, setIndex] = useState(0);
+  // Frame currently being rolled into; forward rolls land on it when the animation ends.
+  const [pending, setPending] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    setIndex(0);
+    setPending(null);
+    setIsPlaying(true);
+  }, [replay]);
+
+  const lastIndex = frames.length - 1;
+
+  const advance = () => {
+    if (pending !== null || index >= lastIndex) return;
+    const next = index + 1;
+    const roll = frames[next].roll;
+    if (!roll) {
+      setIndex(next);
+      return;
+    }
+    setPending(next);
+    // Reversed rolls start from the restored state and tip back onto it.
+    if (roll.reversed) setIndex(next);
+  };
+
+  const completeRoll = () => {
+    if (pending === null) return;
+    setIndex(pending);
+    setPending(null);
+  };
+
+  const jumpTo = (target: number) => {
+    setPending(null);
+    setIndex(Math.max(0, Math.min(lastIndex, target)));
+  };
+
+  useEffect(() => {
+    if (!replay || !isPlaying || pending !== null) return;
+    if (index >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const gap = replay.steps[index].at - (index > 0 ? replay.steps[index - 1].at : 0);
+    const idle = Math.min(Math.max(0, gap - ROTATION_DURATION * 1000), MAX_IDLE_MS) / speed;
+    const timer = setTimeout(advance, idle);
+    return () => clearTimeout(timer);
+  }, [replay, isPlaying, pending, index, speed, lastIndex]);
+
+  if (!replay) return null;
+
+  const frame = frames[index];
+  const roll = pending !== null ? frames[pending].roll : null;
+  const lastStep = index > 0 ? replay.steps[index - 1] : null;
+
+  const togglePlay = () => {
+    if (!isPlaying && index >= lastIndex) jumpTo(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0a0a0c] animate-in fade-in duration-200">
+      <BoardScene
+        grid={frame.state.grid}
+        cubes={[
+          {
+            position: frame.state.cubePosition,
+            faces: frame.state.cubeFaces,
+            isRolling: roll !== null,
+            rollDirection: roll?.direction ?? null,
+            reversed: roll?.reversed,
+            onRollComplete: completeRoll
+          }
+        ]}
+        rollDuration={ROTATION_DURATION / speed}
+      />
+
+      {/* Header Bar */}
+      <div className="absolute top-0 left-0 right-0 p-3 sm:p-4 flex items-center justify-between gap-2 pointer-events-none">
+        <div className="bg-black/60 backdrop-blur-md px-3 py-2 rounded-2xl border border-white/10 shadow-2xl pointer-events-auto">
+          <div className="flex items-center gap-1.5">
+            <Film className="w-4 h-4 text-yellow-400" />
+            <h2 className="text-sm font-black tracking-tight uppercase italic text-yellow-400 leading-none">
+              {title}
+            </h2>
+          </div>
+          <div className="flex items-center gap-2 mt-1 text-[11px] font-mono text-gray-300">
+            <span>
+              {t('hud.moves')}: <strong className="text-white font-bold">{frame.state.moves}</strong>
+            </span>
+            {frame.state.status !== 'playing' && (
+              <>
+                <span className="text-white/20">•</span>
+                <span className={frame.state.status === 'won' ? 'text-emerald-400' : 'text-red-400'}>
+                  {t(frame.state.status === 'won' ? 'replay.won' : 'replay.fell')}
+                </span>
+              </>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2.5 text-gray-400 hover:text-white bg-black/60 hover:bg-white/10 border border-white/10 rounded-full transition-colors pointer-events-auto"
+          title={t('common.close')}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Playback Controls */}
+      <div className="absolute bottom-0 left-0 right-0 p-3 sm:p-4 flex justify-center">
+        <div className="w-full max-w-lg bg-black/70 backdrop-blur-xl border border-white/10 rounded-3xl shadow-2xl p-4 space-y-3">
+          <div className="flex items-center justify-between text-[11px] font-mono text-gray-400">
+            <span>
+              {t('replay.step')} <strong className="text-white">{index}</strong> / {lastIndex}
+            </span>
+            {lastStep && (
+              <span className="flex items-center gap-1.5">
+                {lastStep.source === 'ai' ? (
+                  <Bot className="w-3.5 h-3.5 text-blue-400" />
+                ) : (
+                  <Hand className="w-3.5 h-3.5 text-yellow-400" />
+                )}
+                {t(lastStep.source === 'ai' ? 'replay.sourceAi' : 'replay.sourcePlayer')}:
+                {lastStep.input === 'undo' && <Undo2 className="w-3.5 h-3.5" />}
+                <strong className="text-white">{t(`replay.input.${lastStep.input}`)}</strong>
+              </span>
+            )}
+          </div>
+
+          <input
+            type="range"
+            min={0}
+            max={lastIndex}
+            value={index}
+            onChange={e => {
+              setIsPlaying(false);
+              jumpTo(Number(e.target.value));
+            }}
+            className="w-full accent-yellow-400"
+          />
+
+          <div className="flex items-center justify-center gap-2">
+            <button
+              onClick={() => {
+                setIsPlaying(false);
+                jumpTo(index - 1);
+              }}
+              disabled={index === 0}
+              className="p-2.5 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl transition-all disabled:opacity-30"
+              title={t('replay.previous')}
+            >
+              <SkipBack className="w-4 h-4" />
+            </button>
+            <button
+              onClick={togglePlay}
+              className="p-3 bg-yellow-400 hover:bg-yellow-300 text-black rounded-2xl transition-all active:scale-95 shadow-lg"
+              title={t(isPlaying ? 'replay.pause' : 'replay.play')}
+            >
+              {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+            </button>
+            <button
+              onClick={() => {
+                setIsPlaying(false);
+                advance();
+              }}
+              disabled={index >= lastIndex || pending !== null}
+              className="p-2.5 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl transition-all disabled:opacity-30"
+              title={t('replay.next')}
+            >
+              <SkipForward className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setSpeed(SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length])}
+              className="px-3 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl transition-all flex items-center gap-1.5 text-xs font-mono font-bold"
+              title={t('replay.speed')}
+            >
+              <Gauge className="w-4 h-4" />
+              {speed}x
+            </button>
+            <button
+              onClick={() => onExport(replay)}
+              className="px-3 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl transition-all flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider"
+              title={t('replay.exportTitle')}
+            >
+              <Download className="w-4 h-4" />
+              {t('replay.export')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,201 @@
+import React from 'react';
+import { X, ChartLine, FileSpreadsheet, Braces } from 'lucide-react';
+import { GameRecord, getBestGamesBySize, getEfficiencyTrend, summarizeGames } from '../engine/gameStats';
+import { useI18n } from './I18nProvider';
+
+interface StatsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Null while the history is loading.
+  records: GameRecord[] | null;
+  onExportCsv: () => void;
+  onExportJson: () => void;
+}
+
+// Wins plotted in the efficiency chart.
+const TREND_LENGTH = 30;
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 90;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${minutes}m ${String(Math.floor((ms % 60000) / 1000)).padStart(2, '0')}s`;
+};
+
+const EfficiencyChart: React.FC<{ points: { efficiency: number }[] }> = ({ points }) => {
+  const step = points.length > 1 ? CHART_WIDTH / (points.length - 1) : 0;
+  const coords = points.map((point, i) => [
+    points.length > 1 ? i * step : CHART_WIDTH / 2,
+    CHART_HEIGHT - (point.efficiency / 100) * CHART_HEIGHT
+  ]);
+  return (
+    <svg viewBox={`-4 -4 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 8}`} className="w-full h-28">
+      {[0, 50, 100].map(level => (
+        <line
+          key={level}
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={CHART_HEIGHT - (level / 100) * CHART_HEIGHT}
+          y2={CHART_HEIGHT - (level / 100) * CHART_HEIGHT}
+          stroke="rgba(255,255,255,0.08)"
+          strokeDasharray="4 4"
+        />
+      ))}
+      <polyline
+        points={coords.map(([x, y]) => `${x},${y}`).join(' ')}
+        fill="none"
+        stroke="#facc15"
+        strokeWidth={2}
+        strokeLinejoin="round"
+      />
+      {coords.map(([x, y], i) => (
+        <circle key={i} cx={x} cy={y} r={2.5} fill="#facc15" />
+      ))}
+    </svg>
+  );
+};
+
+export const StatsModal: React.FC<StatsModalProps> = ({ isOpen, onClose, records, onExportCsv, onExportJson }) => {
+  const { t, formatNumber, formatDate } = useI18n();
+
+  if (!isOpen) return null;
+
+  const formatPercent = (value: number) => formatNumber(value / 100, { style: 'percent' });
+
+  const summary = summarizeGames(records ?? []);
+  const trend = getEfficiencyTrend(records ?? [], TREND_LENGTH);
+  const bestBySize = getBestGamesBySize(records ?? []);
+  const isEmpty = records !== null && records.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4 bg-black/70 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="absolute inset-0" onClick={onClose} />
+
+      <div className="relative z-10 w-full max-w-md bg-[#121318] border-t sm:border border-white/15 rounded-t-3xl sm:rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom duration-300">
+        {/* Header Bar */}
+        <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between bg-white/5">
+          <div className="flex items-center gap-2">
+            <ChartLine className="w-5 h-5 text-yellow-400" />
+            <h2 className="text-lg font-black tracking-tight text-white uppercase italic">
+              {t('menu.stats')}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+            title={t('common.close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-4">
+          {records === null ? (
+            <p className="text-xs text-gray-400 text-center py-6 animate-pulse">{t('stats.loading')}</p>
+          ) : isEmpty ? (
+            <p className="text-xs text-gray-400 text-center py-6">
+              {t('stats.empty')}
+            </p>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-white/5 p-3 rounded-2xl border border-white/10">
+                  <span className="text-[10px] font-bold uppercase text-gray-400 tracking-wider block mb-0.5">
+                    {t('stats.games')}
+                  </span>
+                  <span className="text-xl font-mono font-bold text-white">{summary.games}</span>
+                  <span className="block text-[10px] text-gray-500 mt-0.5">
+                    {t('stats.losses', { count: summary.losses })} · {t('stats.abandoned', { count: summary.abandoned })}
+                  </span>
+                </div>
+                <div className="bg-white/5 p-3 rounded-2xl border border-white/10">
+                  <span className="text-[10px] font-bold uppercase text-emerald-400 tracking-wider block mb-0.5">
+                    {t('stats.wins')}
+                  </span>
+                  <span className="text-xl font-mono font-bold text-emerald-400">{summary.wins}</span>
+                  <span className="block text-[10px] text-gray-500 mt-0.5">{t('stats.winRate', { rate: formatPercent(summary.winRate) })}</span>
+                </div>
+                <div className="bg-white/5 p-3 rounded-2xl border border-white/10">
+                  <span className="text-[10px] font-bold uppercase text-yellow-400 tracking-wider block mb-0.5">
+                    {t('stats.averageEfficiency')}
+                  </span>
+                  <span className="text-xl font-mono font-bold text-yellow-400">
+                    {summary.averageEfficiency === null ? '—' : formatPercent(summary.averageEfficiency)}
+                  </span>
+                </div>
+                <div className="bg-white/5 p-3 rounded-2xl border border-white/10">
+                  <span className="text-[10px] font-bold uppercase text-blue-400 tracking-wider block mb-0.5">
+                    {t('stats.playTime')}
+                  </span>
+                  <span className="text-xl font-mono font-bold text-blue-400">
+                    {formatDuration(summary.totalDurationMs)}
+                  </span>
+                  <span className="block text-[10px] text-gray-500 mt-0.5">{t('common.moves', { count: summary.totalMoves })}</span>
+                </div>
+              </div>
+
+              {/* Efficiency Over Time */}
+              <div className="bg-black/40 border border-white/10 rounded-2xl p-3.5 space-y-2">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">
+                  {t('stats.trend', { count: trend.length })}
+                </span>
+                {trend.length > 0 ? (
+                  <EfficiencyChart points={trend} />
+                ) : (
+                  <p className="text-[11px] text-gray-500">{t('stats.trendEmpty')}</p>
+                )}
+              </div>
+
+              {/* Best Game per Board Size */}
+              {bestBySize.length > 0 && (
+                <div className="space-y-2">
+                  <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">
+                    {t('stats.bestBySize')}
+                  </span>
+                  <div className="bg-black/40 border border-white/10 rounded-2xl divide-y divide-white/5">
+                    {bestBySize.map(record => (
+                      <div key={`${record.width}x${record.height}`} className="flex items-center justify-between px-3.5 py-2 text-xs">
+                        <span className="font-mono font-bold text-white">
+                          {record.width}×{record.height}
+                        </span>
+                        <span className="text-gray-400">
+                          <strong className="text-yellow-400 font-mono">{formatPercent(record.efficiency)}</strong> ·{' '}
+                          {t('common.movesShort', { count: record.moves })} · {t(`gameMode.${record.mode}`)} ·{' '}
+                          {formatDate(new Date(record.playedAt), { dateStyle: 'short' })}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Export */}
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onExportCsv}
+              disabled={!records || isEmpty}
+              className="py-2.5 px-3 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors flex items-center justify-center gap-1.5 disabled:opacity-40"
+            >
+              <FileSpreadsheet className="w-4 h-4 text-emerald-400" />
+              {t('stats.exportCsv')}
+            </button>
+            <button
+              onClick={onExportJson}
+              disabled={!records || isEmpty}
+              className="py-2.5 px-3 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-200 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors flex items-center justify-center gap-1.5 disabled:opacity-40"
+            >
+              <Braces className="w-4 h-4 text-yellow-400" />
+              {t('stats.exportJson')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsModal;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Direction, Tile } from '../types';
+import { getTileColor } from '../engine/tiles';
+
+interface TileMeshProps {
+  tile: Tile;
+  position: [number, number, number];
+  // Translucent wash over the tile, e.g. to show who cleared it.
+  tint?: string | null;
+}
+
+// Rotations that turn a cone (pointing +Y) flat onto the board, toward each direction.
+const ARROW_ROTATION: Record<Direction, [number, number, number]> = {
+  up: [Math.PI / 2, 0, 0],
+  down: [-Math.PI / 2, 0, 0],
+  left: [0, 0, Math.PI / 2],
+  right: [0, 0, -Math.PI / 2]
+};
+
+const PAINT_BASE_COLOR = '#27272a';
+
+const TileMesh: React.FC<TileMeshProps> = ({ tile, position, tint }) => {
+  const color = getTileColor(tile);
+
+  if (tile.kind === 'hole') {
+    // A dark pit below the board surface.
+    return (
+      <mesh position={[position[0], position[1] - 0.25, position[2]]}>
+        <boxGeometry args={[0.95, 0.05, 0.95]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+    );
+  }
+
+  if (tile.kind === 'wall') {
+    return (
+      <mesh position={[position[0], position[1] + 0.3, position[2]]} castShadow receiveShadow>
+        <boxGeometry args={[0.95, 0.7, 0.95]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+    );
+  }
+
+  return (
+    <group position={position}>
+      <mesh receiveShadow>
+        <boxGeometry args={[0.95, 0.1, 0.95]} />
+        <meshStandardMaterial
+          color={tile.kind === 'paint' ? PAINT_BASE_COLOR : color}
+          emissive={tile.kind === 'wildcard' ? color : '#000000'}
+          emissiveIntensity={0.35}
+        />
+      </mesh>
+      {tile.kind === 'paint' && (
+        // A pool of paint on a dark slab, so it reads apart from a color tile.
+        <mesh position={[0, 0.06, 0]}>
+          <cylinderGeometry args={[0.32, 0.32, 0.03, 24]} />
+          <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.25} />
+        </mesh>
+      )}
+      {tile.kind === 'arrow' && (
+        <mesh position={[0, 0.07, 0]} rotation={ARROW_ROTATION[tile.direction]}>
+          <coneGeometry args={[0.28, 0.5, 3]} />
+          <meshStandardMaterial color="#facc15" />
+        </mesh>
+      )}
+      {tint && (
+        <mesh position={[0, 0.052, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <planeGeometry args={[0.95, 0.95]} />
+          <meshBasicMaterial color={tint} transparent opacity={0.45} depthWrite={false} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+export default TileMesh;
@@ -0,0 +1,360 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Swords, Trophy, Handshake, RotateCcw, Keyboard } from 'lucide-react';
+import { Direction } from '../types';
+import { ControlMode, DEFAULT_VIEW_FORWARD, toBoardDirection } from '../engine/controls';
+import { countTargets, stepPosition } from '../engine/gameEngine';
+import { MessageKey } from '../engine/i18n';
+import { MapDocument } from '../engine/mapFormat';
+import {
+  DEFAULT_VERSUS_SETTINGS,
+  PLAYERS,
+  PlayerIndex,
+  VersusEvent,
+  VersusFallRule,
+  VersusSettings,
+  VersusState,
+  VersusTurnMode,
+  applyVersusMove,
+  canPlayerRoll,
+  createVersusState,
+  otherPlayer,
+  resolveVersusStep
+} from '../engine/versus';
+import BoardScene from './BoardScene';
+import DPadControls from './DPadControls';
+import { useI18n } from './I18nProvider';
+
+interface VersusGameProps {
+  // The board to play on; null keeps the mode closed.
+  map: MapDocument | null;
+  onSound: (freq: number, type?: OscillatorType, duration?: number) => void;
+  controlMode: ControlMode;
+  onClose: () => void;
+}
+
+const PLAYER_COLORS = ['#facc15', '#38bdf8'];
+
+// Screen directions, turned into board ones like in the main game.
+const KEY_BINDINGS: Record<string, [PlayerIndex, Direction]> = {
+  w: [0, 'up'],
+  s: [0, 'down'],
+  a: [0, 'left'],
+  d: [0, 'right'],
+  ArrowUp: [1, 'up'],
+  ArrowDown: [1, 'down'],
+  ArrowLeft: [1, 'left'],
+  ArrowRight: [1, 'right']
+};
+
+type Rolls = [Direction | null, Direction | null];
+
+export const VersusGame: React.FC<VersusGameProps> = ({ map, onSound, controlMode, onClose }) => {
+  const { t } = useI18n();
+  const [settings, setSettings] = useState<VersusSettings>(DEFAULT_VERSUS_SETTINGS);
+  // Null while the players pick the rules.
+  const [versus, setVersus] = useState<VersusState | null>(null);
+  const [rolls, setRolls] = useState<Rolls>([null, null]);
+  const [setupError, setSetupError] = useState<MessageKey | null>(null);
+  // Both cubes can land in the same frame, so moves apply to the latest state.
+  const versusRef = useRef<VersusState | null>(null);
+  const rollsRef = useRef<Rolls>([null, null]);
+  const [cameraForward, setCameraForward] = useState<Direction>(DEFAULT_VIEW_FORWARD);
+  const viewForward = controlMode === 'camera' ? cameraForward : DEFAULT_VIEW_FORWARD;
+
+  const commit = (next: VersusState | null, nextRolls: Rolls = rollsRef.current) => {
+    versusRef.current = next;
+    rollsRef.current = nextRolls;
+    setVersus(next);
+    setRolls(nextRolls);
+  };
+
+  useEffect(() => {
+    commit(null, [null, null]);
+    setSetupError(null);
+  }, [map]);
+
+  const start = () => {
+    if (!map) return;
+    const state = createVersusState(map, settings);
+    if (!state) {
+      setSetupError('versus.noRoom');
+      return;
+    }
+    setSetupError(null);
+    commit(state, [null, null]);
+  };
+
+  const playEvents = (events: VersusEvent[]) => {
+    for (const event of events) {
+      switch (event.type) {
+        case 'blocked':
+        case 'skipped':
+          onSound(90, 'triangle', 0.08);
+          break;
+        case 'fell':
+          onSound(100, 'sawtooth', 0.5);
+          break;
+        case 'matched':
+          onSound(600, 'sine', 0.1);
+          break;
+        case 'painted':
+          onSound(400, 'triangle', 0.15);
+          break;
+      }
+    }
+  };
+
+  const roll = (player: PlayerIndex, dir: Direction) => {
+    const state = versusRef.current;
+    if (!state || !canPlayerRoll(state, player) || rollsRef.current[player]) return;
+    // A lost roll has nothing to animate.
+    if (state.players[player].skipsNext) {
+      const result = applyVersusMove(state, player, dir);
+      playEvents(result.events);
+      commit(result.state);
+      return;
+    }
+    const other = otherPlayer(player);
+    const otherRoll = rollsRef.current[other];
+    const reserved = otherRoll ? stepPosition(state.players[other].cubePosition, otherRoll) : null;
+    if (resolveVersusStep(state, player, dir, reserved) === 'blocked') {
+      onSound(90, 'triangle', 0.08);
+      return;
+    }
+    const nextRolls: Rolls = [...rollsRef.current];
+    nextRolls[player] = dir;
+    commit(state, nextRolls);
+    onSound(200, 'square', 0.1);
+  };
+
+  const completeRoll = (player: PlayerIndex) => {
+    const state = versusRef.current;
+    const dir = rollsRef.current[player];
+    if (!state || !dir) return;
+    const result = applyVersusMove(state, player, dir);
+    playEvents(result.events);
+    if (result.state.status === 'finished' && state.status === 'playing') onSound(800, 'sine', 0.5);
+    const nextRolls: Rolls = [...rollsRef.current];
+    nextRolls[player] = null;
+    commit(result.state, nextRolls);
+  };
+
+  useEffect(() => {
+    if (!map) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const binding = KEY_BINDINGS[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      const state = versusRef.current;
+      if (!binding || !state || state.status !== 'playing') return;
+      e.preventDefault();
+      const [player, screen] = binding;
+      // Taking turns, either side of the keyboard moves whoever is up.
+      roll(state.settings.turnMode === 'turns' ? state.turn : player, toBoardDirection(screen, viewForward));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [map, onSound, viewForward]);
+
+  if (!map) return null;
+
+  const remaining = versus ? countTargets(versus.grid) : countTargets(map.tiles);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0a0a0c] animate-in fade-in duration-200">
+      <BoardScene
+        grid={versus ? versus.grid : map.tiles}
+        cubes={
+          versus
+            ? PLAYERS.map(player => ({
+                position: versus.players[player].cubePosition,
+                faces: versus.players[player].cubeFaces,
+                isRolling: rolls[player] !== null,
+                rollDirection: rolls[player],
+                onRollComplete: () => completeRoll(player),
+                marker: PLAYER_COLORS[player]
+              }))
+            : []
+        }
+        onViewForwardChange={setCameraForward}
+      />
+
+      {/* Header Bar */}
+      <div className="absolute top-0 left-0 right-0 p-3 sm:p-4 flex items-start justify-between gap-2 pointer-events-none">
+        <div className="bg-black/60 backdrop-blur-md px-3 py-2 rounded-2xl border border-white/10 shadow-2xl pointer-events-auto">
+          <div className="flex items-center gap-1.5">
+            <Swords className="w-4 h-4 text-yellow-400" />
+            <h2 className="text-sm font-black tracking-tight uppercase italic text-yellow-400 leading-none">
+              {t('menu.versus')}
+            </h2>
+          </div>
+          <p className="mt-1 text-[11px] font-mono text-gray-300">
+            {t('versus.remaining', { count: remaining })}
+          </p>
+        </div>
+
+        {versus && (
+          <div className="flex items-stretch gap-2 pointer-events-auto">
+            {PLAYERS.map(player => {
+              const state = versus.players[player];
+              const isUp = versus.status === 'playing' && versus.settings.turnMode === 'turns' && versus.turn === player;
+              return (
+                <div
+                  key={player}
+                  className={`bg-black/60 backdrop-blur-md px-3 py-2 rounded-2xl border shadow-2xl min-w-[88px] ${
+                    isUp ? 'border-white/50' : 'border-white/10'
+                  }`}
+                >
+                  <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-gray-300">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: PLAYER_COLORS[player] }} />
+                    {t('versus.player', { number: player + 1 })}
+                  </span>
+                  <span className="block text-xl font-mono font-bold" style={{ color: PLAYER_COLORS[player] }}>
+                    {state.score}
+                  </span>
+                  <span className="block text-[10px] font-mono text-gray-500">
+                    {state.skipsNext
+                      ? t('versus.skipsTurn')
+                      : isUp
+                        ? t('versus.yourTurn')
+                        : t('common.movesShort', { count: state.moves })}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 pointer-events-auto">
+          {versus && (
+            <button
+              onClick={() => commit(null, [null, null])}
+              className="p-2.5 text-gray-400 hover:text-white bg-black/60 hover:bg-white/10 border border-white/10 rounded-full transition-colors"
+              title={t('versus.newMatch')}
+            >
+              <RotateCcw className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-2.5 text-gray-400 hover:text-white bg-black/60 hover:bg-white/10 border border-white/10 rounded-full transition-colors"
+            title={t('versus.exit')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Setup */}
+      {!versus && (
+        <div className="absolute inset-0 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+          <div className="bg-[#121318] p-6 rounded-3xl border border-white/15 shadow-2xl max-w-sm w-full space-y-4">
+            <h3 className="text-lg font-black tracking-tight text-white uppercase italic text-center">
+              {t('versus.setupTitle')}
+            </h3>
+            <div className="space-y-2">
+              <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">{t('versus.turnMode')}</span>
+              <div className="grid grid-cols-2 gap-2">
+                {(['turns', 'simultaneous'] as VersusTurnMode[]).map(turnMode => (
+                  <button
+                    key={turnMode}
+                    onClick={() => setSettings({ ...settings, turnMode })}
+                    className={`py-2.5 rounded-xl border text-[11px] font-bold uppercase transition-colors ${
+                      settings.turnMode === turnMode
+                        ? 'bg-yellow-400/20 border-yellow-400/50 text-yellow-400'
+                        : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                    }`}
+                  >
+                    {t(`versus.turnMode.${turnMode}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <span className="text-xs font-bold uppercase tracking-wider text-gray-400 px-1">{t('versus.fallRule')}</span>
+              <div className="grid grid-cols-2 gap-2">
+                {(['skip', 'lose'] as VersusFallRule[]).map(fallRule => (
+                  <button
+                    key={fallRule}
+                    onClick={() => setSettings({ ...settings, fallRule })}
+                    className={`py-2.5 rounded-xl border text-[11px] font-bold uppercase transition-colors ${
+                      settings.fallRule === fallRule
+                        ? 'bg-yellow-400/20 border-yellow-400/50 text-yellow-400'
+                        : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                    }`}
+                  >
+                    {t(`versus.fallRule.${fallRule}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-[11px] text-gray-400 flex gap-2">
+              <Keyboard className="w-4 h-4 shrink-0 text-gray-500" />
+              {t(settings.turnMode === 'turns' ? 'versus.turnsNote' : 'versus.simultaneousNote')}{' '}
+              {t('versus.scoringNote')}
+            </p>
+            {setupError && <p className="text-xs text-red-400">{t(setupError)}</p>}
+            <button
+              onClick={start}
+              className="w-full bg-yellow-400 hover:bg-yellow-300 text-black font-black py-3.5 rounded-2xl transition-all active:scale-95 text-lg uppercase italic tracking-tight flex items-center justify-center gap-2 shadow-lg"
+            >
+              <Swords className="w-5 h-5" />
+              {t('versus.start')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Touch Controls (turns only: one cube moves at a time) */}
+      {versus && versus.status === 'playing' && versus.settings.turnMode === 'turns' && (
+        <DPadControls
+          cubeFaces={versus.players[versus.turn].cubeFaces}
+          onRoll={dir => roll(versus.turn, dir)}
+          viewForward={viewForward}
+          disabled={rolls[versus.turn] !== null}
+          canUndo={false}
+          canRedo={false}
+          onUndo={() => {}}
+          onRedo={() => {}}
+        />
+      )}
+
+      {/* Result */}
+      {versus && versus.status === 'finished' && (
+        <div className="absolute inset-0 bg-black/80 backdrop-blur-xl flex items-center justify-center p-4 z-10 animate-in fade-in zoom-in duration-300">
+          <div className="bg-[#121318] p-6 sm:p-8 rounded-3xl border border-white/20 shadow-2xl max-w-sm w-full text-center">
+            <div className="w-16 h-16 bg-yellow-400/20 text-yellow-400 rounded-full flex items-center justify-center mx-auto mb-4 border border-yellow-400/30">
+              {versus.winner === null ? <Handshake className="w-8 h-8" /> : <Trophy className="w-8 h-8" />}
+            </div>
+            <h2 className="text-3xl font-black text-white mb-1 italic uppercase">
+              {versus.winner === null ? t('versus.draw') : t('versus.winner', { number: versus.winner + 1 })}
+            </h2>
+            <p className="text-gray-400 text-xs sm:text-sm mb-6">
+              {versus.endReason === 'fell' && versus.winner !== null
+                ? t('versus.fellOff', { number: otherPlayer(versus.winner) + 1 })
+                : t('versus.allCleared')}
+            </p>
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              {PLAYERS.map(player => (
+                <div key={player} className="bg-white/5 p-3.5 rounded-2xl border border-white/10">
+                  <p className="text-[10px] uppercase font-bold mb-0.5 tracking-wider" style={{ color: PLAYER_COLORS[player] }}>
+                    {t('versus.player', { number: player + 1 })}
+                  </p>
+                  <p className="text-2xl font-mono font-bold text-white">{versus.players[player].score}</p>
+                  <p className="text-[10px] font-mono text-gray-500">{t('common.movesShort', { count: versus.players[player].moves })}</p>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => commit(createVersusState(map, versus.settings), [null, null])}
+              className="w-full bg-yellow-400 hover:bg-yellow-300 text-black font-black py-3.5 rounded-2xl transition-all active:scale-95 text-lg uppercase italic tracking-tight flex items-center justify-center gap-2 shadow-lg"
+            >
+              <RotateCcw className="w-5 h-5" />
+              {t('versus.rematch')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersusGame;
@@ -1,9 +1,10 @@
 
-import { ColorType } from './types';
+import { BoardSize, ColorType } from './types';
 
-export const GRID_SIZE = 5;
+export const DEFAULT_BOARD_SIZE: BoardSize = { width: 5, height: 5 };
+export const MIN_BOARD_DIMENSION = 3;
+export const MAX_BOARD_DIMENSION = 12;
 export const ROTATION_DURATION = 0.5; // seconds
-export const START_POS: [number, number] = [2, 2];
 
 export const ALL_COLORS: ColorType[] = [
   ColorType.GREEN,
@@ -0,0 +1,93 @@
+import packJson from '../levels/campaign.json';
+import { MessageKey, isMessageKey } from './i18n';
+import { MapDocument, MapValidationError, createMapError, parseMapDocument } from './mapFormat';
+
+// --- CAMPAIGN ---
+// An ordered pack of handcrafted levels (levels/campaign.json), each a map
+// document with a par. A level unlocks once the one before it is cleared.
+
+export const CAMPAIGN_PACK_VERSION = 1;
+export const MAX_STARS = 3;
+// Two stars for finishing within this share over par; any finish earns one.
+const TWO_STAR_MARGIN = 0.25;
+
+export interface CampaignLevel {
+  id: string;
+  map: MapDocument;
+  par: number;
+  // The catalog's campaign.title.<id>; levels the catalogs do not name show the map's own title.
+  titleKey: MessageKey | null;
+}
+
+export interface CampaignResult {
+  stars: number;
+  bestMoves: number;
+  completedAt: string;
+}
+
+export type CampaignProgress = Record<string, CampaignResult>;
+
+export interface CampaignParseResult {
+  levels: CampaignLevel[];
+  errors: MapValidationError[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Invalid entries are dropped and reported; the rest of the pack still loads.
+export const parseCampaignPack = (raw: unknown): CampaignParseResult => {
+  if (!isRecord(raw) || raw.version !== CAMPAIGN_PACK_VERSION || !Array.isArray(raw.levels)) {
+    return { levels: [], errors: [createMapError('', 'unsupported_version', 'campaignPack')] };
+  }
+  const levels: CampaignLevel[] = [];
+  const errors: MapValidationError[] = [];
+  raw.levels.forEach((entry, i) => {
+    const field = `levels[${i}]`;
+    if (!isRecord(entry) || typeof entry.id !== 'string') {
+      errors.push(createMapError(field, 'invalid_type', 'campaignLevelShape'));
+      return;
+    }
+    const result = parseMapDocument(entry.map);
+    errors.push(...result.errors.map(error => ({ ...error, field: `${field}.map.${error.field}` })));
+    if (!result.map) return;
+    if (result.map.par === null) {
+      errors.push(createMapError(`${field}.map.par`, 'invalid_type', 'campaignLevelPar'));
+      return;
+    }
+    const titleKey = `campaign.title.${entry.id}`;
+    levels.push({
+      id: entry.id,
+      map: result.map,
+      par: result.map.par,
+      titleKey: isMessageKey(titleKey) ? titleKey : null
+    });
+  });
+  return { levels, errors };
+};
+
+export const CAMPAIGN_LEVELS = parseCampaignPack(packJson).levels;
+
+export const computeStars = (moves: number, par: number): number => {
+  if (moves <= par) return MAX_STARS;
+  if (moves <= Math.floor(par * (1 + TWO_STAR_MARGIN))) return 2;
+  return 1;
+};
+
+// More stars wins; ties go to fewer moves.
+export const isBetterCampaignResult = (candidate: CampaignResult, current: CampaignResult | undefined) =>
+  !current ||
+  candidate.stars > current.stars ||
+  (candidate.stars === current.stars && candidate.bestMoves < current.bestMoves);
+
+export const isLevelUnlocked = (levels: CampaignLevel[], progress: CampaignProgress, index: number) =>
+  index === 0 || (index < levels.length && progress[levels[index - 1].id] !== undefined);
+
+export const getCampaignSummary = (levels: CampaignLevel[], progress: CampaignProgress) => {
+  const results = levels.map(level => progress[level.id]).filter(Boolean);
+  return {
+    completed: results.length,
+    stars: results.reduce((sum, result) => sum + result.stars, 0),
+    maxStars: levels.length * MAX_STARS
+  };
+};
@@ -0,0 +1,169 @@
+import { ColorType, CubeFaces, Direction, Tile } from '../types';
+import { DIRECTIONS, EngineState, applyMove } from './gameEngine';
+import { getScreenArrow } from './controls';
+import { Locale } from './i18n';
+
+// --- COACH ---
+// A language model explains a plan for the next few rolls. The model only
+// sees a text description of the position; what it suggests is then played
+// through the engine and set against the solver's path, so advice that falls,
+// bumps into walls or wanders off gets flagged before the player trusts it.
+
+// Longest plan a provider is asked for; longer answers are cut.
+export const COACH_MAX_PLAN = 8;
+// Recent rolls sent along, for context on what the player is doing.
+export const COACH_RECENT_MOVES = 8;
+// A plan may take this many more rolls than the solver to reach its first match.
+const SLOW_PLAN_SLACK = 2;
+
+export interface CoachRequest {
+  state: EngineState;
+  recentMoves: Direction[];
+  // The explanation is written in the player's language and names rolls by
+  // the arrow keys that make them from the player's view.
+  locale: Locale;
+  viewForward: Direction;
+}
+
+export interface CoachAdvice {
+  moves: Direction[];
+  explanation: string;
+}
+
+export type CoachVerdict = 'good' | 'questionable' | 'bad';
+
+export type CoachIssue =
+  | { type: 'fell'; step: number }
+  | { type: 'blocked'; step: number }
+  | { type: 'noMatch' }
+  | { type: 'slower'; planSteps: number; solverSteps: number }
+  | { type: 'empty' };
+
+export interface CoachCheck {
+  verdict: CoachVerdict;
+  issues: CoachIssue[];
+  // Tiles the plan clears when followed as given.
+  matches: number;
+  // Whether the plan opens with the solver's next roll.
+  agreesWithSolver: boolean;
+}
+
+const COLOR_NAMES = new Map<string, string>(Object.entries(ColorType).map(([name, hex]) => [hex, name]));
+
+export const getColorName = (color: ColorType) => COLOR_NAMES.get(color) ?? color;
+
+// One short token per cell, readable by a model without the hex codes.
+const describeTile = (tile: Tile): string => {
+  switch (tile.kind) {
+    case 'color': return getColorName(tile.color);
+    case 'wildcard': return 'ANY';
+    case 'cleared': return '--';
+    case 'start': return 'START';
+    case 'wall': return 'WALL';
+    case 'hole': return 'HOLE';
+    case 'arrow': return `ARROW_${tile.direction.toUpperCase()}`;
+    case 'paint': return `PAINT_${getColorName(tile.color)}`;
+  }
+};
+
+const describeFaces = (faces: CubeFaces) =>
+  (Object.keys(faces) as (keyof CubeFaces)[]).map(face => `${face}=${getColorName(faces[face])}`).join(', ');
+
+const EXPLANATION_LANGUAGES: Record<Locale, string> = {
+  'pt-BR': 'português do Brasil',
+  en: 'inglês'
+};
+
+export const buildCoachPrompt = ({ state, recentMoves, locale, viewForward }: CoachRequest): string => {
+  const rows = state.grid
+    .map((row, y) => `y=${y}: ${row.map((tile, x) => `(${x},${y})${describeTile(tile)}`).join(' ')}`)
+    .reverse();
+  return [
+    'Você é o treinador de um jogo de quebra-cabeça. Um cubo colorido rola por um tabuleiro em grade;',
+    'um tile colorido é limpo quando o cubo para sobre ele com a face de baixo (bottom) da mesma cor.',
+    'O jogo termina quando todos os tiles coloridos estão limpos. Menos movimentos é melhor.',
+    '',
+    'Regras:',
+    '- Direções: up soma 1 em y, down subtrai 1 de y, right soma 1 em x, left subtrai 1 de x.',
+    '- Ao rolar up a face front vai para baixo; down leva a back para baixo; right leva a right; left leva a left.',
+    '- WALL não pode ser ocupado; HOLE ou sair do tabuleiro faz o cubo cair e perder.',
+    '- ARROW_<DIR> só pode ser ocupado entrando naquela direção.',
+    '- PAINT_<COR> pinta a face de baixo com a cor; ANY é limpo por qualquer cor; -- já está limpo.',
+    '',
+    `Tabuleiro ${state.grid[0]?.length ?? 0}x${state.grid.length} (a linha de y mais alto primeiro):`,
+    ...rows,
+    '',
+    `Cubo em (${state.cubePosition[0]},${state.cubePosition[1]}) com faces: ${describeFaces(state.cubeFaces)}.`,
+    `Últimos movimentos do jogador: ${recentMoves.length > 0 ? recentMoves.join(', ') : 'nenhum'}.`,
+    '',
+    `Sugira um plano de até ${COACH_MAX_PLAN} movimentos e explique em ${EXPLANATION_LANGUAGES[locale]}, em 2 ou 3 frases curtas,`,
+    'qual tile ele busca e por que a orientação do cubo chega lá com a cor certa.',
+    `Na explicação, cite os movimentos pelas setas do teclado: ${DIRECTIONS.map(dir => `${dir}=${getScreenArrow(dir, viewForward)}`).join(', ')}.`,
+    'Responda somente com JSON no formato {"moves": ["up", ...], "explanation": "..."}.'
+  ].join('\n');
+};
+
+// Accepts the JSON anywhere in the reply (models like to wrap it in prose or
+// code fences). Null when no usable answer is found.
+export const parseCoachResponse = (text: string): CoachAdvice | null => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.slice(start, end + 1));
+  } catch (err) {
+    return null;
+  }
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { moves, explanation } = raw as Record<string, unknown>;
+  if (!Array.isArray(moves) || typeof explanation !== 'string' || !explanation.trim()) return null;
+  const directions = moves.map(move => String(move).toLowerCase());
+  if (!directions.every(move => DIRECTIONS.includes(move as Direction))) return null;
+  return { moves: (directions as Direction[]).slice(0, COACH_MAX_PLAN), explanation: explanation.trim() };
+};
+
+// Rolls until the first match, or null if the path never clears anything.
+const stepsToFirstMatch = (state: EngineState, path: Direction[]): number | null => {
+  let current = state;
+  for (let i = 0; i < path.length; i++) {
+    const { state: next, events } = applyMove(current, path[i]);
+    if (events.some(event => event.type === 'matched')) return i + 1;
+    if (next.status !== 'playing') return null;
+    current = next;
+  }
+  return null;
+};
+
+// solverPath is the best known solution from this position; null while it is
+// unknown, in which case only the plan's own moves are checked.
+export const checkCoachAdvice = (state: EngineState, advice: CoachAdvice, solverPath: Direction[] | null): CoachCheck => {
+  const issues: CoachIssue[] = [];
+  let current = state;
+  let matches = 0;
+  for (let i = 0; i < advice.moves.length && current.status === 'playing'; i++) {
+    const { state: next, events } = applyMove(current, advice.moves[i]);
+    for (const event of events) {
+      if (event.type === 'fell') issues.push({ type: 'fell', step: i + 1 });
+      if (event.type === 'blocked') issues.push({ type: 'blocked', step: i + 1 });
+      if (event.type === 'matched') matches++;
+    }
+    current = next;
+  }
+  if (advice.moves.length === 0) issues.push({ type: 'empty' });
+  else if (matches === 0 && !issues.some(issue => issue.type === 'fell')) issues.push({ type: 'noMatch' });
+
+  const planSteps = stepsToFirstMatch(state, advice.moves);
+  const solverSteps = solverPath ? stepsToFirstMatch(state, solverPath) : null;
+  if (planSteps !== null && solverSteps !== null && planSteps > solverSteps + SLOW_PLAN_SLACK) {
+    issues.push({ type: 'slower', planSteps, solverSteps });
+  }
+
+  const isBad = issues.some(issue => issue.type === 'fell' || issue.type === 'blocked' || issue.type === 'empty');
+  return {
+    verdict: isBad ? 'bad' : issues.length > 0 ? 'questionable' : 'good',
+    issues,
+    matches,
+    agreesWithSolver: solverPath !== null && solverPath[0] === advice.moves[0]
+  };
+};
@@ -0,0 +1,44 @@
+import { Direction } from '../types';
+
+// --- CONTROLS ---
+// Keys, swipes and the D-pad name screen directions: 'up' rolls away from the
+// viewer and 'right' towards the right edge of the screen. They turn into
+// board directions through the side the camera looks from, snapped to the
+// nearest quadrant, or through the default view when controls are world-fixed.
+
+export type ControlMode = 'camera' | 'world';
+
+export const CONTROL_MODES: ControlMode[] = ['camera', 'world'];
+
+// The board direction pointing away from the default camera.
+export const DEFAULT_VIEW_FORWARD: Direction = 'up';
+
+// Board directions in the order the screen's up, right, down and left pick
+// them as the view turns. Seen from the default camera the board's x axis
+// points to the viewer's left, so the right of 'up' is 'left'.
+const VIEW_RING: Direction[] = ['up', 'left', 'down', 'right'];
+const SCREEN_ORDER: Direction[] = ['up', 'right', 'down', 'left'];
+
+export const SCREEN_ARROWS: Record<Direction, string> = {
+  up: '↑',
+  down: '↓',
+  left: '←',
+  right: '→'
+};
+
+// dx and dy run from the camera to the point it orbits, along the board's x
+// and y axes; ties go to the y axis, the one the default camera looks along.
+export const getViewForward = (dx: number, dy: number): Direction => {
+  if (Math.abs(dy) >= Math.abs(dx)) return dy >= 0 ? 'up' : 'down';
+  return dx > 0 ? 'right' : 'left';
+};
+
+export const toBoardDirection = (screen: Direction, forward: Direction): Direction =>
+  VIEW_RING[(VIEW_RING.indexOf(forward) + SCREEN_ORDER.indexOf(screen)) % VIEW_RING.length];
+
+export const toScreenDirection = (board: Direction, forward: Direction): Direction =>
+  SCREEN_ORDER[(VIEW_RING.indexOf(board) - VIEW_RING.indexOf(forward) + VIEW_RING.length) % VIEW_RING.length];
+
+// The arrow key that makes a board roll from this view.
+export const getScreenArrow = (board: Direction, forward: Direction) =>
+  SCREEN_ARROWS[toScreenDirection(board, forward)];
@@ -0,0 +1,56 @@
+import { BoardSize } from '../types';
+import { DEFAULT_BOARD_SIZE } from '../constants';
+import { generateGrid } from './generator';
+import { DEFAULT_LOCALE, Locale, translate } from './i18n';
+import { MapDocument, createMapDocument } from './mapFormat';
+
+// --- DAILY CHALLENGE ---
+// Everyone gets the same board for a given UTC date: the date feeds the seed.
+
+export const DAILY_BOARD_SIZE: BoardSize = DEFAULT_BOARD_SIZE;
+
+export interface DailyResult {
+  moves: number;
+  efficiency: number;
+  completedAt: string;
+}
+
+export type DailyResults = Record<string, DailyResult>;
+
+// YYYY-MM-DD in UTC.
+export const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Midnight UTC of the day; format it with timeZone 'UTC' to get the same day back.
+export const fromDateKey = (dateKey: string): Date => new Date(`${dateKey}T00:00:00Z`);
+
+export const addDays = (dateKey: string, days: number): string => {
+  const date = fromDateKey(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+export const getDailySeed = (dateKey: string) => `daily-${dateKey}`;
+
+// The title is only a label; the board is the same in every locale.
+export const createDailyMap = (dateKey: string, locale: Locale = DEFAULT_LOCALE): MapDocument =>
+  createMapDocument(generateGrid(DAILY_BOARD_SIZE, getDailySeed(dateKey)), {
+    title: translate(locale, 'daily.mapTitle', { date: dateKey }),
+    seed: getDailySeed(dateKey)
+  });
+
+// Fewer moves wins; ties go to the higher efficiency.
+export const isBetterDailyResult = (candidate: DailyResult, current: DailyResult | undefined) =>
+  !current ||
+  candidate.moves < current.moves ||
+  (candidate.moves === current.moves && candidate.efficiency > current.efficiency);
+
+// Consecutive completed days ending today, or yesterday if today is still open.
+export const computeDailyStreak = (results: DailyResults, todayKey: string): number => {
+  let day = results[todayKey] ? todayKey : addDays(todayKey, -1);
+  let streak = 0;
+  while (results[day]) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+};
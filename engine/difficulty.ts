@@ -0,0 +1,79 @@
+import { Direction } from '../types';
+import { DIRECTIONS, EngineState, applyMove, countTargets, isInBounds, resolveStep, stepPosition } from './gameEngine';
+import { SolveResult, solveGreedy } from './solver';
+
+// --- DIFFICULTY RATING ---
+// Scored from the best known solution: how many rolls each tile costs, how
+// many of the rolls along it are unsafe, and how much the greedy nearest-tile
+// strategy loses against it. None of these grow with the board, so every size
+// can produce every label.
+
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+// Lowest score of each label.
+const DIFFICULTY_THRESHOLDS: [Difficulty, number][] = [
+  ['expert', 75],
+  ['hard', 55],
+  ['medium', 35],
+  ['easy', -Infinity]
+];
+
+export interface DifficultyRating {
+  difficulty: Difficulty;
+  score: number;
+  // Length of the best known solution.
+  moves: number;
+  // Share of the on-board rolls along that solution that neither fall into a
+  // hole nor get blocked.
+  branching: number;
+  // How much longer the greedy solution is, as a fraction; 1 when greedy gets stuck.
+  greedyGap: number;
+}
+
+export const getDifficulty = (score: number): Difficulty =>
+  DIFFICULTY_THRESHOLDS.find(([, min]) => score >= min)![0];
+
+// Midpoint of a label's score band, used to pick the closest candidate.
+export const getDifficultyTarget = (difficulty: Difficulty): number => {
+  const index = DIFFICULTY_THRESHOLDS.findIndex(([d]) => d === difficulty);
+  const min = DIFFICULTY_THRESHOLDS[index][1];
+  const max = index > 0 ? DIFFICULTY_THRESHOLDS[index - 1][1] : min + 20;
+  return Number.isFinite(min) ? (min + max) / 2 : max - 10;
+};
+
+const countRolls = (state: EngineState) => {
+  let onBoard = 0;
+  let safe = 0;
+  for (const dir of DIRECTIONS) {
+    if (!isInBounds(state.grid, stepPosition(state.cubePosition, dir))) continue;
+    onBoard++;
+    if (resolveStep(state.grid, state.cubePosition, dir) === 'move') safe++;
+  }
+  return { onBoard, safe };
+};
+
+// Null when there is no known solution to rate.
+export const rateBoard = (state: EngineState, result: SolveResult): DifficultyRating | null => {
+  const path: Direction[] | null = result.path;
+  if (!path || path.length === 0) return null;
+
+  let current = state;
+  let onBoardRolls = 0;
+  let safeRolls = 0;
+  for (const dir of path) {
+    const rolls = countRolls(current);
+    onBoardRolls += rolls.onBoard;
+    safeRolls += rolls.safe;
+    current = applyMove(current, dir).state;
+  }
+  const moves = path.length;
+  const branching = onBoardRolls > 0 ? safeRolls / onBoardRolls : 1;
+  const greedy = solveGreedy(state);
+  const greedyGap = greedy.solved ? Math.max(0, greedy.path.length - moves) / moves : 1;
+  const targets = countTargets(state.grid);
+
+  const score = (moves / Math.max(1, targets) - 1) * 25 + (1 - branching) * 150 + greedyGap * 60;
+  return { difficulty: getDifficulty(score), score, moves, branching, greedyGap };
+};
@@ -0,0 +1,68 @@
+import { BoardSize, CubeFaces, Tile } from '../types';
+import { clampBoardSize, getDefaultStart } from './generator';
+import { MapDocument, createMapDocument } from './mapFormat';
+import { CLEARED_TILE, START_TILE, isSameTile } from './tiles';
+
+// --- LEVEL EDITOR ---
+// Edits return a new document and keep exactly one start tile, so the only
+// validation errors left are the ones the designer can actually fix.
+
+// New tiles from a resize start cleared.
+const EMPTY_TILE = CLEARED_TILE;
+
+// Any edit invalidates the designer's par, the seed the board came from and its rating.
+const withTiles = (map: MapDocument, tiles: Tile[][], start = map.start): MapDocument =>
+  createMapDocument(tiles, { ...map, start, par: null, seed: undefined, difficulty: undefined });
+
+// Painting the start tile moves the start; the start itself can't be painted over.
+export const paintTile = (map: MapDocument, [x, y]: [number, number], tool: Tile): MapDocument => {
+  if (tool.kind === 'start') return moveStart(map, [x, y]);
+  if (x === map.start[0] && y === map.start[1]) return map;
+  if (map.tiles[y]?.[x] === undefined || isSameTile(map.tiles[y][x], tool)) return map;
+  return withTiles(
+    map,
+    map.tiles.map((row, ry) => row.map((tile, rx) => (rx === x && ry === y ? tool : tile)))
+  );
+};
+
+// The old start tile is left cleared.
+export const moveStart = (map: MapDocument, [x, y]: [number, number]): MapDocument => {
+  if (map.tiles[y]?.[x] === undefined || (x === map.start[0] && y === map.start[1])) return map;
+  const tiles = map.tiles.map((row, ry) =>
+    row.map((tile, rx) => {
+      if (rx === x && ry === y) return START_TILE;
+      if (rx === map.start[0] && ry === map.start[1]) return EMPTY_TILE;
+      return tile;
+    })
+  );
+  return withTiles(map, tiles, [x, y]);
+};
+
+// Keeps the overlapping corner of the old board. A start that falls outside
+// moves to the default start of the new size.
+export const resizeMap = (map: MapDocument, size: BoardSize): MapDocument => {
+  const { width, height } = clampBoardSize(size);
+  const startInside = map.start[0] < width && map.start[1] < height;
+  const start = startInside ? map.start : getDefaultStart({ width, height });
+  const tiles = Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => {
+      if (x === start[0] && y === start[1]) return START_TILE;
+      const tile = map.tiles[y]?.[x] ?? EMPTY_TILE;
+      return tile.kind === 'start' ? EMPTY_TILE : tile;
+    })
+  );
+  return withTiles(map, tiles, start);
+};
+
+// A new start orientation changes the optimum just like a tile edit.
+export const setOrientation = (map: MapDocument, cubeFaces: CubeFaces): MapDocument =>
+  createMapDocument(map.tiles, { ...map, cubeFaces, par: null, seed: undefined, difficulty: undefined });
+
+// Turns the cube a quarter about its vertical axis; top and bottom stay put.
+export const spinOrientation = (faces: CubeFaces): CubeFaces => ({
+  ...faces,
+  front: faces.left,
+  right: faces.front,
+  back: faces.right,
+  left: faces.back
+});
@@ -0,0 +1,168 @@
+import { ColorType, CubeFaces, Direction, GameStatus, Tile } from '../types';
+import { CLEARED_TILE, canEnterTile, isMatchableTile, paintFaces, tileMatches } from './tiles';
+
+// --- HEADLESS GAME ENGINE ---
+// Pure rules: no DOM, audio or React. Every function returns new objects and
+// never mutates its inputs, so it can run in workers, bots and Node scripts.
+
+export const DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+
+export interface EngineState {
+  grid: Tile[][];
+  cubePosition: [number, number];
+  cubeFaces: CubeFaces;
+  moves: number;
+  matchedCount: number;
+  status: GameStatus;
+}
+
+export type EngineEvent =
+  | { type: 'rolled'; direction: Direction; from: [number, number]; to: [number, number]; faces: CubeFaces }
+  | { type: 'matched'; position: [number, number]; tile: Tile }
+  | { type: 'painted'; position: [number, number]; color: ColorType }
+  | { type: 'blocked'; direction: Direction; at: [number, number] }
+  | { type: 'fell'; direction: Direction; from: [number, number] }
+  | { type: 'won'; moves: number }
+  // Emitted by game modes (engine/gameModes.ts), never by applyMove itself.
+  | { type: 'outOfMoves'; limit: number }
+  | { type: 'timeUp' };
+
+export interface MoveResult<S extends EngineState = EngineState> {
+  state: S;
+  events: EngineEvent[];
+}
+
+export const rotateOrientation = (o: CubeFaces, dir: Direction): CubeFaces => {
+  const n = { ...o };
+  if (dir === 'up') {
+    n.top = o.back; n.front = o.top; n.bottom = o.front; n.back = o.bottom;
+  } else if (dir === 'down') {
+    n.top = o.front; n.front = o.bottom; n.bottom = o.back; n.back = o.top;
+  } else if (dir === 'left') {
+    n.top = o.right; n.right = o.bottom; n.bottom = o.left; n.left = o.top;
+  } else if (dir === 'right') {
+    n.top = o.left; n.left = o.bottom; n.bottom = o.right; n.right = o.top;
+  }
+  return n;
+};
+
+// All six faces: paint tiles can leave two faces the same color, so top and
+// front alone no longer pin down the rest.
+export const getOrientationKey = (o: CubeFaces) =>
+  `${o.top}-${o.bottom}-${o.front}-${o.back}-${o.left}-${o.right}`;
+
+export const stepPosition = ([x, y]: [number, number], dir: Direction): [number, number] => {
+  switch (dir) {
+    case 'up': return [x, y + 1];
+    case 'down': return [x, y - 1];
+    case 'left': return [x - 1, y];
+    case 'right': return [x + 1, y];
+  }
+};
+
+export const isInBounds = (grid: Tile[][], [x, y]: [number, number]) =>
+  y >= 0 && y < grid.length && x >= 0 && x < grid[y].length;
+
+export const countTiles = (grid: Tile[][]) => grid.reduce((sum, row) => sum + row.length, 0);
+
+// Tiles still waiting to be matched.
+export const countTargets = (grid: Tile[][]) =>
+  grid.reduce((sum, row) => sum + row.filter(isMatchableTile).length, 0);
+
+export type StepOutcome = 'move' | 'blocked' | 'fall';
+
+// What a roll from `from` does, by the tile rules alone: leaving the board or
+// rolling into a hole is a fall, walls and wrong-way arrows block.
+export const resolveStep = (grid: Tile[][], from: [number, number], dir: Direction): StepOutcome => {
+  const to = stepPosition(from, dir);
+  if (!isInBounds(grid, to)) return 'fall';
+  const tile = grid[to[1]][to[0]];
+  if (tile.kind === 'hole') return 'fall';
+  return canEnterTile(tile, dir) ? 'move' : 'blocked';
+};
+
+export const createEngineState = (
+  grid: Tile[][],
+  start: [number, number],
+  faces: CubeFaces
+): EngineState => ({
+  grid,
+  cubePosition: [start[0], start[1]],
+  cubeFaces: { ...faces },
+  moves: 0,
+  matchedCount: grid.reduce((sum, row) => sum + row.filter(tile => !isMatchableTile(tile)).length, 0),
+  status: 'playing'
+});
+
+// Strips extra fields (map, scores, UI state) so only the rules state is copied or posted.
+export const toEngineState = ({ grid, cubePosition, cubeFaces, moves, matchedCount, status }: EngineState): EngineState => ({
+  grid,
+  cubePosition,
+  cubeFaces,
+  moves,
+  matchedCount,
+  status
+});
+
+export const applyMove = <S extends EngineState>(state: S, dir: Direction): MoveResult<S> => {
+  if (state.status !== 'playing') return { state, events: [] };
+
+  const from = state.cubePosition;
+  const to = stepPosition(from, dir);
+  const outcome = resolveStep(state.grid, from, dir);
+
+  if (outcome === 'fall') {
+    return {
+      state: { ...state, status: 'lost' },
+      events: [{ type: 'fell', direction: dir, from }]
+    };
+  }
+  // A blocked roll leaves the cube in place and costs no move.
+  if (outcome === 'blocked') return { state, events: [{ type: 'blocked', direction: dir, at: from }] };
+
+  const [x, y] = to;
+  const tile = state.grid[y][x];
+  const faces = paintFaces(rotateOrientation(state.cubeFaces, dir), tile);
+  const events: EngineEvent[] = [{ type: 'rolled', direction: dir, from, to, faces }];
+  if (tile.kind === 'paint') events.push({ type: 'painted', position: to, color: tile.color });
+  let grid = state.grid;
+  let matchedCount = state.matchedCount;
+
+  if (tileMatches(tile, faces.bottom)) {
+    grid = state.grid.map((row, ry) =>
+      row.map((col, rx) => (ry === y && rx === x ? CLEARED_TILE : col))
+    );
+    matchedCount += 1;
+    events.push({ type: 'matched', position: to, tile });
+  }
+
+  const moves = state.moves + 1;
+  const isWon = matchedCount === countTiles(grid);
+  if (isWon) events.push({ type: 'won', moves });
+
+  return {
+    state: {
+      ...state,
+      grid,
+      cubePosition: to,
+      cubeFaces: faces,
+      moves,
+      matchedCount,
+      status: isWon ? 'won' : state.status
+    },
+    events
+  };
+};
+
+// Replays a sequence of moves, stopping early once the game is over.
+export const applyMoves = <S extends EngineState>(state: S, dirs: Direction[]): MoveResult<S> => {
+  let current = state;
+  const events: EngineEvent[] = [];
+  for (const dir of dirs) {
+    if (current.status !== 'playing') break;
+    const result = applyMove(current, dir);
+    current = result.state;
+    events.push(...result.events);
+  }
+  return { state: current, events };
+};
@@ -0,0 +1,112 @@
+import { Direction, Tile } from '../types';
+import { EngineEvent, EngineState, MoveResult, StepOutcome, applyMove, resolveStep } from './gameEngine';
+
+// --- GAME MODES ---
+// A mode is a rule set layered over the engine: it can turn falls into
+// blocked rolls, cap the move count or put a clock on the board. applyMove
+// itself stays mode-free, so the solver, hints and replays see the same board
+// in every mode.
+
+export type GameMode = 'classic' | 'timeAttack' | 'moveLimit' | 'zen';
+
+export const GAME_MODES: GameMode[] = ['classic', 'timeAttack', 'moveLimit', 'zen'];
+
+// Why a game stopped being played.
+export type EndReason = 'cleared' | 'fell' | 'outOfMoves' | 'timeUp';
+
+// What a mode may look at when setting its limits.
+export interface RuleContext {
+  // Tiles to match on the starting board.
+  targets: number;
+  // The designer's par, or the solver's final figure; null while unknown.
+  par: number | null;
+}
+
+export interface GameRules {
+  mode: GameMode;
+  // Rolls off the board or into a hole are blocked instead of ending the game.
+  preventFalls: boolean;
+  // Play waits until the board's par is known, since the limits depend on it.
+  usesPar: boolean;
+  // Countdown in seconds; null for untimed modes.
+  getTimeLimit: (context: RuleContext) => number | null;
+  // Null when the mode has no cap, or when it is not known yet.
+  getMoveLimit: (context: RuleContext) => number | null;
+}
+
+// Time attack budget: a few seconds per tile, with a floor for tiny boards.
+const SECONDS_PER_TARGET = 3;
+const MIN_TIME_LIMIT = 30;
+
+const noLimit = () => null;
+
+export const GAME_RULES: Record<GameMode, GameRules> = {
+  classic: { mode: 'classic', preventFalls: false, usesPar: false, getTimeLimit: noLimit, getMoveLimit: noLimit },
+  timeAttack: {
+    mode: 'timeAttack',
+    preventFalls: false,
+    usesPar: false,
+    getTimeLimit: ({ targets }) => Math.max(MIN_TIME_LIMIT, targets * SECONDS_PER_TARGET),
+    getMoveLimit: noLimit
+  },
+  moveLimit: {
+    mode: 'moveLimit',
+    preventFalls: false,
+    usesPar: true,
+    getTimeLimit: noLimit,
+    getMoveLimit: ({ par }) => par
+  },
+  zen: { mode: 'zen', preventFalls: true, usesPar: false, getTimeLimit: noLimit, getMoveLimit: noLimit }
+};
+
+export const resolveModeStep = (
+  rules: GameRules,
+  grid: Tile[][],
+  from: [number, number],
+  dir: Direction
+): StepOutcome => {
+  const outcome = resolveStep(grid, from, dir);
+  return outcome === 'fall' && rules.preventFalls ? 'blocked' : outcome;
+};
+
+// applyMove under a mode's rules. The move limit is passed in rather than
+// read from the rules because it can depend on the solver's result.
+export const applyModeMove = <S extends EngineState>(
+  rules: GameRules,
+  state: S,
+  dir: Direction,
+  moveLimit: number | null
+): MoveResult<S> => {
+  if (state.status !== 'playing') return { state, events: [] };
+  if (resolveModeStep(rules, state.grid, state.cubePosition, dir) === 'blocked') {
+    return { state, events: [{ type: 'blocked', direction: dir, at: state.cubePosition }] };
+  }
+  const result = applyMove(state, dir);
+  if (moveLimit === null || result.state.status !== 'playing' || result.state.moves < moveLimit) return result;
+  return {
+    state: { ...result.state, status: 'lost' },
+    events: [...result.events, { type: 'outOfMoves', limit: moveLimit }]
+  };
+};
+
+// Ends a running game when its countdown reaches zero.
+export const expireTime = <S extends EngineState>(state: S): MoveResult<S> =>
+  state.status === 'playing'
+    ? { state: { ...state, status: 'lost' }, events: [{ type: 'timeUp' }] }
+    : { state, events: [] };
+
+export const getEndReason = (events: EngineEvent[]): EndReason | null => {
+  for (const event of events) {
+    switch (event.type) {
+      case 'won':
+        return 'cleared';
+      case 'fell':
+        return 'fell';
+      case 'outOfMoves':
+        return 'outOfMoves';
+      case 'timeUp':
+        return 'timeUp';
+    }
+  }
+  return null;
+};
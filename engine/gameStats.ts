@@ -0,0 +1,160 @@
+import { GameState } from '../types';
+import { EndReason, GameMode } from './gameModes';
+import { MapDocument } from './mapFormat';
+import { hashSeed } from './random';
+import { computeEfficiency } from './scoring';
+import { encodeShareCode } from './shareCode';
+
+// --- GAME HISTORY STATS ---
+// One record per game played, won, lost or left unfinished, plus the
+// summaries and exports the statistics screen is built from.
+
+export const HISTORY_EXPORT_VERSION = 1;
+
+export type GameOutcome = 'won' | 'lost' | 'abandoned';
+
+export interface GameRecord {
+  // Assigned by the history store.
+  id?: number;
+  // When the game ended or was left.
+  playedAt: string;
+  seed: string | null;
+  // Identifies the board itself, so hand-made and shared maps group too.
+  mapHash: string;
+  title: string;
+  width: number;
+  height: number;
+  mode: GameMode;
+  outcome: GameOutcome;
+  endReason: EndReason | null;
+  moves: number;
+  // The solver's figure, if it had one when the record was made.
+  aiMoves: number | null;
+  // Wins only.
+  efficiency: number | null;
+  durationMs: number;
+  undos: number;
+  hints: number;
+}
+
+// Short hex digest of the share code, which covers tiles, start and faces.
+export const getMapHash = (map: MapDocument) => hashSeed(encodeShareCode(map)).toString(16).padStart(8, '0');
+
+export const getOutcome = (state: GameState): GameOutcome =>
+  state.status === 'playing' ? 'abandoned' : state.status;
+
+export const createGameRecord = (
+  state: GameState,
+  details: { playedAt: Date; durationMs: number; undos: number }
+): GameRecord => {
+  const outcome = getOutcome(state);
+  return {
+    playedAt: details.playedAt.toISOString(),
+    seed: state.map.seed ?? null,
+    mapHash: getMapHash(state.map),
+    title: state.map.title,
+    width: state.map.size.width,
+    height: state.map.size.height,
+    mode: state.mode,
+    outcome,
+    endReason: state.endReason,
+    moves: state.moves,
+    aiMoves: state.optimalAiMoves,
+    efficiency: outcome === 'won' ? computeEfficiency(state.optimalAiMoves, state.moves, state.hintsUsed) : null,
+    durationMs: details.durationMs,
+    undos: details.undos,
+    hints: state.hintsUsed
+  };
+};
+
+export interface GameStatsSummary {
+  games: number;
+  wins: number;
+  losses: number;
+  abandoned: number;
+  // Share of games won, 0–100.
+  winRate: number;
+  // Mean over wins; null before the first one.
+  averageEfficiency: number | null;
+  totalMoves: number;
+  totalDurationMs: number;
+}
+
+export const summarizeGames = (records: GameRecord[]): GameStatsSummary => {
+  const count = (outcome: GameOutcome) => records.filter(record => record.outcome === outcome).length;
+  const efficiencies = records.map(record => record.efficiency).filter((e): e is number => e !== null);
+  const wins = count('won');
+  return {
+    games: records.length,
+    wins,
+    losses: count('lost'),
+    abandoned: count('abandoned'),
+    winRate: records.length > 0 ? Math.round((wins / records.length) * 100) : 0,
+    averageEfficiency:
+      efficiencies.length > 0 ? Math.round(efficiencies.reduce((sum, e) => sum + e, 0) / efficiencies.length) : null,
+    totalMoves: records.reduce((sum, record) => sum + record.moves, 0),
+    totalDurationMs: records.reduce((sum, record) => sum + record.durationMs, 0)
+  };
+};
+
+const byDate = (a: GameRecord, b: GameRecord) => a.playedAt.localeCompare(b.playedAt);
+
+// Efficiency of the most recent wins, oldest first.
+export const getEfficiencyTrend = (records: GameRecord[], limit = 30): { playedAt: string; efficiency: number }[] =>
+  records
+    .filter(record => record.efficiency !== null)
+    .sort(byDate)
+    .slice(-limit)
+    .map(record => ({ playedAt: record.playedAt, efficiency: record.efficiency! }));
+
+// Higher efficiency wins; ties go to fewer moves, then the faster game.
+const isBetterGame = (candidate: GameRecord, current: GameRecord | undefined) =>
+  !current ||
+  candidate.efficiency! > current.efficiency! ||
+  (candidate.efficiency === current.efficiency &&
+    (candidate.moves < current.moves ||
+      (candidate.moves === current.moves && candidate.durationMs < current.durationMs)));
+
+// Best win on each board size, largest boards first.
+export const getBestGamesBySize = (records: GameRecord[]): GameRecord[] => {
+  const best = new Map<string, GameRecord>();
+  for (const record of records) {
+    if (record.outcome !== 'won' || record.efficiency === null) continue;
+    const key = `${record.width}x${record.height}`;
+    if (isBetterGame(record, best.get(key))) best.set(key, record);
+  }
+  return [...best.values()].sort((a, b) => b.width * b.height - a.width * a.height || b.width - a.width);
+};
+
+// --- EXPORT ---
+
+const CSV_COLUMNS: (keyof GameRecord)[] = [
+  'playedAt',
+  'seed',
+  'mapHash',
+  'title',
+  'width',
+  'height',
+  'mode',
+  'outcome',
+  'endReason',
+  'moves',
+  'aiMoves',
+  'efficiency',
+  'durationMs',
+  'undos',
+  'hints'
+];
+
+const toCsvField = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const serializeRecordsCsv = (records: GameRecord[]) => {
+  const rows = records.map(record => CSV_COLUMNS.map(column => toCsvField(record[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const serializeRecordsJson = (records: GameRecord[]) =>
+  JSON.stringify({ version: HISTORY_EXPORT_VERSION, games: records.map(({ id, ...record }) => record) }, null, 2);
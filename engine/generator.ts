@@ -0,0 +1,143 @@
+import { BoardSize, ColorType, Tile } from '../types';
+import { ALL_COLORS, INITIAL_CUBE_FACES, MAX_BOARD_DIMENSION, MIN_BOARD_DIMENSION } from '../constants';
+import { Difficulty, DifficultyRating, getDifficultyTarget, rateBoard } from './difficulty';
+import { createEngineState } from './gameEngine';
+import { Rng, createRng } from './random';
+import { SolveProgress, SolverOptions, searchOptimal } from './solver';
+import { HOLE_TILE, START_TILE, WALL_TILE, colorTile } from './tiles';
+
+// --- BOARD GENERATION ---
+
+const clampDimension = (value: number) =>
+  Math.min(MAX_BOARD_DIMENSION, Math.max(MIN_BOARD_DIMENSION, Math.round(value)));
+
+export const clampBoardSize = ({ width, height }: BoardSize): BoardSize => ({
+  width: clampDimension(width),
+  height: clampDimension(height)
+});
+
+export const getBoardSize = (grid: Tile[][]): BoardSize => ({
+  width: grid[0]?.length ?? 0,
+  height: grid.length
+});
+
+export const getDefaultStart = ({ width, height }: BoardSize): [number, number] => [
+  Math.floor((width - 1) / 2),
+  Math.floor((height - 1) / 2)
+];
+
+// Boards without a start tile start in the middle.
+export const findStartPosition = (grid: Tile[][]): [number, number] => {
+  for (let y = 0; y < grid.length; y++) {
+    const x = grid[y].findIndex(tile => tile.kind === 'start');
+    if (x >= 0) return [x, y];
+  }
+  return getDefaultStart(getBoardSize(grid));
+};
+
+const shuffle = <T>(items: T[], rng: Rng): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+// Colors stay balanced: every color appears floor(n / 6) times and the
+// leftover tiles go to distinct, randomly chosen colors. The same seed and
+// size always produce the same grid.
+export const generateGrid = (
+  size: BoardSize,
+  seed: string,
+  start: [number, number] = getDefaultStart(size)
+): Tile[][] => {
+  const rng = createRng(seed);
+  const playableTiles = size.width * size.height - 1;
+  const tilesPerColor = Math.floor(playableTiles / ALL_COLORS.length);
+  const colorPool: ColorType[] = [];
+  ALL_COLORS.forEach(color => {
+    for (let i = 0; i < tilesPerColor; i++) colorPool.push(color);
+  });
+  colorPool.push(...shuffle([...ALL_COLORS], rng).slice(0, playableTiles - colorPool.length));
+  shuffle(colorPool, rng);
+
+  const grid: Tile[][] = [];
+  let poolIdx = 0;
+  for (let y = 0; y < size.height; y++) {
+    const row: Tile[] = [];
+    for (let x = 0; x < size.width; x++) {
+      if (x === start[0] && y === start[1]) row.push(START_TILE);
+      else row.push(colorTile(colorPool[poolIdx++]));
+    }
+    grid.push(row);
+  }
+  return grid;
+};
+
+// --- RATED GENERATION ---
+// Candidates get walls and holes according to the target difficulty and are
+// kept only if the solver finds a way through. The solver runs on a node budget
+// with no time limit, so a seed, size and difficulty always give the same board.
+
+const HAZARD_DENSITY: Record<Difficulty, number> = {
+  easy: 0,
+  medium: 0.05,
+  hard: 0.1,
+  expert: 0.16
+};
+const GENERATOR_ATTEMPTS = 8;
+// Expansions cost roughly one pass over the board, so the node budget shrinks
+// as boards grow to keep generation time about the same at every size.
+const GENERATOR_WORK = 4000;
+const getGeneratorSolverOptions = ({ width, height }: BoardSize): SolverOptions => ({
+  maxNodes: Math.max(20, Math.round(GENERATOR_WORK / (width * height))),
+  timeLimitMs: Infinity,
+  beamWidth: 16
+});
+
+export interface GeneratedBoard {
+  tiles: Tile[][];
+  rating: DifficultyRating;
+}
+
+const addHazards = (grid: Tile[][], start: [number, number], density: number, rng: Rng): Tile[][] => {
+  const cells: [number, number][] = [];
+  grid.forEach((row, y) =>
+    row.forEach((_, x) => {
+      if (x !== start[0] || y !== start[1]) cells.push([x, y]);
+    })
+  );
+  const hazards = shuffle(cells, rng).slice(0, Math.round(cells.length * density));
+  const next = grid.map(row => [...row]);
+  hazards.forEach(([x, y]) => (next[y][x] = rng() < 0.5 ? WALL_TILE : HOLE_TILE));
+  return next;
+};
+
+// Returns the first candidate rated at the target, otherwise the solvable one
+// closest to it; null only if no candidate could be solved. Passes on the
+// solver's progress steps so a worker can pause between slices.
+export function* searchRatedGrid(
+  size: BoardSize,
+  seed: string,
+  difficulty: Difficulty,
+  start: [number, number] = getDefaultStart(size)
+): Generator<SolveProgress, GeneratedBoard | null, void> {
+  const target = getDifficultyTarget(difficulty);
+  const solverOptions = getGeneratorSolverOptions(size);
+  let best: GeneratedBoard | null = null;
+  for (let attempt = 0; attempt < GENERATOR_ATTEMPTS; attempt++) {
+    const candidateSeed = `${seed}:${difficulty}:${attempt}`;
+    const tiles = addHazards(
+      generateGrid(size, candidateSeed, start),
+      start,
+      HAZARD_DENSITY[difficulty],
+      createRng(`${candidateSeed}:hazards`)
+    );
+    const state = createEngineState(tiles, start, INITIAL_CUBE_FACES);
+    const rating = rateBoard(state, yield* searchOptimal(state, solverOptions));
+    if (!rating) continue;
+    if (rating.difficulty === difficulty) return { tiles, rating };
+    if (!best || Math.abs(rating.score - target) < Math.abs(best.rating.score - target)) best = { tiles, rating };
+  }
+  return best;
+}
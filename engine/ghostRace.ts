@@ -0,0 +1,77 @@
+import { Direction, Tile } from '../types';
+import { ROTATION_DURATION } from '../constants';
+import { EngineEvent, EngineState, applyMove } from './gameEngine';
+import { isMatchableTile } from './tiles';
+
+// --- GHOST AI RACE ---
+// The AI plays the same board on its own copy of the grid while the player
+// plays theirs. Its cube follows the solver's path at a fixed pace, so the
+// time it needs is known as soon as the path is.
+
+export type GhostPace = 'slow' | 'normal' | 'fast';
+
+export const GHOST_PACES: GhostPace[] = ['slow', 'normal', 'fast'];
+
+// Milliseconds between the starts of two ghost rolls; never shorter than a roll.
+export const GHOST_PACE_MS: Record<GhostPace, number> = {
+  slow: 1500,
+  normal: 1000,
+  fast: 600
+};
+
+export interface GhostRun {
+  state: EngineState;
+  path: Direction[];
+  // Index into path of the next roll.
+  step: number;
+  pace: GhostPace;
+  // Ms into the game when the ghost set off, and when it cleared the board.
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+export const createGhostRun = (
+  state: EngineState,
+  path: Direction[],
+  pace: GhostPace,
+  startedAt: number
+): GhostRun => ({ state, path, step: 0, pace, startedAt, finishedAt: null });
+
+export const isGhostRunning = (run: GhostRun) => run.state.status === 'playing' && run.step < run.path.length;
+
+// Ms into the game the next roll starts.
+export const getGhostRollTime = (run: GhostRun) => run.startedAt + run.step * GHOST_PACE_MS[run.pace];
+
+// Ms into the game the ghost finishes: measured once it has, projected until then.
+export const getGhostFinishTime = (run: GhostRun) =>
+  run.finishedAt ??
+  run.startedAt + Math.max(0, run.path.length - 1) * GHOST_PACE_MS[run.pace] + ROTATION_DURATION * 1000;
+
+export const advanceGhost = (run: GhostRun, at: number): { run: GhostRun; events: EngineEvent[] } => {
+  if (!isGhostRunning(run)) return { run, events: [] };
+  const { state, events } = applyMove(run.state, run.path[run.step]);
+  return {
+    run: { ...run, state, step: run.step + 1, finishedAt: state.status === 'won' ? at : run.finishedAt },
+    events
+  };
+};
+
+export type ClearOwner = 'player' | 'ghost' | 'both';
+
+export const CLEAR_OWNER_COLORS: Record<ClearOwner, string> = {
+  player: '#facc15',
+  ghost: '#38bdf8',
+  both: '#a78bfa'
+};
+
+// Who has cleared each target of the original board, on their own grid.
+export const getClearOwners = (original: Tile[][], player: Tile[][], ghost: Tile[][]): (ClearOwner | null)[][] =>
+  original.map((row, y) =>
+    row.map((tile, x) => {
+      if (!isMatchableTile(tile)) return null;
+      const byPlayer = player[y][x].kind === 'cleared';
+      const byGhost = ghost[y][x].kind === 'cleared';
+      if (byPlayer && byGhost) return 'both';
+      return byPlayer ? 'player' : byGhost ? 'ghost' : null;
+    })
+  );
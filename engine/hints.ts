@@ -0,0 +1,42 @@
+import { ColorType, Direction } from '../types';
+import { EngineState, applyMove } from './gameEngine';
+
+// --- HINTS ---
+
+export const HINTS_PER_GAME = 3;
+
+// 'move' asks for the next move of the best known solution; 'path' for the
+// shortest route to the next tile the cube can clear.
+export type HintKind = 'move' | 'path';
+
+export interface HintStep {
+  direction: Direction;
+  position: [number, number];
+  // Face the cube will rest on after this step.
+  bottom: ColorType;
+}
+
+export interface Hint {
+  kind: HintKind;
+  steps: HintStep[];
+}
+
+// Walks the path through the engine; stops at the first step that ends the game.
+export const traceHint = (state: EngineState, kind: HintKind, path: Direction[]): Hint => {
+  const steps: HintStep[] = [];
+  let current = state;
+  for (const direction of path) {
+    if (current.status !== 'playing') break;
+    const next = applyMove(current, direction).state;
+    if (next.status === 'lost') break;
+    steps.push({ direction, position: next.cubePosition, bottom: next.cubeFaces.bottom });
+    current = next;
+  }
+  return { kind, steps };
+};
+
+// Keeps the hint while the player follows it; any other move drops it.
+export const advanceHint = (hint: Hint | null, direction: Direction): Hint | null => {
+  if (!hint || hint.steps[0]?.direction !== direction || hint.steps.length === 1) return null;
+  return { ...hint, steps: hint.steps.slice(1) };
+};
@@ -0,0 +1,62 @@
+import { Direction } from '../types';
+import { EngineState, toEngineState } from './gameEngine';
+
+// --- MOVE HISTORY ---
+// Undo restores the engine snapshot taken before the move; redo replays the
+// direction through applyMove, so redone moves score exactly like new ones.
+
+export interface HistoryEntry {
+  direction: Direction;
+  before: EngineState;
+}
+
+export interface MoveHistory {
+  past: HistoryEntry[];
+  // Stack of undone directions; the next redo is the last one.
+  future: Direction[];
+}
+
+export const EMPTY_HISTORY: MoveHistory = { past: [], future: [] };
+
+// Moves charged per undo when the penalty rule is on.
+export const UNDO_PENALTY = 1;
+
+// Records a finished roll. A fresh move drops the redo stack; a redo consumes it.
+export const recordMove = (
+  history: MoveHistory,
+  before: EngineState,
+  direction: Direction,
+  isRedo = false
+): MoveHistory => ({
+  past: [...history.past, { direction, before: toEngineState(before) }],
+  future: isRedo ? history.future.slice(0, -1) : []
+});
+
+export const canUndo = (history: MoveHistory, state: EngineState) =>
+  history.past.length > 0 && state.status !== 'won';
+
+export const canRedo = (history: MoveHistory, state: EngineState) =>
+  history.future.length > 0 && state.status === 'playing';
+
+export const getRedoDirection = (history: MoveHistory): Direction | null =>
+  history.future[history.future.length - 1] ?? null;
+
+// Null when there is nothing to undo. With the penalty on, the move counter keeps
+// running instead of rewinding.
+export const undoMove = <S extends EngineState>(
+  state: S,
+  history: MoveHistory,
+  penalty: boolean
+): { state: S; history: MoveHistory; entry: HistoryEntry } | null => {
+  if (!canUndo(history, state)) return null;
+  const entry = history.past[history.past.length - 1];
+  return {
+    state: {
+      ...state,
+      ...entry.before,
+      moves: penalty ? state.moves + UNDO_PENALTY : entry.before.moves
+    },
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry.direction] },
+    entry
+  };
+};
@@ -0,0 +1,80 @@
+import ptBR, { Messages } from '../locales/pt-BR';
+import en from '../locales/en';
+
+// --- I18N ---
+// Message catalogs live in locales/; pt-BR is the reference catalog and every
+// other locale must define the same keys. Plain functions here so the engine
+// and the servers can format messages too; components use the useI18n hook.
+
+export type Locale = 'pt-BR' | 'en';
+
+export const LOCALES: Locale[] = ['pt-BR', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Each language named in itself, for the switch in the options menu.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English'
+};
+
+// Plural forms are picked with Intl.PluralRules from params.count.
+export type PluralMessage = { [rule in Intl.LDMLPluralRule]?: string } & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Messages> = { 'pt-BR': ptBR, en };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// For keys built from data, such as a campaign level id.
+export const isMessageKey = (key: string): key is MessageKey => key in CATALOGS[DEFAULT_LOCALE];
+
+// The first browser language there is a catalog for; any Portuguese gets pt-BR.
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (base === 'pt') return 'pt-BR';
+    if (base === 'en') return 'en';
+  }
+  return DEFAULT_LOCALE;
+};
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+export const formatNumber = (locale: Locale, value: number, options: Intl.NumberFormatOptions = {}) => {
+  const cacheKey = `${locale}:${JSON.stringify(options)}`;
+  let format = numberFormats.get(cacheKey);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(cacheKey, format);
+  }
+  return format.format(value);
+};
+
+export const formatDate = (locale: Locale, date: Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) =>
+  date.toLocaleDateString(locale, options);
+
+const selectPlural = (locale: Locale, count: number) => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(count);
+};
+
+// Fills `{name}` placeholders from params, formatting numbers for the locale.
+// Unknown placeholders are left as written.
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const message: Message = CATALOGS[locale][key];
+  const template =
+    typeof message === 'string' ? message : message[selectPlural(locale, Number(params.count ?? 0))] ?? message.other;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+};
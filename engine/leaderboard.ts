@@ -0,0 +1,127 @@
+import { getMapHash } from './gameStats';
+import { MapErrorCode, MapErrorDetail, MapValidationError, createMapError } from './mapFormat';
+import { MessageKey, MessageParams } from './i18n';
+import { Replay, buildReplayFrames, parseReplayDocument, serializeReplay } from './replay';
+
+// --- LEADERBOARD ---
+// Shared by the client and the reference server (server/leaderboardServer.ts).
+// A board's scores are keyed by its map hash; a submission carries its replay,
+// and the server only trusts what replaying it through the engine produces.
+
+export const LEADERBOARD_API_VERSION = 1;
+// Entries returned per board unless the request asks for fewer.
+export const LEADERBOARD_SIZE = 10;
+export const MAX_PLAYER_NAME_LENGTH = 24;
+export const DEFAULT_LEADERBOARD_PORT = 8787;
+
+// Validation errors reuse the map codes; the rest are transport failures.
+export type LeaderboardErrorCode = MapErrorCode | 'not_found' | 'payload_too_large' | 'server_error';
+
+const TRANSPORT_DETAILS = ['payloadTooLarge', 'bodyNotJson', 'hashMismatch', 'routeNotFound', 'serverError'] as const;
+export type LeaderboardTransportDetail = (typeof TRANSPORT_DETAILS)[number];
+
+// Clients show the catalog message for detail: leaderboard.error.<detail> for
+// transport failures, mapError.<detail> for validation errors.
+export interface LeaderboardError {
+  field: string;
+  code: LeaderboardErrorCode;
+  detail: MapErrorDetail | LeaderboardTransportDetail;
+  params?: MessageParams;
+}
+
+export const getLeaderboardErrorKey = ({ detail }: LeaderboardError): MessageKey =>
+  (TRANSPORT_DETAILS as readonly string[]).includes(detail)
+    ? `leaderboard.error.${detail as LeaderboardTransportDetail}`
+    : `mapError.${detail as MapErrorDetail}`;
+
+export interface LeaderboardSubmission {
+  playerName: string;
+  mapHash: string;
+  seed: string | null;
+  moves: number;
+  // A serialized replay document (see engine/replay.ts).
+  replay: unknown;
+}
+
+export interface LeaderboardEntry {
+  id: string;
+  playerName: string;
+  mapHash: string;
+  seed: string | null;
+  moves: number;
+  submittedAt: string;
+}
+
+export interface LeaderboardVerification {
+  // Null whenever errors is non-empty.
+  replay: Replay | null;
+  errors: MapValidationError[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const normalizePlayerName = (name: string) => name.trim().replace(/\s+/g, ' ').slice(0, MAX_PLAYER_NAME_LENGTH);
+
+export const createSubmission = (playerName: string, replay: Replay, moves: number): LeaderboardSubmission => ({
+  playerName: normalizePlayerName(playerName),
+  mapHash: getMapHash(replay.map),
+  seed: replay.map.seed ?? null,
+  moves,
+  replay: JSON.parse(serializeReplay(replay))
+});
+
+// Checks the shape, then replays the inputs: the replay must be of the claimed
+// board and must clear it in exactly the claimed number of moves.
+export const verifySubmission = (raw: unknown): LeaderboardVerification => {
+  const fail = (
+    field: string,
+    code: MapValidationError['code'],
+    detail: MapErrorDetail,
+    params?: MessageParams
+  ): LeaderboardVerification => ({
+    replay: null,
+    errors: [createMapError(field, code, detail, params)]
+  });
+  if (!isRecord(raw)) return fail('', 'not_object', 'notSubmission');
+  if (typeof raw.playerName !== 'string' || normalizePlayerName(raw.playerName) === '') {
+    return fail('playerName', 'invalid_type', 'missingPlayerName');
+  }
+  if (typeof raw.mapHash !== 'string') return fail('mapHash', 'invalid_type', 'missingMapHash');
+  if (typeof raw.moves !== 'number' || !Number.isInteger(raw.moves) || raw.moves <= 0) {
+    return fail('moves', 'invalid_type', 'invalidMoveCount');
+  }
+
+  const parsed = parseReplayDocument(raw.replay);
+  if (!parsed.replay) {
+    return {
+      replay: null,
+      errors: parsed.errors.map(error => ({ ...error, field: error.field ? `replay.${error.field}` : 'replay' }))
+    };
+  }
+  if (getMapHash(parsed.replay.map) !== raw.mapHash) {
+    return fail('mapHash', 'checksum_mismatch', 'replayWrongBoard');
+  }
+  const frames = buildReplayFrames(parsed.replay);
+  const final = frames[frames.length - 1].state;
+  if (final.status !== 'won') return fail('replay', 'out_of_range', 'replayNotCleared');
+  if (final.moves !== raw.moves) {
+    return fail('moves', 'out_of_range', 'replayMoveMismatch', { moves: final.moves, claimed: raw.moves });
+  }
+  return { replay: parsed.replay, errors: [] };
+};
+
+// Fewer moves ranks higher; ties go to the earlier submission.
+export const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+  a.moves - b.moves || a.submittedAt.localeCompare(b.submittedAt);
+
+// Keeps each player's best entry (names compare case-insensitively), ranked.
+export const rankEntries = (entries: LeaderboardEntry[]): LeaderboardEntry[] => {
+  const best = new Map<string, LeaderboardEntry>();
+  for (const entry of entries) {
+    const key = entry.playerName.toLowerCase();
+    const current = best.get(key);
+    if (!current || compareEntries(entry, current) < 0) best.set(key, entry);
+  }
+  return [...best.values()].sort(compareEntries);
+};
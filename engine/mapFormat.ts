@@ -0,0 +1,324 @@
+import { BoardSize, ColorType, CubeFaces, Tile } from '../types';
+import { ALL_COLORS, INITIAL_CUBE_FACES, MAX_BOARD_DIMENSION, MIN_BOARD_DIMENSION } from '../constants';
+import { DIFFICULTIES, Difficulty } from './difficulty';
+import { countTargets } from './gameEngine';
+import { findStartPosition, getBoardSize } from './generator';
+import { MessageParams } from './i18n';
+import { decodeTile, encodeTile } from './tiles';
+
+// --- MAP FILE FORMAT ---
+// Version 2 document; tiles are stored as the tokens from engine/tiles.
+// Version 1 only knew color tokens, which version 2 reads unchanged. Files
+// saved before versioning were a bare color grid with the start tile marked
+// GRAY; parseMapDocument migrates both.
+
+export const MAP_FORMAT_VERSION = 2;
+const SUPPORTED_VERSIONS: unknown[] = [1, MAP_FORMAT_VERSION];
+
+export interface MapDocument {
+  version: typeof MAP_FORMAT_VERSION;
+  title: string;
+  author: string;
+  size: BoardSize;
+  start: [number, number];
+  cubeFaces: CubeFaces;
+  tiles: Tile[][];
+  par: number | null;
+  seed?: string;
+  // Set by the rated generator.
+  difficulty?: Difficulty;
+}
+
+export type MapErrorCode =
+  | 'invalid_json'
+  | 'not_object'
+  | 'unsupported_version'
+  | 'invalid_type'
+  | 'out_of_range'
+  | 'ragged_rows'
+  | 'unknown_color'
+  | 'unknown_tile'
+  | 'no_targets'
+  | 'missing_start_tile'
+  | 'duplicate_face_color'
+  | 'invalid_share_code'
+  | 'checksum_mismatch';
+
+// What exactly is wrong; the UI shows the catalog's mapError.<detail> message,
+// filled in with params, in the player's language.
+export type MapErrorDetail =
+  | 'invalidJson'
+  | 'notMap'
+  | 'unsupportedVersion'
+  | 'fieldNotText'
+  | 'unknownDifficulty'
+  | 'invalidPar'
+  | 'invalidSize'
+  | 'dimensionRange'
+  | 'tilesNotList'
+  | 'rowCount'
+  | 'rowRange'
+  | 'rowNotList'
+  | 'columnCount'
+  | 'columnRange'
+  | 'unknownTile'
+  | 'noTargets'
+  | 'startNotPosition'
+  | 'startOutOfBoard'
+  | 'startNotGray'
+  | 'facesNotObject'
+  | 'unknownFaceColor'
+  | 'duplicateFaceColor'
+  | 'shareCodeCharacters'
+  | 'shareCodeIncomplete'
+  | 'shareCodeChecksum'
+  | 'shareCodeVersion'
+  | 'shareCodeTileCount'
+  | 'notReplay'
+  | 'replayVersion'
+  | 'replayStepsNotList'
+  | 'replayInvalidStep'
+  | 'campaignPack'
+  | 'campaignLevelShape'
+  | 'campaignLevelPar'
+  | 'notSubmission'
+  | 'missingPlayerName'
+  | 'missingMapHash'
+  | 'invalidMoveCount'
+  | 'replayWrongBoard'
+  | 'replayNotCleared'
+  | 'replayMoveMismatch';
+
+export interface MapValidationError {
+  field: string;
+  code: MapErrorCode;
+  detail: MapErrorDetail;
+  params?: MessageParams;
+}
+
+// map is null whenever errors is non-empty.
+export interface MapParseResult {
+  map: MapDocument | null;
+  errors: MapValidationError[];
+  migrated: boolean;
+}
+
+export const createMapError = (
+  field: string,
+  code: MapErrorCode,
+  detail: MapErrorDetail,
+  params?: MessageParams
+): MapValidationError => ({
+  field,
+  code,
+  detail,
+  ...(params ? { params } : {})
+});
+
+const failed = (errors: MapValidationError[]): MapParseResult => ({ map: null, errors, migrated: false });
+
+const FACE_KEYS: (keyof CubeFaces)[] = ['top', 'bottom', 'front', 'back', 'left', 'right'];
+
+export const createMapDocument = (
+  tiles: Tile[][],
+  fields: Partial<Omit<MapDocument, 'version' | 'tiles' | 'size'>> = {}
+): MapDocument => ({
+  version: MAP_FORMAT_VERSION,
+  title: fields.title ?? '',
+  author: fields.author ?? '',
+  size: getBoardSize(tiles),
+  start: fields.start ?? findStartPosition(tiles),
+  cubeFaces: fields.cubeFaces ?? { ...INITIAL_CUBE_FACES },
+  tiles,
+  par: fields.par ?? null,
+  ...(fields.seed !== undefined ? { seed: fields.seed } : {}),
+  ...(fields.difficulty !== undefined ? { difficulty: fields.difficulty } : {})
+});
+
+// The JSON shape of a document, with tiles as tokens.
+export const toMapJson = (map: MapDocument) => ({
+  ...map,
+  tiles: map.tiles.map(row => row.map(encodeTile))
+});
+
+export const serializeMapDocument = (map: MapDocument) => JSON.stringify(toMapJson(map), null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDimension = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= MIN_BOARD_DIMENSION && (value as number) <= MAX_BOARD_DIMENSION;
+
+const normalizeColor = (value: unknown): ColorType | null =>
+  typeof value === 'string' && ALL_COLORS.includes(value.toLowerCase() as ColorType)
+    ? (value.toLowerCase() as ColorType)
+    : null;
+
+// Checks tiles against the expected size and decodes their tokens.
+const validateTiles = (
+  value: unknown,
+  size: BoardSize | null,
+  errors: MapValidationError[]
+): Tile[][] | null => {
+  const fail = (field: string, code: MapErrorCode, detail: MapErrorDetail, params?: MessageParams) => {
+    errors.push(createMapError(field, code, detail, params));
+    return null;
+  };
+  if (!Array.isArray(value)) return fail('tiles', 'invalid_type', 'tilesNotList');
+  if (size && value.length !== size.height) {
+    return fail('tiles', 'out_of_range', 'rowCount', { expected: size.height, actual: value.length });
+  }
+  if (!isDimension(value.length)) {
+    return fail('tiles', 'out_of_range', 'rowRange', { min: MIN_BOARD_DIMENSION, max: MAX_BOARD_DIMENSION });
+  }
+  const width = size?.width ?? (Array.isArray(value[0]) ? value[0].length : 0);
+  const errorCount = errors.length;
+  const tiles = value.map((row, y) => {
+    if (!Array.isArray(row)) return fail(`tiles[${y}]`, 'invalid_type', 'rowNotList');
+    if (row.length !== width) {
+      return fail(`tiles[${y}]`, 'ragged_rows', 'columnCount', { expected: width, actual: row.length });
+    }
+    return row.map((token, x) => {
+      const tile = decodeTile(token);
+      if (!tile) fail(`tiles[${y}][${x}]`, 'unknown_tile', 'unknownTile', { value: JSON.stringify(token) });
+      return tile;
+    });
+  });
+  if (!size && !isDimension(width)) {
+    fail('tiles', 'out_of_range', 'columnRange', { min: MIN_BOARD_DIMENSION, max: MAX_BOARD_DIMENSION });
+  }
+  if (errors.length > errorCount) return null;
+  // A board with nothing to match has no game to play: the engine would only
+  // call it won after a roll, while the solver reports zero moves.
+  if (countTargets(tiles as Tile[][]) === 0) return fail('tiles', 'no_targets', 'noTargets');
+  return tiles as Tile[][];
+};
+
+const validateStart = (value: unknown, tiles: Tile[][], errors: MapValidationError[]): [number, number] | null => {
+  if (!Array.isArray(value) || value.length !== 2 || !value.every(Number.isInteger)) {
+    errors.push(createMapError('start', 'invalid_type', 'startNotPosition'));
+    return null;
+  }
+  const [x, y] = value as [number, number];
+  if (y < 0 || y >= tiles.length || x < 0 || x >= tiles[0].length) {
+    errors.push(createMapError('start', 'out_of_range', 'startOutOfBoard', { x, y }));
+    return null;
+  }
+  if (tiles[y][x].kind !== 'start') {
+    errors.push(createMapError('start', 'missing_start_tile', 'startNotGray', { x, y, color: ColorType.GRAY }));
+    return null;
+  }
+  return [x, y];
+};
+
+const validateFaces = (value: unknown, errors: MapValidationError[]): CubeFaces | null => {
+  if (!isRecord(value)) {
+    errors.push(createMapError('cubeFaces', 'invalid_type', 'facesNotObject'));
+    return null;
+  }
+  const errorCount = errors.length;
+  const faces = {} as CubeFaces;
+  for (const key of FACE_KEYS) {
+    const color = normalizeColor(value[key]);
+    if (!color) {
+      errors.push(
+        createMapError(`cubeFaces.${key}`, 'unknown_color', 'unknownFaceColor', { value: JSON.stringify(value[key]) })
+      );
+      continue;
+    }
+    if (Object.values(faces).includes(color)) {
+      errors.push(createMapError(`cubeFaces.${key}`, 'duplicate_face_color', 'duplicateFaceColor'));
+    }
+    faces[key] = color;
+  }
+  return errors.length === errorCount ? faces : null;
+};
+
+const parseLegacyGrid = (raw: unknown[]): MapParseResult => {
+  const errors: MapValidationError[] = [];
+  const tiles = validateTiles(raw, null, errors);
+  if (!tiles) return failed(errors);
+  const start = findStartPosition(tiles);
+  if (!validateStart(start, tiles, errors)) return failed(errors);
+  return { map: createMapDocument(tiles, { start }), errors: [], migrated: true };
+};
+
+export const parseMapDocument = (raw: unknown): MapParseResult => {
+  if (Array.isArray(raw)) return parseLegacyGrid(raw);
+  if (!isRecord(raw)) {
+    return failed([createMapError('', 'not_object', 'notMap')]);
+  }
+  if (!SUPPORTED_VERSIONS.includes(raw.version)) {
+    return failed([
+      createMapError('version', 'unsupported_version', 'unsupportedVersion', { version: JSON.stringify(raw.version) })
+    ]);
+  }
+
+  const errors: MapValidationError[] = [];
+  const optionalString = (field: 'title' | 'author' | 'seed') => {
+    const value = raw[field];
+    if (value === undefined) return undefined;
+    if (typeof value === 'string') return value;
+    errors.push(createMapError(field, 'invalid_type', 'fieldNotText', { field }));
+    return undefined;
+  };
+  const title = optionalString('title');
+  const author = optionalString('author');
+  const seed = optionalString('seed');
+
+  let difficulty: Difficulty | undefined;
+  if (raw.difficulty !== undefined) {
+    if (DIFFICULTIES.includes(raw.difficulty as Difficulty)) difficulty = raw.difficulty as Difficulty;
+    else {
+      errors.push(
+        createMapError('difficulty', 'invalid_type', 'unknownDifficulty', { value: JSON.stringify(raw.difficulty) })
+      );
+    }
+  }
+
+  let par: number | null = null;
+  if (raw.par !== undefined && raw.par !== null) {
+    if (Number.isInteger(raw.par) && (raw.par as number) > 0) par = raw.par as number;
+    else errors.push(createMapError('par', 'invalid_type', 'invalidPar'));
+  }
+
+  let size: BoardSize | null = null;
+  if (!isRecord(raw.size)) {
+    errors.push(createMapError('size', 'invalid_type', 'invalidSize'));
+  } else {
+    for (const key of ['width', 'height'] as const) {
+      if (!isDimension(raw.size[key])) {
+        errors.push(
+          createMapError(`size.${key}`, 'out_of_range', 'dimensionRange', {
+            min: MIN_BOARD_DIMENSION,
+            max: MAX_BOARD_DIMENSION
+          })
+        );
+      }
+    }
+    if (isDimension(raw.size.width) && isDimension(raw.size.height)) {
+      size = { width: raw.size.width, height: raw.size.height };
+    }
+  }
+
+  const tiles = size ? validateTiles(raw.tiles, size, errors) : null;
+  const start = tiles ? validateStart(raw.start, tiles, errors) : null;
+  const cubeFaces = validateFaces(raw.cubeFaces, errors);
+
+  if (errors.length > 0 || !tiles || !start || !cubeFaces) return failed(errors);
+  return {
+    map: createMapDocument(tiles, { title, author, start, cubeFaces, par, seed, difficulty }),
+    errors: [],
+    migrated: raw.version !== MAP_FORMAT_VERSION
+  };
+};
+
+export const parseMapFile = (text: string): MapParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return failed([createMapError('', 'invalid_json', 'invalidJson')]);
+  }
+  return parseMapDocument(raw);
+};
@@ -0,0 +1,164 @@
+import { BoardSize, CubeFaces, Direction, GameStatus } from '../types';
+import { DEFAULT_BOARD_SIZE } from '../constants';
+import { DIRECTIONS, EngineState, applyMoves, countTargets, createEngineState } from './gameEngine';
+import { clampBoardSize, generateGrid } from './generator';
+import { DEFAULT_LOCALE, Locale, translate } from './i18n';
+import { normalizePlayerName } from './leaderboard';
+import { MapDocument, createMapDocument } from './mapFormat';
+import { hashSeed } from './random';
+
+// --- ONLINE RACE ---
+// Shared by the client and the relay server (server/raceServer.ts). Both
+// players get the same seeded board and race to clear it. The server replays
+// every move through the engine: it owns the truth, answers a state hash that
+// disagrees with a 'desync' carrying the accepted moves, and decides the winner.
+//
+// Client → server: lobby (create, join or resume a seat), ready, move,
+// stateHash (after each move), finished (when the client sees its board cleared).
+// Server → client: lobby (room updates), start, move (the opponent's),
+// desync, finished (the result) and error.
+
+export const RACE_PROTOCOL_VERSION = 1;
+export const DEFAULT_RACE_PORT = 8788;
+// How long a dropped player's seat is kept before the race is forfeited.
+export const RACE_RECONNECT_GRACE_MS = 30000;
+export const RACE_ROOM_CODE_LENGTH = 5;
+
+export type RaceSeat = 0 | 1;
+export type RacePhase = 'lobby' | 'racing' | 'finished';
+export type RaceEndReason = 'cleared' | 'fell' | 'abandoned';
+// Why the server turned a message down; clients show race.error.<code>.
+export type RaceErrorCode =
+  | 'alreadySeated'
+  | 'roomNotFound'
+  | 'roomFull'
+  | 'raceStarted'
+  | 'notSeated'
+  | 'invalidMessage';
+
+// What everyone in the room may see of a player.
+export interface RacePlayerView {
+  seat: RaceSeat;
+  name: string;
+  ready: boolean;
+  connected: boolean;
+  moves: number;
+  // Tiles left to clear.
+  remaining: number;
+  cubePosition: [number, number];
+  cubeFaces: CubeFaces;
+  status: GameStatus;
+}
+
+export interface RaceRoomView {
+  code: string;
+  phase: RacePhase;
+  // Null until the first race starts.
+  seed: string | null;
+  size: BoardSize;
+  players: RacePlayerView[];
+  // Null while racing, or when the race ended without a winner.
+  winner: RaceSeat | null;
+  endReason: RaceEndReason | null;
+}
+
+export type RaceClientMessage =
+  // room null creates a room; token resumes a seat after a reconnect.
+  | { type: 'lobby'; room: string | null; playerName: string; token: string | null; size?: BoardSize }
+  | { type: 'ready'; ready: boolean }
+  // index is the number of moves made before this one.
+  | { type: 'move'; index: number; direction: Direction }
+  | { type: 'stateHash'; moves: number; hash: string }
+  | { type: 'finished'; moves: number; hash: string };
+
+export type RaceServerMessage =
+  | { type: 'lobby'; version: number; token: string; seat: RaceSeat; room: RaceRoomView }
+  // moves is non-empty when resuming a race in progress.
+  | { type: 'start'; seed: string; size: BoardSize; moves: Direction[] }
+  | { type: 'move'; seat: RaceSeat; direction: Direction; player: RacePlayerView }
+  // The moves the server accepted; the client rebuilds its board from them.
+  | { type: 'desync'; moves: Direction[] }
+  | { type: 'finished'; room: RaceRoomView }
+  | { type: 'error'; code: RaceErrorCode };
+
+export const normalizeRoomCode = (code: string) => code.trim().toUpperCase();
+
+export const createRaceMap = (
+  seed: string,
+  size: BoardSize = DEFAULT_BOARD_SIZE,
+  locale: Locale = DEFAULT_LOCALE
+): MapDocument =>
+  createMapDocument(generateGrid(clampBoardSize(size), seed), {
+    title: translate(locale, 'race.mapTitle', { seed }),
+    seed
+  });
+
+export const createRaceState = (map: MapDocument): EngineState =>
+  createEngineState(map.tiles, map.start, map.cubeFaces);
+
+export const replayRaceMoves = (map: MapDocument, moves: Direction[]): EngineState =>
+  applyMoves(createRaceState(map), moves).state;
+
+// Covers everything a move can change, so equal hashes mean equal boards.
+export const hashRaceState = ({ grid, cubePosition, cubeFaces, moves, status }: EngineState): string =>
+  hashSeed(JSON.stringify([grid, cubePosition, cubeFaces, moves, status])).toString(16).padStart(8, '0');
+
+export const toRacePlayerView = (
+  seat: RaceSeat,
+  name: string,
+  ready: boolean,
+  connected: boolean,
+  state: EngineState
+): RacePlayerView => ({
+  seat,
+  name,
+  ready,
+  connected,
+  moves: state.moves,
+  remaining: countTargets(state.grid),
+  cubePosition: state.cubePosition,
+  cubeFaces: state.cubeFaces,
+  status: state.status
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const parseSize = (value: unknown): BoardSize | undefined =>
+  isRecord(value) && isCount(value.width) && isCount(value.height)
+    ? clampBoardSize({ width: value.width, height: value.height })
+    : undefined;
+
+// Null for anything that is not a well-formed client message.
+export const parseRaceClientMessage = (text: string): RaceClientMessage | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return null;
+  }
+  if (!isRecord(raw)) return null;
+  switch (raw.type) {
+    case 'lobby': {
+      if (typeof raw.playerName !== 'string' || !normalizePlayerName(raw.playerName)) return null;
+      const room = typeof raw.room === 'string' ? normalizeRoomCode(raw.room) : null;
+      const token = typeof raw.token === 'string' ? raw.token : null;
+      return { type: 'lobby', room, playerName: normalizePlayerName(raw.playerName), token, size: parseSize(raw.size) };
+    }
+    case 'ready':
+      return typeof raw.ready === 'boolean' ? { type: 'ready', ready: raw.ready } : null;
+    case 'move':
+      return isCount(raw.index) && DIRECTIONS.includes(raw.direction as Direction)
+        ? { type: 'move', index: raw.index, direction: raw.direction as Direction }
+        : null;
+    case 'stateHash':
+    case 'finished':
+      return isCount(raw.moves) && typeof raw.hash === 'string'
+        ? { type: raw.type, moves: raw.moves, hash: raw.hash }
+        : null;
+    default:
+      return null;
+  }
+};
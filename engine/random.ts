@@ -0,0 +1,41 @@
+// --- SEEDED RANDOMNESS ---
+// Integer-only math (Math.imul, shifts), so a seed yields the same sequence in
+// every JavaScript engine.
+
+export type Rng = () => number;
+
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+// cyrb53-style string hash folded to 32 bits.
+export const hashSeed = (seed: string): number => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const ch = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+};
+
+// mulberry32: returns floats in [0, 1).
+export const createRng = (seed: string): Rng => {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Short, unambiguous seeds (no 0/o/1/l) that are easy to read out and type.
+export const createRandomSeed = (length = 8): string => {
+  let seed = '';
+  for (let i = 0; i < length; i++) seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  return seed;
+};
+
+export const normalizeSeed = (seed: string) => seed.trim().toLowerCase();
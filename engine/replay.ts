@@ -0,0 +1,166 @@
+import { Direction } from '../types';
+import { DIRECTIONS, EngineState, applyMove, createEngineState } from './gameEngine';
+import { EMPTY_HISTORY, MoveHistory, recordMove, undoMove } from './history';
+import { MapDocument, MapErrorDetail, MapValidationError, createMapError, parseMapDocument, toMapJson } from './mapFormat';
+import { MessageParams } from './i18n';
+
+// --- REPLAYS ---
+// A replay is the starting map plus every input with its time offset. Frames
+// are rebuilt by running the inputs through the engine, so a replay can never
+// disagree with the rules that produced it.
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+// Spacing of the synthetic timestamps in a solver replay.
+export const AI_REPLAY_STEP_MS = 600;
+
+export type ReplayInput = Direction | 'undo';
+export type ReplaySource = 'player' | 'ai';
+
+export interface ReplayStep {
+  // Milliseconds since the game started.
+  at: number;
+  input: ReplayInput;
+  source: ReplaySource;
+}
+
+export interface Replay {
+  version: typeof REPLAY_FORMAT_VERSION;
+  map: MapDocument;
+  undoPenalty: boolean;
+  steps: ReplayStep[];
+  recordedAt: string;
+}
+
+// The roll that leads into a frame; reversed rolls come from undo.
+export interface ReplayRoll {
+  direction: Direction;
+  reversed: boolean;
+}
+
+export interface ReplayFrame {
+  state: EngineState;
+  roll: ReplayRoll | null;
+}
+
+// replay is null whenever errors is non-empty.
+export interface ReplayParseResult {
+  replay: Replay | null;
+  errors: MapValidationError[];
+}
+
+export const createReplay = (map: MapDocument, steps: ReplayStep[], undoPenalty = false): Replay => ({
+  version: REPLAY_FORMAT_VERSION,
+  map,
+  undoPenalty,
+  steps,
+  recordedAt: new Date().toISOString()
+});
+
+export const createSolutionReplay = (map: MapDocument, path: Direction[]): Replay =>
+  createReplay(
+    map,
+    path.map((input, i) => ({ at: i * AI_REPLAY_STEP_MS, input, source: 'ai' }))
+  );
+
+// Frame 0 is the starting position; frame i is the state after step i - 1.
+export const buildReplayFrames = (replay: Replay): ReplayFrame[] => {
+  const { map } = replay;
+  let state = createEngineState(map.tiles, map.start, map.cubeFaces);
+  let history: MoveHistory = EMPTY_HISTORY;
+  const frames: ReplayFrame[] = [{ state, roll: null }];
+
+  for (const step of replay.steps) {
+    if (step.input === 'undo') {
+      const undone = undoMove(state, history, replay.undoPenalty);
+      if (!undone) {
+        frames.push({ state, roll: null });
+        continue;
+      }
+      // Undoing a fall restores the cube where it already stands.
+      const roll = state.status === 'lost' ? null : { direction: undone.entry.direction, reversed: true };
+      state = undone.state;
+      history = undone.history;
+      frames.push({ state, roll });
+      continue;
+    }
+    if (state.status !== 'playing') {
+      frames.push({ state, roll: null });
+      continue;
+    }
+    const before = state;
+    state = applyMove(state, step.input).state;
+    history = recordMove(history, before, step.input);
+    frames.push({ state, roll: { direction: step.input, reversed: false } });
+  }
+  return frames;
+};
+
+// The embedded map uses the same tile tokens as a map file.
+export const serializeReplay = (replay: Replay) =>
+  JSON.stringify({ ...replay, map: toMapJson(replay.map) }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const REPLAY_INPUTS = new Set<unknown>([...DIRECTIONS, 'undo']);
+
+export const parseReplayDocument = (raw: unknown): ReplayParseResult => {
+  const fail = (
+    field: string,
+    code: MapValidationError['code'],
+    detail: MapErrorDetail,
+    params?: MessageParams
+  ): ReplayParseResult => ({
+    replay: null,
+    errors: [createMapError(field, code, detail, params)]
+  });
+  if (!isRecord(raw)) return fail('', 'not_object', 'notReplay');
+  if (raw.version !== REPLAY_FORMAT_VERSION) {
+    return fail('version', 'unsupported_version', 'replayVersion', { version: JSON.stringify(raw.version) });
+  }
+
+  const mapResult = parseMapDocument(raw.map);
+  const errors = mapResult.errors.map(error => ({
+    ...error,
+    field: error.field ? `map.${error.field}` : 'map'
+  }));
+
+  if (!Array.isArray(raw.steps)) {
+    errors.push(createMapError('steps', 'invalid_type', 'replayStepsNotList'));
+  } else {
+    raw.steps.forEach((step, i) => {
+      const valid =
+        isRecord(step) &&
+        typeof step.at === 'number' &&
+        step.at >= 0 &&
+        REPLAY_INPUTS.has(step.input) &&
+        (step.source === 'player' || step.source === 'ai');
+      if (!valid) {
+        errors.push(createMapError(`steps[${i}]`, 'invalid_type', 'replayInvalidStep'));
+      }
+    });
+  }
+
+  if (errors.length > 0 || !mapResult.map) return { replay: null, errors };
+  return {
+    replay: {
+      version: REPLAY_FORMAT_VERSION,
+      map: mapResult.map,
+      undoPenalty: raw.undoPenalty === true,
+      steps: (raw.steps as ReplayStep[]).map(({ at, input, source }) => ({ at, input, source })),
+      recordedAt: typeof raw.recordedAt === 'string' ? raw.recordedAt : ''
+    },
+    errors: []
+  };
+};
+
+export const parseReplayFile = (text: string): ReplayParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return { replay: null, errors: [createMapError('', 'invalid_json', 'invalidJson')] };
+  }
+  return parseReplayDocument(raw);
+};
@@ -0,0 +1,10 @@
+// --- SCORING ---
+// Efficiency is the solver's move count as a percentage of the player's,
+// minus a flat charge for every hint taken.
+
+export const HINT_EFFICIENCY_PENALTY = 5;
+
+export const computeEfficiency = (optimalMoves: number | null, moves: number, hintsUsed = 0): number => {
+  const base = moves > 0 && optimalMoves !== null ? Math.min(100, Math.round((optimalMoves / moves) * 100)) : 100;
+  return Math.max(0, base - hintsUsed * HINT_EFFICIENCY_PENALTY);
+};
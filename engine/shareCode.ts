@@ -0,0 +1,143 @@
+import { BoardSize, ColorType, CubeFaces } from '../types';
+import { ALL_COLORS } from '../constants';
+import { encodeTile } from './tiles';
+import {
+  MapDocument,
+  MapErrorDetail,
+  MapParseResult,
+  MapValidationError,
+  MAP_FORMAT_VERSION,
+  createMapError,
+  parseMapDocument
+} from './mapFormat';
+import { MessageParams } from './i18n';
+
+// --- SHARE CODES ---
+// A board as one URL-safe string: every value is a single base64url digit.
+//   [version][width][height][startX][startY][6 faces][width*height tiles][2-digit checksum]
+// Title, author, par and seed are not part of the code.
+
+const SHARE_CODE_VERSION = 1;
+const DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const FACE_KEYS: (keyof CubeFaces)[] = ['top', 'bottom', 'front', 'back', 'left', 'right'];
+const HEADER_LENGTH = 5 + FACE_KEYS.length;
+const CHECKSUM_LENGTH = 2;
+
+// Palette of tile tokens. Order is part of the format: append new entries, never reorder.
+const TILE_PALETTE: string[] = [
+  ...ALL_COLORS,
+  ColorType.GRAY,
+  ColorType.BLACK,
+  ColorType.MAGENTA,
+  'wall',
+  'hole',
+  'arrow-up',
+  'arrow-down',
+  'arrow-left',
+  'arrow-right',
+  ...ALL_COLORS.map(color => `paint-${color}`)
+];
+
+// Fletcher-style sum, so swapped digits change the result too.
+const checksum = (values: number[]): number[] => {
+  let a = 0;
+  let b = 0;
+  for (const v of values) {
+    a = (a + v + 1) % 64;
+    b = (b + a) % 64;
+  }
+  return [a, b];
+};
+
+export const encodeShareCode = (map: MapDocument): string => {
+  const values = [
+    SHARE_CODE_VERSION,
+    map.size.width,
+    map.size.height,
+    map.start[0],
+    map.start[1],
+    ...FACE_KEYS.map(key => TILE_PALETTE.indexOf(map.cubeFaces[key])),
+    ...map.tiles.flat().map(tile => TILE_PALETTE.indexOf(encodeTile(tile)))
+  ];
+  return [...values, ...checksum(values)].map(v => DIGITS[v]).join('');
+};
+
+const codeError = (
+  code: MapValidationError['code'],
+  detail: MapErrorDetail,
+  params?: MessageParams
+): MapParseResult => ({
+  map: null,
+  errors: [createMapError('code', code, detail, params)],
+  migrated: false
+});
+
+// Decodes and then runs the regular map validation on the result.
+export const decodeShareCode = (input: string): MapParseResult => {
+  const text = input.trim();
+  const values = [...text].map(ch => DIGITS.indexOf(ch));
+  if (text.length === 0 || values.includes(-1)) {
+    return codeError('invalid_share_code', 'shareCodeCharacters');
+  }
+  if (values.length < HEADER_LENGTH + CHECKSUM_LENGTH) {
+    return codeError('invalid_share_code', 'shareCodeIncomplete');
+  }
+  const body = values.slice(0, -CHECKSUM_LENGTH);
+  const [a, b] = checksum(body);
+  if (values[values.length - 2] !== a || values[values.length - 1] !== b) {
+    return codeError('checksum_mismatch', 'shareCodeChecksum');
+  }
+  if (body[0] !== SHARE_CODE_VERSION) {
+    return codeError('unsupported_version', 'shareCodeVersion', { version: body[0] });
+  }
+
+  const [, width, height, startX, startY] = body;
+  const tiles = body.slice(HEADER_LENGTH);
+  if (tiles.length !== width * height) {
+    return codeError('invalid_share_code', 'shareCodeTileCount', { expected: width * height, actual: tiles.length });
+  }
+  const paletteToken = (index: number) => TILE_PALETTE[index] ?? `#${index}`;
+  const cubeFaces = Object.fromEntries(
+    FACE_KEYS.map((key, i) => [key, paletteToken(body[5 + i])])
+  );
+  const rows: string[][] = [];
+  for (let y = 0; y < height; y++) rows.push(tiles.slice(y * width, (y + 1) * width).map(paletteToken));
+
+  return parseMapDocument({
+    version: MAP_FORMAT_VERSION,
+    size: { width, height },
+    start: [startX, startY],
+    cubeFaces,
+    tiles: rows
+  });
+};
+
+// --- LAUNCH LINKS ---
+
+export interface LaunchParams {
+  board?: string;
+  seed?: string;
+  size?: BoardSize;
+}
+
+// Reads ?board=, ?seed= and ?size=WxH from the query string or the hash.
+export const parseLaunchParams = (search: string, hash: string): LaunchParams => {
+  const params = new URLSearchParams(search);
+  new URLSearchParams(hash.replace(/^#/, '')).forEach((value, key) => {
+    if (!params.has(key)) params.set(key, value);
+  });
+  const size = params.get('size')?.match(/^(\d+)x(\d+)$/i);
+  return {
+    board: params.get('board') ?? undefined,
+    seed: params.get('seed') ?? undefined,
+    size: size ? { width: Number(size[1]), height: Number(size[2]) } : undefined
+  };
+};
+
+export const buildShareUrl = (baseUrl: string, map: MapDocument): string => {
+  const url = new URL(baseUrl);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set('board', encodeShareCode(map));
+  return url.toString();
+};
@@ -0,0 +1,555 @@
+import { ColorType, CubeFaces, Direction, Tile } from '../types';
+import {
+  DIRECTIONS,
+  EngineState,
+  applyMoves,
+  getOrientationKey,
+  isInBounds,
+  resolveStep,
+  rotateOrientation,
+  stepPosition
+} from './gameEngine';
+import { isMatchableTile, isSameTile, paintFaces, tileMatches } from './tiles';
+
+// --- SOLVERS ---
+// Greedy: repeatedly walk to the nearest matchable tile (fast, not optimal).
+// Exact: A* over (position, orientation, cleared tiles) with an admissible
+// heuristic, seeded by a beam search and bounded by a node/time budget. When
+// the budget runs out the result is only the best path known so far, plus a
+// proven lower bound.
+
+export interface SolverOptions {
+  maxNodes?: number;
+  timeLimitMs?: number;
+  beamWidth?: number;
+}
+
+export type SolveStatus = 'optimal' | 'bounded' | 'unsolvable';
+
+export interface SolveResult {
+  status: SolveStatus;
+  path: Direction[] | null;
+  moves: number;
+  lowerBound: number;
+  expandedNodes: number;
+}
+
+export interface SolveProgress {
+  expandedNodes: number;
+  lowerBound: number;
+  bestPath: Direction[] | null;
+}
+
+const PROGRESS_INTERVAL = 250;
+
+export const DEFAULT_SOLVER_OPTIONS: Required<SolverOptions> = {
+  maxNodes: 20000,
+  timeLimitMs: 1000,
+  beamWidth: 64
+};
+
+const cellKey = (x: number, y: number, faces: CubeFaces) => `${x},${y},${getOrientationKey(faces)}`;
+
+// BFS to the closest tile the cube can currently clear, never through a
+// blocked or falling roll.
+export const findNearestMatchPath = (
+  grid: Tile[][],
+  start: [number, number],
+  startFaces: CubeFaces
+): Direction[] | null => {
+  interface Node { x: number; y: number; faces: CubeFaces; path: Direction[]; }
+  const queue: Node[] = [{ x: start[0], y: start[1], faces: startFaces, path: [] }];
+  const visited = new Set<string>([cellKey(start[0], start[1], startFaces)]);
+
+  for (let i = 0; i < queue.length; i++) {
+    const curr = queue[i];
+    if (curr.path.length > 0 && tileMatches(grid[curr.y][curr.x], curr.faces.bottom)) {
+      return curr.path;
+    }
+    for (const dir of DIRECTIONS) {
+      if (resolveStep(grid, [curr.x, curr.y], dir) !== 'move') continue;
+      const [nx, ny] = stepPosition([curr.x, curr.y], dir);
+      const nextFaces = paintFaces(rotateOrientation(curr.faces, dir), grid[ny][nx]);
+      const key = cellKey(nx, ny, nextFaces);
+      if (!visited.has(key)) {
+        visited.add(key);
+        queue.push({ x: nx, y: ny, faces: nextFaces, path: [...curr.path, dir] });
+      }
+    }
+  }
+  return null;
+};
+
+// Plays nearest-match paths until the board is cleared or no tile is reachable.
+export const solveGreedy = (state: EngineState): { path: Direction[]; solved: boolean } => {
+  let current = state;
+  const path: Direction[] = [];
+  while (current.status === 'playing') {
+    const segment = findNearestMatchPath(current.grid, current.cubePosition, current.cubeFaces);
+    if (!segment) break;
+    path.push(...segment);
+    current = applyMoves(current, segment).state;
+  }
+  return { path, solved: current.status === 'won' };
+};
+
+// --- EXACT SOLVER ---
+// States are packed into integers (cell * orientations + orientation) so the
+// inner loops avoid string keys; only the cleared-tile mask stays a bigint.
+
+interface SearchSpace {
+  width: number;
+  cellCount: number;
+  orientations: CubeFaces[];
+  // Landing kinds: 0 for a plain tile, 1 + k for the k-th paint color on the board.
+  landingKinds: number;
+  // landing[c]: landing kind of cell c
+  landing: Int32Array;
+  // turn[(o * 4 + d) * landingKinds + l]: orientation after rolling orientation o
+  // in DIRECTIONS[d] onto a tile of landing kind l
+  turn: Int32Array;
+  // Reverse of turn, one list per (d, l) pair: the orientations that turn into o
+  // are unturnList[unturnStart[t * (O + 1) + o] .. unturnStart[t * (O + 1) + o + 1]],
+  // with t = d * landingKinds + l. Paint merges orientations, so there can be several.
+  unturnStart: Int32Array;
+  unturnList: Int32Array;
+  // next[c * 4 + d]: cell after rolling from cell c in DIRECTIONS[d], or -1 when
+  // the roll falls or is blocked
+  next: Int32Array;
+  // prev[c * 4 + d]: cell whose roll in DIRECTIONS[d] lands on c, or -1
+  prev: Int32Array;
+}
+
+const buildSearchSpace = (grid: Tile[][], faces: CubeFaces): SearchSpace => {
+  const paints: Tile[] = [];
+  grid.forEach(row =>
+    row.forEach(tile => {
+      if (tile.kind === 'paint' && !paints.some(p => isSameTile(p, tile))) paints.push(tile);
+    })
+  );
+  const landingKinds = paints.length + 1;
+  const D = DIRECTIONS.length;
+
+  const orientations = [faces];
+  const index = new Map([[getOrientationKey(faces), 0]]);
+  const turnList: number[] = [];
+  for (let o = 0; o < orientations.length; o++) {
+    for (const dir of DIRECTIONS) {
+      const rotated = rotateOrientation(orientations[o], dir);
+      for (let l = 0; l < landingKinds; l++) {
+        const landed = l === 0 ? rotated : paintFaces(rotated, paints[l - 1]);
+        const key = getOrientationKey(landed);
+        if (!index.has(key)) {
+          index.set(key, orientations.length);
+          orientations.push(landed);
+        }
+        turnList.push(index.get(key)!);
+      }
+    }
+  }
+  const O = orientations.length;
+  const turn = Int32Array.from(turnList);
+
+  const transitions = D * landingKinds;
+  const unturnStart = new Int32Array(transitions * (O + 1));
+  const unturnList = new Int32Array(turn.length);
+  turn.forEach((to, i) => {
+    const t = i % transitions;
+    unturnStart[t * (O + 1) + to + 1]++;
+  });
+  for (let t = 0, offset = 0; t < transitions; t++) {
+    for (let o = 0; o <= O; o++) {
+      offset += unturnStart[t * (O + 1) + o];
+      unturnStart[t * (O + 1) + o] = offset;
+    }
+  }
+  const fill = unturnStart.slice();
+  turn.forEach((to, i) => {
+    const t = i % transitions;
+    unturnList[fill[t * (O + 1) + to]++] = Math.floor(i / transitions);
+  });
+
+  const width = Math.max(...grid.map(row => row.length));
+  const cellCount = width * grid.length;
+  const landing = new Int32Array(cellCount);
+  const next = new Int32Array(cellCount * D).fill(-1);
+  const prev = new Int32Array(cellCount * D).fill(-1);
+  for (let c = 0; c < cellCount; c++) {
+    const from: [number, number] = [c % width, Math.floor(c / width)];
+    if (!isInBounds(grid, from)) continue;
+    const tile = grid[from[1]][from[0]];
+    if (tile.kind === 'paint') landing[c] = 1 + paints.findIndex(p => isSameTile(p, tile));
+    DIRECTIONS.forEach((dir, d) => {
+      if (resolveStep(grid, from, dir) !== 'move') return;
+      const to = stepPosition(from, dir);
+      const nc = to[1] * width + to[0];
+      next[c * D + d] = nc;
+      prev[nc * D + d] = c;
+    });
+  }
+  return { width, cellCount, orientations, landingKinds, landing, turn, unturnStart, unturnList, next, prev };
+};
+
+// Orientation after rolling orientation o in DIRECTIONS[d] onto cell nc.
+const landOrientation = (space: SearchSpace, o: number, d: number, nc: number) =>
+  space.turn[(o * DIRECTIONS.length + d) * space.landingKinds + space.landing[nc]];
+
+interface SearchNode {
+  state: number;
+  mask: bigint;
+  g: number;
+  f: number;
+  parent: SearchNode | null;
+  segment: Direction[];
+}
+
+class NodeHeap {
+  private items: SearchNode[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  peek(): SearchNode | undefined {
+    return this.items[0];
+  }
+
+  // Lower f first; on ties prefer deeper nodes so goals surface sooner.
+  private less(a: SearchNode, b: SearchNode) {
+    return a.f < b.f || (a.f === b.f && a.g > b.g);
+  }
+
+  push(node: SearchNode) {
+    const items = this.items;
+    items.push(node);
+    let i = items.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (!this.less(items[i], items[p])) break;
+      [items[i], items[p]] = [items[p], items[i]];
+      i = p;
+    }
+  }
+
+  pop(): SearchNode | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < items.length && this.less(items[l], items[m])) m = l;
+        if (r < items.length && this.less(items[r], items[m])) m = r;
+        if (m === i) break;
+        [items[i], items[m]] = [items[m], items[i]];
+        i = m;
+      }
+    }
+    return top;
+  }
+}
+
+interface TargetTile {
+  cell: number;
+  // Null for a wildcard, which any face clears.
+  color: ColorType | null;
+  bit: bigint;
+  // Rolls needed from each packed state to land here with this tile's color at
+  // the bottom; indexed by cell alone when the tables are relaxed.
+  distance: Int32Array;
+}
+
+const UNREACHABLE = 0x3fffffff;
+// Largest total size of the per-state distance tables. Paint tiles multiply the
+// orientations (up to 6^6), so past this the tables only keep the distance to
+// the cell and ignore which face lands there. That still never overestimates.
+const MAX_DISTANCE_ENTRIES = 4_000_000;
+
+const clearsTarget = (color: ColorType | null, bottom: ColorType) => color === null || color === bottom;
+
+// A BFS backwards from the goal states gives the exact distance from every
+// state, ignoring the clears that happen along the way. It walks the reverse
+// edges because one-way tiles make some rolls impossible to undo.
+const buildDistanceTable = (space: SearchSpace, cell: number, color: ColorType | null, cellsOnly: boolean) => {
+  if (cellsOnly) return buildCellDistanceTable(space, cell);
+  const O = space.orientations.length;
+  const distance = new Int32Array(space.cellCount * O).fill(UNREACHABLE);
+  const queue: number[] = [];
+  space.orientations.forEach((faces, o) => {
+    if (!clearsTarget(color, faces.bottom)) return;
+    distance[cell * O + o] = 0;
+    queue.push(cell * O + o);
+  });
+  for (let i = 0; i < queue.length; i++) {
+    const s = queue[i];
+    const c = Math.floor(s / O);
+    const o = s % O;
+    for (let d = 0; d < DIRECTIONS.length; d++) {
+      const pc = space.prev[c * DIRECTIONS.length + d];
+      if (pc < 0) continue;
+      const at = (d * space.landingKinds + space.landing[c]) * (O + 1) + o;
+      for (let k = space.unturnStart[at]; k < space.unturnStart[at + 1]; k++) {
+        const ps = pc * O + space.unturnList[k];
+        if (distance[ps] !== UNREACHABLE) continue;
+        distance[ps] = distance[s] + 1;
+        queue.push(ps);
+      }
+    }
+  }
+  return distance;
+};
+
+const buildCellDistanceTable = (space: SearchSpace, cell: number) => {
+  const distance = new Int32Array(space.cellCount).fill(UNREACHABLE);
+  const queue = [cell];
+  distance[cell] = 0;
+  for (let i = 0; i < queue.length; i++) {
+    const c = queue[i];
+    for (let d = 0; d < DIRECTIONS.length; d++) {
+      const pc = space.prev[c * DIRECTIONS.length + d];
+      if (pc < 0 || distance[pc] !== UNREACHABLE) continue;
+      distance[pc] = distance[c] + 1;
+      queue.push(pc);
+    }
+  }
+  return distance;
+};
+
+// Yields progress every PROGRESS_INTERVAL expansions and whenever a shorter
+// path is found, so callers can report it, pause between slices or stop early.
+export function* searchOptimal(
+  state: EngineState,
+  options: SolverOptions = {}
+): Generator<SolveProgress, SolveResult, void> {
+  const { maxNodes, timeLimitMs, beamWidth } = { ...DEFAULT_SOLVER_OPTIONS, ...options };
+  const deadline = Date.now() + timeLimitMs;
+  const { grid } = state;
+  const space = buildSearchSpace(grid, state.cubeFaces);
+  const O = space.orientations.length;
+  const D = DIRECTIONS.length;
+
+  const targetCount = grid.reduce((sum, row) => sum + row.filter(isMatchableTile).length, 0);
+  const cellsOnly = targetCount * space.cellCount * O > MAX_DISTANCE_ENTRIES;
+  const tableIndex = (s: number) => (cellsOnly ? Math.floor(s / O) : s);
+
+  const targets: TargetTile[] = [];
+  const bitAt = new Map<number, bigint>();
+  grid.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (!isMatchableTile(tile)) return;
+      const cell = y * space.width + x;
+      const bit = 1n << BigInt(targets.length);
+      const color = tile.kind === 'color' ? tile.color : null;
+      targets.push({ cell, color, bit, distance: buildDistanceTable(space, cell, color, cellsOnly) });
+      bitAt.set(cell, bit);
+    })
+  );
+  const fullMask = (1n << BigInt(targets.length)) - 1n;
+
+  // For each tile, every other tile ordered by the cheapest way to reach it right
+  // after clearing that other tile.
+  const incomingOrder = targets.map(b =>
+    targets
+      .filter(a => a !== b)
+      .map(a => {
+        let cost = UNREACHABLE;
+        space.orientations.forEach((faces, o) => {
+          if (clearsTarget(a.color, faces.bottom)) cost = Math.min(cost, b.distance[tableIndex(a.cell * O + o)]);
+        });
+        return { bit: a.bit, cost };
+      })
+      .sort((p, q) => p.cost - q.cost)
+  );
+
+  // Each remaining tile is cleared exactly once, at the end of its own stretch of
+  // rolls that starts either here or at another remaining tile. Summing the
+  // cheapest such stretch per tile never overestimates.
+  const heuristic = (s: number, mask: bigint) => {
+    let total = 0;
+    for (let j = 0; j < targets.length; j++) {
+      const b = targets[j];
+      if (mask & b.bit) continue;
+      let incoming = b.distance[tableIndex(s)];
+      for (const a of incomingOrder[j]) {
+        if (a.cost >= incoming) break;
+        if (!(mask & a.bit)) {
+          incoming = a.cost;
+          break;
+        }
+      }
+      if (incoming >= UNREACHABLE) return Infinity;
+      total += incoming;
+    }
+    return total;
+  };
+
+  // Successors are the states right after the next clear. Any path between two
+  // clears can be swapped for the shortest one with the same endpoints, so
+  // searching over these macro moves stays exact.
+  const visitedAt = new Int32Array(space.cellCount * O);
+  let visitStamp = 0;
+  const queue = new Int32Array(space.cellCount * O);
+  const prev = new Int32Array(space.cellCount * O);
+  const via = new Int8Array(space.cellCount * O);
+
+  const expand = (node: SearchNode): SearchNode[] => {
+    const children: SearchNode[] = [];
+    visitStamp++;
+    visitedAt[node.state] = visitStamp;
+    queue[0] = node.state;
+    prev[0] = -1;
+    let tail = 1;
+    for (let i = 0; i < tail; i++) {
+      const s = queue[i];
+      const c = Math.floor(s / O);
+      const o = s % O;
+      for (let d = 0; d < D; d++) {
+        const nc = space.next[c * D + d];
+        if (nc < 0) continue;
+        const no = landOrientation(space, o, d, nc);
+        const ns = nc * O + no;
+        if (visitedAt[ns] === visitStamp) continue;
+        visitedAt[ns] = visitStamp;
+        const bit = bitAt.get(nc);
+        if (
+          bit !== undefined &&
+          !(node.mask & bit) &&
+          tileMatches(grid[Math.floor(nc / space.width)][nc % space.width], space.orientations[no].bottom)
+        ) {
+          const segment: Direction[] = [DIRECTIONS[d]];
+          for (let k = i; prev[k] >= 0; k = prev[k]) segment.push(DIRECTIONS[via[k]]);
+          segment.reverse();
+          const mask = node.mask | bit;
+          const g = node.g + segment.length;
+          children.push({ state: ns, mask, g, f: g + heuristic(ns, mask), parent: node, segment });
+        } else {
+          queue[tail] = ns;
+          prev[tail] = i;
+          via[tail] = d;
+          tail++;
+        }
+      }
+    }
+    return children;
+  };
+
+  const stateKey = (n: SearchNode) => `${n.state}|${n.mask.toString(36)}`;
+  const rebuildPath = (node: SearchNode) => {
+    const segments: Direction[][] = [];
+    for (let n: SearchNode | null = node; n; n = n.parent) segments.push(n.segment);
+    return segments.reverse().flat();
+  };
+
+  const [startX, startY] = state.cubePosition;
+  const startState = (startY * space.width + startX) * O;
+  const start: SearchNode = {
+    state: startState,
+    mask: 0n,
+    g: 0,
+    f: heuristic(startState, 0n),
+    parent: null,
+    segment: []
+  };
+
+  let expandedNodes = 0;
+  const outOfBudget = () => expandedNodes >= maxNodes || Date.now() > deadline;
+  const progress = (lowerBound: number): SolveProgress => ({ expandedNodes, lowerBound, bestPath });
+
+  // Upper bound: greedy, improved by a beam search that keeps the most
+  // promising states after each clear.
+  const greedy = solveGreedy(state);
+  let bestPath: Direction[] | null = greedy.solved ? greedy.path : null;
+  yield progress(start.f);
+  let beam = Number.isFinite(start.f) ? [start] : [];
+  while (beam.length > 0 && !outOfBudget()) {
+    const layer = new Map<string, SearchNode>();
+    for (const node of beam) {
+      if (outOfBudget()) break;
+      if (node.mask === fullMask) {
+        if (!bestPath || node.g < bestPath.length) {
+          bestPath = rebuildPath(node);
+          yield progress(start.f);
+        }
+        continue;
+      }
+      expandedNodes++;
+      for (const child of expand(node)) {
+        const key = stateKey(child);
+        const seen = layer.get(key);
+        if (Number.isFinite(child.f) && (!seen || seen.g > child.g)) layer.set(key, child);
+      }
+      if (expandedNodes % PROGRESS_INTERVAL === 0) yield progress(start.f);
+    }
+    beam = [...layer.values()].sort((a, b) => a.f - b.f).slice(0, beamWidth);
+  }
+  let upperBound = bestPath ? bestPath.length : Infinity;
+
+  // Lower bound and proof: A* over the same macro moves.
+  const open = new NodeHeap();
+  const bestG = new Map<string, number>();
+  if (start.f < upperBound) {
+    open.push(start);
+    bestG.set(stateKey(start), 0);
+  }
+
+  let exhausted = true;
+  while (open.size > 0) {
+    if (outOfBudget()) {
+      exhausted = false;
+      break;
+    }
+    const node = open.pop()!;
+    if (node.f >= upperBound) {
+      open.push(node);
+      break;
+    }
+    if (node.mask === fullMask) {
+      bestPath = rebuildPath(node);
+      upperBound = node.g;
+      break;
+    }
+    if ((bestG.get(stateKey(node)) ?? Infinity) < node.g) continue;
+    expandedNodes++;
+    if (expandedNodes % PROGRESS_INTERVAL === 0) yield progress(node.f);
+
+    for (const child of expand(node)) {
+      child.f = Math.max(child.f, node.f);
+      if (child.f >= upperBound) continue;
+      const key = stateKey(child);
+      if ((bestG.get(key) ?? Infinity) <= child.g) continue;
+      bestG.set(key, child.g);
+      open.push(child);
+    }
+  }
+
+  const frontier = open.peek();
+  const lowerBound = exhausted || !frontier ? upperBound : Math.min(upperBound, frontier.f);
+
+  if (!bestPath) {
+    return {
+      status: exhausted ? 'unsolvable' : 'bounded',
+      path: null,
+      moves: 0,
+      lowerBound: exhausted ? 0 : lowerBound,
+      expandedNodes
+    };
+  }
+  return {
+    status: lowerBound >= bestPath.length ? 'optimal' : 'bounded',
+    path: bestPath,
+    moves: bestPath.length,
+    lowerBound: Math.min(lowerBound, bestPath.length),
+    expandedNodes
+  };
+}
+
+export const solveOptimal = (state: EngineState, options: SolverOptions = {}): SolveResult => {
+  const search = searchOptimal(state, options);
+  let step = search.next();
+  while (!step.done) step = search.next();
+  return step.value;
+};
@@ -0,0 +1,79 @@
+import { ColorType, CubeFaces, Direction, Tile } from '../types';
+import { ALL_COLORS } from '../constants';
+
+// --- TILE MODEL ---
+// Maps and share codes store tiles as string tokens: a color tile is its
+// ColorType, the older special values keep their colors (GRAY start, BLACK
+// cleared, MAGENTA wildcard) and the rest are named, e.g. `arrow-up` or
+// `paint-#ef4444`.
+
+export const START_TILE: Tile = { kind: 'start' };
+export const CLEARED_TILE: Tile = { kind: 'cleared' };
+export const WILDCARD_TILE: Tile = { kind: 'wildcard' };
+export const WALL_TILE: Tile = { kind: 'wall' };
+export const HOLE_TILE: Tile = { kind: 'hole' };
+
+export const colorTile = (color: ColorType): Tile => ({ kind: 'color', color });
+export const arrowTile = (direction: Direction): Tile => ({ kind: 'arrow', direction });
+export const paintColorTile = (color: ColorType): Tile => ({ kind: 'paint', color });
+
+export const isMatchableTile = (tile: Tile) => tile.kind === 'color' || tile.kind === 'wildcard';
+
+export const tileMatches = (tile: Tile, bottom: ColorType) =>
+  tile.kind === 'wildcard' || (tile.kind === 'color' && tile.color === bottom);
+
+// The face that lands on a paint tile takes its color.
+export const paintFaces = (faces: CubeFaces, tile: Tile): CubeFaces =>
+  tile.kind === 'paint' && faces.bottom !== tile.color ? { ...faces, bottom: tile.color } : faces;
+
+// Walls block every roll; arrows block all but rolls in their own direction.
+export const canEnterTile = (tile: Tile, direction: Direction) => {
+  if (tile.kind === 'wall') return false;
+  if (tile.kind === 'arrow') return tile.direction === direction;
+  return true;
+};
+
+export const encodeTile = (tile: Tile): string => {
+  switch (tile.kind) {
+    case 'color': return tile.color;
+    case 'wildcard': return ColorType.MAGENTA;
+    case 'cleared': return ColorType.BLACK;
+    case 'start': return ColorType.GRAY;
+    case 'wall': return 'wall';
+    case 'hole': return 'hole';
+    case 'arrow': return `arrow-${tile.direction}`;
+    case 'paint': return `paint-${tile.color}`;
+  }
+};
+
+const TOKENS = new Map<string, Tile>([
+  ...ALL_COLORS.map(color => [color, colorTile(color)] as [string, Tile]),
+  [ColorType.MAGENTA, WILDCARD_TILE],
+  [ColorType.BLACK, CLEARED_TILE],
+  [ColorType.GRAY, START_TILE],
+  ['wall', WALL_TILE],
+  ['hole', HOLE_TILE],
+  ...(['up', 'down', 'left', 'right'] as Direction[]).map(d => [`arrow-${d}`, arrowTile(d)] as [string, Tile]),
+  ...ALL_COLORS.map(color => [`paint-${color}`, paintColorTile(color)] as [string, Tile])
+]);
+
+export const TILE_TOKENS = [...TOKENS.keys()];
+
+export const decodeTile = (token: unknown): Tile | null =>
+  typeof token === 'string' ? TOKENS.get(token.toLowerCase()) ?? null : null;
+
+export const isSameTile = (a: Tile, b: Tile) => encodeTile(a) === encodeTile(b);
+
+// Surface color used by the board, the HUD and the editor palette.
+export const getTileColor = (tile: Tile): string => {
+  switch (tile.kind) {
+    case 'color': return tile.color;
+    case 'wildcard': return ColorType.MAGENTA;
+    case 'cleared': return ColorType.BLACK;
+    case 'start': return ColorType.GRAY;
+    case 'wall': return '#52525b';
+    case 'hole': return '#000000';
+    case 'arrow': return '#27272a';
+    case 'paint': return tile.color;
+  }
+};
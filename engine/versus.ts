@@ -0,0 +1,206 @@
+import { CubeFaces, Direction, Tile } from '../types';
+import {
+  DIRECTIONS,
+  EngineEvent,
+  EngineState,
+  StepOutcome,
+  applyMove,
+  countTargets,
+  isInBounds,
+  resolveStep,
+  stepPosition
+} from './gameEngine';
+import { MapDocument } from './mapFormat';
+import { START_TILE, canEnterTile } from './tiles';
+
+// --- HOTSEAT VERSUS ---
+// Two cubes on one board. Each roll goes through the single-player engine with
+// that player's cube; on top of it the cubes block each other, a matched tile
+// scores for whoever cleared it, and the game ends when no tile is left to match.
+
+export type PlayerIndex = 0 | 1;
+export const PLAYERS: PlayerIndex[] = [0, 1];
+
+// 'turns' alternates rolls; 'simultaneous' lets both players roll at any time.
+export type VersusTurnMode = 'turns' | 'simultaneous';
+// What a fall costs: the whole game, or the player's next roll.
+export type VersusFallRule = 'lose' | 'skip';
+
+export interface VersusSettings {
+  turnMode: VersusTurnMode;
+  fallRule: VersusFallRule;
+}
+
+export const DEFAULT_VERSUS_SETTINGS: VersusSettings = { turnMode: 'turns', fallRule: 'skip' };
+
+export interface VersusPlayer {
+  cubePosition: [number, number];
+  cubeFaces: CubeFaces;
+  score: number;
+  moves: number;
+  // Set by a fall under the 'skip' rule in simultaneous play; the next roll is lost.
+  skipsNext: boolean;
+}
+
+export type VersusEndReason = 'cleared' | 'fell';
+
+export interface VersusState {
+  grid: Tile[][];
+  players: [VersusPlayer, VersusPlayer];
+  // Whose roll it is in turn mode.
+  turn: PlayerIndex;
+  status: 'playing' | 'finished';
+  // Null on a draw or while playing.
+  winner: PlayerIndex | null;
+  endReason: VersusEndReason | null;
+  settings: VersusSettings;
+}
+
+export type VersusEvent = EngineEvent | { type: 'skipped' };
+
+export interface VersusMoveResult {
+  state: VersusState;
+  events: VersusEvent[];
+}
+
+export const otherPlayer = (player: PlayerIndex): PlayerIndex => (player === 0 ? 1 : 0);
+
+const isSamePosition = (a: [number, number] | null, b: [number, number]) => a !== null && a[0] === b[0] && a[1] === b[1];
+
+// A cell the second cube can start on: enterable from every side.
+const isOpenCell = (tile: Tile) => tile.kind !== 'hole' && DIRECTIONS.every(dir => canEnterTile(tile, dir));
+
+// Player two starts on the cell mirroring the map's start through the board
+// centre, or the nearest open cell to it, so neither player gets the better corner.
+// A start in the centre mirrors onto itself; the far corner is used instead.
+export const findSecondStart = (grid: Tile[][], start: [number, number]): [number, number] | null => {
+  const height = grid.length;
+  const width = grid[0]?.length ?? 0;
+  const mirrored: [number, number] = [width - 1 - start[0], height - 1 - start[1]];
+  const mirror: [number, number] = isSamePosition(start, mirrored) ? [width - 1, height - 1] : mirrored;
+  const candidates: [number, number][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isSamePosition(start, [x, y]) && isOpenCell(grid[y][x])) candidates.push([x, y]);
+    }
+  }
+  const distance = ([x, y]: [number, number]) => Math.abs(x - mirror[0]) + Math.abs(y - mirror[1]);
+  candidates.sort((a, b) => distance(a) - distance(b) || a[1] - b[1] || a[0] - b[0]);
+  return candidates[0] ?? null;
+};
+
+// Null when the board has no room for a second cube. The second start becomes
+// a start tile, so neither cube begins on a tile it could score.
+export const createVersusState = (map: MapDocument, settings: VersusSettings): VersusState | null => {
+  const second = findSecondStart(map.tiles, map.start);
+  if (!second) return null;
+  const grid = map.tiles.map((row, y) => row.map((tile, x) => (isSamePosition(second, [x, y]) ? START_TILE : tile)));
+  const player = (cubePosition: [number, number]): VersusPlayer => ({
+    cubePosition,
+    cubeFaces: { ...map.cubeFaces },
+    score: 0,
+    moves: 0,
+    skipsNext: false
+  });
+  return {
+    grid,
+    players: [player([map.start[0], map.start[1]]), player(second)],
+    turn: 0,
+    status: 'playing',
+    winner: null,
+    endReason: null,
+    settings
+  };
+};
+
+export const canPlayerRoll = (state: VersusState, player: PlayerIndex) =>
+  state.status === 'playing' && (state.settings.turnMode === 'simultaneous' || state.turn === player);
+
+// Like resolveStep, with the other cube (and the tile it is rolling onto, if
+// it is mid-roll) counting as a wall.
+export const resolveVersusStep = (
+  state: VersusState,
+  player: PlayerIndex,
+  dir: Direction,
+  reserved: [number, number] | null = null
+): StepOutcome => {
+  const { cubePosition } = state.players[player];
+  const to = stepPosition(cubePosition, dir);
+  const other = state.players[otherPlayer(player)];
+  if (isInBounds(state.grid, to) && (isSamePosition(other.cubePosition, to) || isSamePosition(reserved, to))) {
+    return 'blocked';
+  }
+  return resolveStep(state.grid, cubePosition, dir);
+};
+
+const finish = (state: VersusState, endReason: VersusEndReason, winner: PlayerIndex | null): VersusState => ({
+  ...state,
+  status: 'finished',
+  endReason,
+  winner
+});
+
+const getLeader = ([a, b]: [VersusPlayer, VersusPlayer]): PlayerIndex | null =>
+  a.score === b.score ? null : a.score > b.score ? 0 : 1;
+
+const replacePlayer = (
+  players: [VersusPlayer, VersusPlayer],
+  index: PlayerIndex,
+  player: VersusPlayer
+): [VersusPlayer, VersusPlayer] => (index === 0 ? [player, players[1]] : [players[0], player]);
+
+export const applyVersusMove = (state: VersusState, player: PlayerIndex, dir: Direction): VersusMoveResult => {
+  if (!canPlayerRoll(state, player)) return { state, events: [] };
+  const current = state.players[player];
+  const nextTurn = state.settings.turnMode === 'turns' ? otherPlayer(player) : state.turn;
+
+  if (current.skipsNext) {
+    return {
+      state: { ...state, players: replacePlayer(state.players, player, { ...current, skipsNext: false }) },
+      events: [{ type: 'skipped' }]
+    };
+  }
+  if (resolveVersusStep(state, player, dir) === 'blocked') {
+    return { state, events: [{ type: 'blocked', direction: dir, at: current.cubePosition }] };
+  }
+
+  const single: EngineState = {
+    grid: state.grid,
+    cubePosition: current.cubePosition,
+    cubeFaces: current.cubeFaces,
+    moves: current.moves,
+    matchedCount: 0,
+    status: 'playing'
+  };
+  const { state: moved, events } = applyMove(single, dir);
+  // applyMove's own win check counts both players' tiles, so it is ignored here.
+  const engineEvents = events.filter(event => event.type !== 'won');
+
+  if (moved.status === 'lost') {
+    if (state.settings.fallRule === 'lose') {
+      return { state: finish(state, 'fell', otherPlayer(player)), events: engineEvents };
+    }
+    // The cube is put back where it fell from and the fall costs a roll.
+    const skipsNext = state.settings.turnMode === 'simultaneous';
+    return {
+      state: {
+        ...state,
+        players: replacePlayer(state.players, player, { ...current, moves: current.moves + 1, skipsNext }),
+        turn: nextTurn
+      },
+      events: engineEvents
+    };
+  }
+
+  const matched = engineEvents.some(event => event.type === 'matched');
+  const players = replacePlayer(state.players, player, {
+    ...current,
+    cubePosition: moved.cubePosition,
+    cubeFaces: moved.cubeFaces,
+    moves: moved.moves,
+    score: current.score + (matched ? 1 : 0)
+  });
+  const next: VersusState = { ...state, grid: moved.grid, players, turn: nextTurn };
+  if (countTargets(moved.grid) === 0) return { state: finish(next, 'cleared', getLeader(players)), events: engineEvents };
+  return { state: next, events: engineEvents };
+};
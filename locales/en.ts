@@ -0,0 +1,422 @@
+import type { Messages } from './pt-BR';
+
+// --- EN CATALOG ---
+
+const en: Messages = {
+  // --- COMMON ---
+  'common.close': 'Close',
+  'common.dismiss': 'Dismiss',
+  'common.computing': 'computing…',
+  'common.generating': 'Generating…',
+  'common.moves': { one: '{count} move', other: '{count} moves' },
+  'common.movesShort': '{count} mv.',
+  'common.undoShortcut': 'Undo (Ctrl+Z)',
+  'common.redoShortcut': 'Redo (Ctrl+Y)',
+  'common.copied': 'Copied!',
+  'common.you': '(you)',
+  'common.movesUnit': 'moves',
+  'common.days': { one: '{count} day', other: '{count} days' },
+
+  // --- GAME LABELS ---
+  'difficulty.easy': 'Easy',
+  'difficulty.medium': 'Medium',
+  'difficulty.hard': 'Hard',
+  'difficulty.expert': 'Expert',
+  'gameMode.classic': 'Classic',
+  'gameMode.timeAttack': 'Time Attack',
+  'gameMode.moveLimit': 'Move Limit',
+  'gameMode.zen': 'Zen',
+  'gameModeDescription.classic': 'Clear the board without falling off the edges.',
+  'gameModeDescription.timeAttack': 'Clear as many tiles as you can before time runs out.',
+  'gameModeDescription.moveLimit': 'Clear the board within the par number of moves.',
+  'gameModeDescription.zen': 'No falling: edges and holes block the cube.',
+  'ghostPace.slow': 'Slow',
+  'ghostPace.normal': 'Normal',
+  'ghostPace.fast': 'Fast',
+
+  // --- HUD ---
+  'hud.moves': 'Moves',
+  'hud.aiOptimal': 'AI Optimal',
+  'hud.aiBest': 'AI Best',
+  'hud.aiUnsolvable': 'no solution',
+  'hud.aiUnknown': 'unknown',
+  'hud.options': 'Options',
+  'hud.optionsTitle': 'Game Options',
+  'hud.hint': 'Hint',
+  'hud.hintMoveTitle': 'Hint: next best move',
+  'hud.hintPathTitle': 'Hint: path to the next match',
+  'hud.aiActive': 'AI Active',
+  'hud.aiSolver': 'AI Solver',
+  'hud.sound': 'Sound',
+  'hud.restart': 'Restart Board',
+  'hud.bottomFace': 'Bottom',
+  'hud.versus': 'vs',
+  'hud.floorTile': 'Floor',
+
+  // --- D-PAD ---
+  'dpad.up': 'Roll up (W / Up arrow)',
+  'dpad.down': 'Roll down (S / Down arrow)',
+  'dpad.left': 'Roll left (A / Left arrow)',
+  'dpad.right': 'Roll right (D / Right arrow)',
+
+  // --- OPTIONS MENU ---
+  'menu.assistant': 'Smart Assistant',
+  'menu.runAi': 'Run AI Solver',
+  'menu.stopAi': 'Stop AI Solver',
+  'menu.hintMove': 'Next Move',
+  'menu.hintPath': 'To the Next Match',
+  'menu.coach': 'Coach',
+  'menu.hintsRemaining': 'Hints left',
+  'menu.hintsCost': 'each hint lowers the final efficiency.',
+  'menu.daily': 'Daily Challenge',
+  'menu.campaign': 'Campaign',
+  'menu.stats': 'Statistics',
+  'menu.statsNote': 'History and export',
+  'menu.versus': 'Local Versus',
+  'menu.versusNote': 'Two players on this board',
+  'menu.race': 'Online Race',
+  'menu.raceNote': 'Same board, first to clear wins',
+  'menu.boardSize': 'Board Size',
+  'menu.width': 'Width',
+  'menu.height': 'Height',
+  'menu.boardSizeNote': '{width}×{height} — applies from the next game.',
+  'menu.difficulty': 'Difficulty',
+  'menu.difficultyAny': 'Any',
+  'menu.difficultyRatedNote': 'Boards are generated with a guaranteed solution; harder levels add walls and holes.',
+  'menu.difficultyAnyNote': 'Boards are shuffled without checking; the difficulty is rated afterwards.',
+  'menu.gameMode': 'Game Mode',
+  'menu.gameModeNote': 'The daily challenge and the campaign are always classic.',
+  'menu.ghostRace': 'Race the AI',
+  'menu.ghostRaceStart': 'Race',
+  'menu.ghostRaceNote': 'Restarts this board with an AI ghost cube playing its own copy at the chosen pace.',
+  'menu.quickActions': 'Quick Actions',
+  'menu.newGame': 'New Game',
+  'menu.soundOn': 'Sound On',
+  'menu.soundOff': 'Sound Muted',
+  'menu.undoPenaltyTitle': 'Every undo counts as an extra move, from the next game on',
+  'menu.undoPenaltyOn': 'Undo with Penalty (+1)',
+  'menu.undoPenaltyOff': 'Undo without Penalty',
+  'menu.controlsCamera': 'Controls Follow the Camera',
+  'menu.controlsCameraTitle': 'Up always rolls away from you, even after turning the camera',
+  'menu.controlsWorld': 'Controls Fixed to the Board',
+  'menu.controlsWorldTitle': 'Directions stay fixed to the board, as seen from the starting camera',
+  'menu.seed': 'Board Seed',
+  'menu.seedCurrent': 'Current:',
+  'menu.seedPlaceholder': 'Enter a seed',
+  'menu.play': 'Play',
+  'menu.seedNote': 'The same seed and size always make the same board.',
+  'menu.manageMap': 'Manage Map',
+  'menu.saveMap': 'Save Map',
+  'menu.loadMap': 'Load Map',
+  'menu.loadReplay': 'Load Replay',
+  'menu.editor': 'Level Editor',
+  'menu.copyCode': 'Copy Code',
+  'menu.copyLink': 'Copy Link',
+  'menu.shareCodePlaceholder': 'Paste a board code',
+  'menu.open': 'Open',
+  'menu.loadFailed': 'Could not load',
+  'menu.language': 'Language',
+  'menu.gestures': 'Gesture Controls',
+  'menu.gesturesNote': 'On a phone you can swipe the screen in any direction to roll the cube!',
+  'menu.continue': 'Keep Playing',
+
+  // --- APP ---
+  'app.aiSolving': 'AI Solving…',
+  'app.aiQueue': 'Queue: {count} mv.',
+  'app.noHint': 'No hint found from here',
+  'app.backToEditor': 'Back to Editor',
+
+  // --- GAME OVER ---
+  'gameOver.victory': 'VICTORY!',
+  'gameOver.win': 'You cleared the whole board.',
+  'gameOver.winTimeAttack': {
+    one: 'Board cleared with {count} second to spare.',
+    other: 'Board cleared with {count} seconds to spare.'
+  },
+  'gameOver.winMoveLimit': {
+    one: 'Board cleared within the {count}-move limit.',
+    other: 'Board cleared within the {count}-move limit.'
+  },
+  'gameOver.timeUp': "TIME'S UP!",
+  'gameOver.timeUpMessage': {
+    one: 'You cleared {cleared} of {count} tile before time ran out.',
+    other: 'You cleared {cleared} of {count} tiles before time ran out.'
+  },
+  'gameOver.outOfMoves': 'OUT OF MOVES!',
+  'gameOver.outOfMovesMessage': {
+    one: 'The limit was {limit} moves and {count} tile is still left.',
+    other: 'The limit was {limit} moves and {count} tiles are still left.'
+  },
+  'gameOver.undoMove': 'Undo Move',
+  'gameOver.fell': 'YOU FELL!',
+  'gameOver.fellMessage': 'Watch out for the edges of the board!',
+  'gameOver.undoFall': 'Undo Fall',
+  'gameOver.aiComputing': 'AI computing…',
+  'gameOver.hints': 'Hints {used}/{total}',
+  'gameOver.efficiency': 'Efficiency',
+  'gameOver.watchReplay': 'Watch Replay',
+  'gameOver.aiSolution': 'AI Solution',
+  'gameOver.time': 'Time',
+  'gameOver.you': 'You',
+  'gameOver.ghostWins': 'The AI takes this race.',
+  'gameOver.playerAhead': 'You finished {time} ahead of the AI!',
+  'gameOver.ghostAhead': 'The AI finished {time} ahead.',
+  'gameOver.dailyBest': 'Best result',
+  'gameOver.dailyNoResult': 'No result on this day yet.',
+  'gameOver.replayDaily': 'Replay Challenge',
+  'gameOver.replayLevel': 'Replay Level',
+  'gameOver.nextLevel': 'Next Level',
+  'gameOver.chooseLevel': 'Choose Level',
+  'gameOver.tryAgain': 'Try Again',
+
+  // --- DAILY CHALLENGE ---
+  'daily.today': 'Today',
+  'daily.mapTitle': 'Daily Challenge {date}',
+  'daily.streak': 'Streak',
+  'daily.playAgain': 'Play Today Again',
+  'daily.playToday': "Play Today's Challenge",
+
+  // --- STATS ---
+  'stats.loading': 'Loading history…',
+  'stats.empty': 'No games recorded yet. Finish or abandon a game to get started.',
+  'stats.games': 'Games',
+  'stats.losses': { one: '{count} loss', other: '{count} losses' },
+  'stats.abandoned': { one: '{count} abandoned', other: '{count} abandoned' },
+  'stats.wins': 'Wins',
+  'stats.winRate': '{rate} of games',
+  'stats.averageEfficiency': 'Average Efficiency',
+  'stats.playTime': 'Time Played',
+  'stats.trend': {
+    one: 'Efficiency in the last win',
+    other: 'Efficiency over the last {count} wins'
+  },
+  'stats.trendEmpty': 'Win a game to see your progress.',
+  'stats.bestBySize': 'Best Game per Size',
+  'stats.exportCsv': 'Export CSV',
+  'stats.exportJson': 'Export JSON',
+
+  // --- REPLAY ---
+  'replay.won': 'Victory',
+  'replay.fell': 'Fell',
+  'replay.step': 'Step',
+  'replay.sourceAi': 'AI',
+  'replay.sourcePlayer': 'Player',
+  'replay.input.up': 'Up',
+  'replay.input.down': 'Down',
+  'replay.input.left': 'Left',
+  'replay.input.right': 'Right',
+  'replay.input.undo': 'Undo',
+  'replay.previous': 'Previous Step',
+  'replay.pause': 'Pause',
+  'replay.play': 'Play',
+  'replay.next': 'Next Step',
+  'replay.speed': 'Speed',
+  'replay.exportTitle': 'Export Replay (JSON)',
+  'replay.export': 'Export',
+  'replay.yours': 'Your Replay',
+  'replay.aiSolution': 'AI Solution',
+  'replay.imported': 'Imported Replay',
+
+  // --- LEVEL EDITOR ---
+  'editor.tools': 'Tools',
+  'editor.exit': 'Leave Editor',
+  'editor.tile.wildcard': 'Wild',
+  'editor.tile.cleared': 'Empty',
+  'editor.tile.wall': 'Wall',
+  'editor.tile.hole': 'Hole',
+  'editor.tile.arrow': 'Arrow',
+  'editor.tile.paint': 'Paint',
+  'editor.tile.start': 'Start',
+  'editor.orientation': 'Cube Orientation',
+  'editor.face.top': 'Top',
+  'editor.face.bottom': 'Bottom',
+  'editor.face.front': 'Front',
+  'editor.face.back': 'Back',
+  'editor.face.left': 'Left',
+  'editor.face.right': 'Right',
+  'editor.spin': 'Spin',
+  'editor.titlePlaceholder': 'Title',
+  'editor.authorPlaceholder': 'Author',
+  'editor.solving': 'Solving…',
+  'editor.unsolvable': 'No solution',
+  'editor.optimal': 'Optimal solution',
+  'editor.bestFound': 'Best solution found',
+  'editor.test': 'Test',
+
+  // --- COACH ---
+  'coach.provider.gemini': 'Gemini',
+  'coach.provider.mock': 'Local (offline)',
+  'coach.thinking': 'Thinking…',
+  'coach.ask': 'Ask for Advice',
+  'coach.note': {
+    one: 'Each piece of advice uses a hint ({count} left). The plan is checked against the solver before it shows up.',
+    other: 'Each piece of advice uses a hint ({count} left). The plan is checked against the solver before it shows up.'
+  },
+  'coach.verdict.good': 'Matches the solver',
+  'coach.verdict.questionable': 'Doubtful plan',
+  'coach.verdict.bad': 'Bad advice',
+  'coach.issue.fell': 'The cube falls off the board on move {step}.',
+  'coach.issue.blocked': 'Move {step} runs into a wall or an arrow.',
+  'coach.issue.noMatch': 'The plan does not clear any tile.',
+  'coach.issue.slower': {
+    one: 'It takes {count} move to reach the first match; the solver gets there in {solverSteps}.',
+    other: 'It takes {count} moves to reach the first match; the solver gets there in {solverSteps}.'
+  },
+  'coach.issue.empty': 'The coach did not suggest any move.',
+  'coach.solverDiffers': 'The solver would start with a different move.',
+  'coach.showOnBoard': 'Show on Board',
+  'coach.error.unreachable': 'Could not reach Gemini.',
+  'coach.error.status': 'Gemini answered with error {status}.',
+  'coach.error.format': 'Gemini answered in an unexpected format.',
+  'coach.error.solver': 'The solver failed; try again.',
+  'coach.mock.noPath': 'No tile can be cleared from here with the cube as it is turned now.',
+  'coach.mock.plan': {
+    one: 'The nearest tile you can clear is at ({x},{y}), {count} move away. Roll {keys}; the cube gets there with {color} at the bottom.',
+    other: 'The nearest tile you can clear is at ({x},{y}), {count} moves away. Roll {keys}; the cube gets there with {color} at the bottom.'
+  },
+  'coach.mock.wildcard': {
+    one: 'The nearest tile you can clear is at ({x},{y}), {count} move away. Roll {keys}; the cube gets there with {color} at the bottom, and the wild tile takes any color.',
+    other: 'The nearest tile you can clear is at ({x},{y}), {count} moves away. Roll {keys}; the cube gets there with {color} at the bottom, and the wild tile takes any color.'
+  },
+
+  // --- VERSUS ---
+  'versus.player': 'Player {number}',
+  'versus.remaining': { one: '{count} tile left', other: '{count} tiles left' },
+  'versus.skipsTurn': 'skips a turn',
+  'versus.yourTurn': 'your turn',
+  'versus.newMatch': 'New Match',
+  'versus.exit': 'Leave Versus',
+  'versus.setupTitle': 'Two Players, One Board',
+  'versus.turnMode': 'Turns',
+  'versus.turnMode.turns': 'Take Turns',
+  'versus.turnMode.simultaneous': 'Simultaneous',
+  'versus.fallRule': 'Falls',
+  'versus.fallRule.skip': 'Fall Skips a Turn',
+  'versus.fallRule.lose': 'Fall Loses the Game',
+  'versus.turnsNote': 'Each player rolls on their turn, with the keyboard or the on-screen controls.',
+  'versus.simultaneousNote': 'Player 1 uses WASD and Player 2 the arrow keys, at the same time.',
+  'versus.scoringNote': 'Each tile scores for whoever clears it; the cubes cannot share a tile.',
+  'versus.noRoom': 'This board has no room for a second cube.',
+  'versus.start': 'Start',
+  'versus.draw': 'Draw!',
+  'versus.winner': 'Player {number} Wins!',
+  'versus.fellOff': 'Player {number} fell off the board.',
+  'versus.allCleared': 'Every tile was cleared.',
+  'versus.rematch': 'Rematch',
+
+  // --- ONLINE RACE ---
+  'race.reconnecting': 'Connection lost. Reconnecting…',
+  'race.unreachable': 'Could not reach the race server.',
+  'race.intro':
+    "Both players get the same board; whoever clears it first wins. Your opponent's cube shows up as a ghost on your board.",
+  'race.connecting': 'Connecting…',
+  'race.createRoom': 'Create Room',
+  'race.codePlaceholder': 'Room code',
+  'race.join': 'Join',
+  'race.roomCode': 'Room Code',
+  'race.board': '{width}×{height} board',
+  'race.mapTitle': 'Race {seed}',
+  'race.noWinner': 'No winner',
+  'race.youWon': 'You won!',
+  'race.winner': '{name} won!',
+  'race.endReason.cleared': 'Cleared the board first.',
+  'race.endReason.fell': 'The other cube fell off the board.',
+  'race.endReason.abandoned': 'The other player left the race.',
+  'race.ready': 'ready',
+  'race.waiting': 'waiting',
+  'race.remaining': { one: '{count} left', other: '{count} left' },
+  'race.waitingOpponent': 'Waiting for the opponent to join with the code…',
+  'race.cancel': 'Cancel',
+  'race.imReady': "I'm Ready",
+  'race.leave': 'Leave Room',
+  'race.reconnectingBadge': 'Reconnecting to the race…',
+  'race.error.alreadySeated': 'You are already in a room.',
+  'race.error.roomNotFound': 'Room not found.',
+  'race.error.roomFull': 'The room is full.',
+  'race.error.raceStarted': 'The race in this room has already started.',
+  'race.error.notSeated': 'Join a room first.',
+  'race.error.invalidMessage': 'Invalid message.',
+
+  // --- LEADERBOARD ---
+  'leaderboard.loading': 'Loading leaderboard…',
+  'leaderboard.empty': 'Nobody has scored on this board yet.',
+  'leaderboard.submitted': 'Result sent! Your rank: #{rank}',
+  'leaderboard.namePlaceholder': 'Your name',
+  'leaderboard.send': 'Send',
+  'leaderboard.today': "Today's Leaderboard",
+  'leaderboard.error.unreachable': 'Leaderboard server unavailable.',
+  'leaderboard.error.status': 'The leaderboard answered with error {status}.',
+  'leaderboard.error.payloadTooLarge': 'The submission is too large.',
+  'leaderboard.error.bodyNotJson': 'The body is not valid JSON.',
+  'leaderboard.error.hashMismatch': 'The hash does not match the URL.',
+  'leaderboard.error.routeNotFound': 'Route not found.',
+  'leaderboard.error.serverError': 'Internal leaderboard server error.',
+  'leaderboard.board': 'Board Leaderboard',
+
+  // --- CAMPAIGN ---
+  'campaign.levels': 'Levels',
+  'campaign.stars': 'Stars',
+  'campaign.level': 'Level {number}',
+  'campaign.par': 'Par',
+  'campaign.parValue': 'par {par}',
+  'campaign.best': 'Best',
+  'campaign.note': 'Finish on par for 3 stars. Each level unlocks the next one.',
+  'campaign.title.level-01': 'First Steps',
+  'campaign.title.level-02': 'Wildcard',
+  'campaign.title.level-03': 'Walls',
+  'campaign.title.level-04': 'Mind the Hole',
+  'campaign.title.level-05': 'One Way',
+  'campaign.title.level-06': 'Wet Paint',
+  'campaign.title.level-07': 'Crossroads',
+  'campaign.title.level-08': 'Maze',
+  'campaign.title.level-09': 'Palette',
+  'campaign.title.level-10': 'Grand Finale',
+
+  // --- GHOST RACE ---
+  'ghost.name': 'AI Ghost',
+
+  // --- MAP ERRORS ---
+  'mapError.invalidJson': 'The file is not valid JSON.',
+  'mapError.notMap': 'The file does not contain a map.',
+  'mapError.unsupportedVersion': 'Unsupported map version: {version}.',
+  'mapError.fieldNotText': 'The {field} field must be text.',
+  'mapError.unknownDifficulty': 'Unknown difficulty: {value}.',
+  'mapError.invalidPar': 'The par must be a positive integer.',
+  'mapError.invalidSize': 'The size must be { width, height }.',
+  'mapError.dimensionRange': 'Must be an integer between {min} and {max}.',
+  'mapError.tilesNotList': 'The tiles must be a list of rows.',
+  'mapError.rowCount': 'Expected {expected} rows, found {actual}.',
+  'mapError.rowRange': 'The board must have between {min} and {max} rows.',
+  'mapError.rowNotList': 'Each row must be a list of tiles.',
+  'mapError.columnCount': 'Expected {expected} columns, found {actual}.',
+  'mapError.columnRange': 'The board must have between {min} and {max} columns.',
+  'mapError.unknownTile': 'Unknown tile: {value}.',
+  'mapError.noTargets': 'The board needs at least one tile to match.',
+  'mapError.startNotPosition': 'The start position must be [x, y].',
+  'mapError.startOutOfBoard': 'The start position [{x}, {y}] is outside the board.',
+  'mapError.startNotGray': 'The start tile [{x}, {y}] must be gray ({color}).',
+  'mapError.facesNotObject': 'The cube faces must be an object.',
+  'mapError.unknownFaceColor': 'Invalid face color: {value}.',
+  'mapError.duplicateFaceColor': 'Each face must have a different color.',
+  'mapError.shareCodeCharacters': 'The code contains invalid characters.',
+  'mapError.shareCodeIncomplete': 'The code is incomplete.',
+  'mapError.shareCodeChecksum': 'The code is corrupted (checksum mismatch).',
+  'mapError.shareCodeVersion': 'Unsupported code version: {version}.',
+  'mapError.shareCodeTileCount': 'Expected {expected} tiles, found {actual}.',
+  'mapError.notReplay': 'The file does not contain a replay.',
+  'mapError.replayVersion': 'Unsupported replay version: {version}.',
+  'mapError.replayStepsNotList': 'The steps must be a list.',
+  'mapError.replayInvalidStep': 'Invalid replay step.',
+  'mapError.campaignPack': 'Invalid campaign pack.',
+  'mapError.campaignLevelShape': 'Each level needs an id and a map.',
+  'mapError.campaignLevelPar': 'Campaign levels need a par.',
+  'mapError.notSubmission': 'The submission must be an object.',
+  'mapError.missingPlayerName': 'Enter the player name.',
+  'mapError.missingMapHash': 'Missing map hash.',
+  'mapError.invalidMoveCount': 'The move count is invalid.',
+  'mapError.replayWrongBoard': 'The replay is not for the given board.',
+  'mapError.replayNotCleared': 'The replay does not clear the board.',
+  'mapError.replayMoveMismatch': 'The replay ends in {moves} moves, not {claimed}.'
+};
+
+export default en;
@@ -0,0 +1,426 @@
+import type { Message } from '../engine/i18n';
+
+// --- PT-BR CATALOG ---
+// The reference catalog: every key here must exist in the other locales.
+// `{name}` is a placeholder; objects are plural forms picked by {count}.
+
+const ptBR = {
+  // --- COMMON ---
+  'common.close': 'Fechar',
+  'common.dismiss': 'Dispensar',
+  'common.computing': 'calculando…',
+  'common.generating': 'Gerando…',
+  'common.moves': { one: '{count} movimento', other: '{count} movimentos' },
+  'common.movesShort': '{count} mov.',
+  'common.undoShortcut': 'Desfazer (Ctrl+Z)',
+  'common.redoShortcut': 'Refazer (Ctrl+Y)',
+  'common.copied': 'Copiado!',
+  'common.you': '(você)',
+  'common.movesUnit': 'mov.',
+  'common.days': { one: '{count} dia', other: '{count} dias' },
+
+  // --- GAME LABELS ---
+  'difficulty.easy': 'Fácil',
+  'difficulty.medium': 'Médio',
+  'difficulty.hard': 'Difícil',
+  'difficulty.expert': 'Especialista',
+  'gameMode.classic': 'Clássico',
+  'gameMode.timeAttack': 'Contra o Tempo',
+  'gameMode.moveLimit': 'Limite',
+  'gameMode.zen': 'Zen',
+  'gameModeDescription.classic': 'Limpe o tabuleiro sem cair das bordas.',
+  'gameModeDescription.timeAttack': 'Limpe o máximo de tiles antes que o tempo acabe.',
+  'gameModeDescription.moveLimit': 'Limpe o tabuleiro dentro do par de movimentos.',
+  'gameModeDescription.zen': 'Sem quedas: as bordas e os buracos bloqueiam o cubo.',
+  'ghostPace.slow': 'Lento',
+  'ghostPace.normal': 'Normal',
+  'ghostPace.fast': 'Rápido',
+
+  // --- HUD ---
+  'hud.moves': 'Movimentos',
+  'hud.aiOptimal': 'Ótimo da IA',
+  'hud.aiBest': 'Melhor da IA',
+  'hud.aiUnsolvable': 'sem solução',
+  'hud.aiUnknown': 'desconhecido',
+  'hud.options': 'Opções',
+  'hud.optionsTitle': 'Opções do Jogo',
+  'hud.hint': 'Dica',
+  'hud.hintMoveTitle': 'Dica: próximo melhor movimento',
+  'hud.hintPathTitle': 'Dica: caminho até o próximo match',
+  'hud.aiActive': 'IA Ativa',
+  'hud.aiSolver': 'IA Solver',
+  'hud.sound': 'Som',
+  'hud.restart': 'Reiniciar Tabuleiro',
+  'hud.bottomFace': 'Base',
+  'hud.versus': 'vs',
+  'hud.floorTile': 'Piso',
+
+  // --- D-PAD ---
+  'dpad.up': 'Rolar para cima (W / Seta para cima)',
+  'dpad.down': 'Rolar para baixo (S / Seta para baixo)',
+  'dpad.left': 'Rolar para a esquerda (A / Seta para a esquerda)',
+  'dpad.right': 'Rolar para a direita (D / Seta para a direita)',
+
+  // --- OPTIONS MENU ---
+  'menu.assistant': 'Assistente Inteligente',
+  'menu.runAi': 'Executar IA Solver',
+  'menu.stopAi': 'Parar IA Solver',
+  'menu.hintMove': 'Próximo Movimento',
+  'menu.hintPath': 'Até o Próximo Match',
+  'menu.coach': 'Treinador',
+  'menu.hintsRemaining': 'Dicas restantes',
+  'menu.hintsCost': 'cada dica reduz a eficiência final.',
+  'menu.daily': 'Desafio Diário',
+  'menu.campaign': 'Campanha',
+  'menu.stats': 'Estatísticas',
+  'menu.statsNote': 'Histórico e exportação',
+  'menu.versus': 'Versus Local',
+  'menu.versusNote': 'Dois jogadores neste tabuleiro',
+  'menu.race': 'Corrida Online',
+  'menu.raceNote': 'Mesmo tabuleiro, quem limpa primeiro',
+  'menu.boardSize': 'Tamanho do Tabuleiro',
+  'menu.width': 'Largura',
+  'menu.height': 'Altura',
+  'menu.boardSizeNote': '{width}×{height} — vale a partir do próximo jogo.',
+  'menu.difficulty': 'Dificuldade',
+  'menu.difficultyAny': 'Livre',
+  'menu.difficultyRatedNote': 'Tabuleiros gerados com solução garantida; dificuldades maiores trazem paredes e buracos.',
+  'menu.difficultyAnyNote': 'Tabuleiro sorteado sem verificação; a dificuldade é avaliada depois.',
+  'menu.gameMode': 'Modo de Jogo',
+  'menu.gameModeNote': 'Desafio diário e campanha são sempre clássicos.',
+  'menu.ghostRace': 'Corrida contra a IA',
+  'menu.ghostRaceStart': 'Correr',
+  'menu.ghostRaceNote': 'Recomeça este tabuleiro com um cubo fantasma da IA jogando a própria cópia no ritmo escolhido.',
+  'menu.quickActions': 'Ações Rápidas',
+  'menu.newGame': 'Novo Jogo',
+  'menu.soundOn': 'Som Ativado',
+  'menu.soundOff': 'Som Mudo',
+  'menu.undoPenaltyTitle': 'Cada desfazer conta como um movimento extra, a partir do próximo jogo',
+  'menu.undoPenaltyOn': 'Desfazer com Penalidade (+1)',
+  'menu.undoPenaltyOff': 'Desfazer Sem Penalidade',
+  'menu.controlsCamera': 'Controles Seguem a Câmera',
+  'menu.controlsCameraTitle': 'Cima sempre rola para longe de você, mesmo depois de girar a câmera',
+  'menu.controlsWorld': 'Controles Fixos no Tabuleiro',
+  'menu.controlsWorldTitle': 'As direções ficam presas ao tabuleiro, como vistas da câmera inicial',
+  'menu.seed': 'Semente do Tabuleiro',
+  'menu.seedCurrent': 'Atual:',
+  'menu.seedPlaceholder': 'Digite uma semente',
+  'menu.play': 'Jogar',
+  'menu.seedNote': 'A mesma semente e o mesmo tamanho geram sempre o mesmo tabuleiro.',
+  'menu.manageMap': 'Gerenciar Mapa',
+  'menu.saveMap': 'Salvar Mapa',
+  'menu.loadMap': 'Carregar Mapa',
+  'menu.loadReplay': 'Carregar Replay',
+  'menu.editor': 'Editor de Níveis',
+  'menu.copyCode': 'Copiar Código',
+  'menu.copyLink': 'Copiar Link',
+  'menu.shareCodePlaceholder': 'Cole um código de tabuleiro',
+  'menu.open': 'Abrir',
+  'menu.loadFailed': 'Não foi possível carregar',
+  'menu.language': 'Idioma',
+  'menu.gestures': 'Controle por Gestos',
+  'menu.gesturesNote': 'No celular, você pode deslizar o dedo na tela em qualquer direção para rolar o cubo!',
+  'menu.continue': 'Continuar Jogando',
+
+  // --- APP ---
+  'app.aiSolving': 'IA Resolvendo…',
+  'app.aiQueue': 'Fila: {count} mov.',
+  'app.noHint': 'Nenhuma dica encontrada daqui',
+  'app.backToEditor': 'Voltar ao Editor',
+
+  // --- GAME OVER ---
+  'gameOver.victory': 'VITÓRIA!',
+  'gameOver.win': 'Você completou todo o tabuleiro com sucesso.',
+  'gameOver.winTimeAttack': {
+    one: 'Tabuleiro limpo com {count} segundo de sobra.',
+    other: 'Tabuleiro limpo com {count} segundos de sobra.'
+  },
+  'gameOver.winMoveLimit': {
+    one: 'Tabuleiro limpo dentro do limite de {count} movimento.',
+    other: 'Tabuleiro limpo dentro do limite de {count} movimentos.'
+  },
+  'gameOver.timeUp': 'TEMPO ESGOTADO!',
+  'gameOver.timeUpMessage': {
+    one: 'Você limpou {cleared} de {count} tile antes do fim do tempo.',
+    other: 'Você limpou {cleared} de {count} tiles antes do fim do tempo.'
+  },
+  'gameOver.outOfMoves': 'SEM MOVIMENTOS!',
+  'gameOver.outOfMovesMessage': {
+    one: 'O limite era de {limit} movimentos e ainda resta {count} tile.',
+    other: 'O limite era de {limit} movimentos e ainda restam {count} tiles.'
+  },
+  'gameOver.undoMove': 'Desfazer Movimento',
+  'gameOver.fell': 'VOCÊ CAIU!',
+  'gameOver.fellMessage': 'Cuidado com as bordas do tabuleiro!',
+  'gameOver.undoFall': 'Desfazer Queda',
+  'gameOver.aiComputing': 'IA calculando…',
+  'gameOver.hints': 'Dicas {used}/{total}',
+  'gameOver.efficiency': 'Eficiência',
+  'gameOver.watchReplay': 'Ver Replay',
+  'gameOver.aiSolution': 'Solução da IA',
+  'gameOver.time': 'Tempo',
+  'gameOver.you': 'Você',
+  'gameOver.ghostWins': 'A IA leva esta corrida.',
+  'gameOver.playerAhead': 'Você chegou {time} antes da IA!',
+  'gameOver.ghostAhead': 'A IA chegou {time} antes.',
+  'gameOver.dailyBest': 'Melhor resultado',
+  'gameOver.dailyNoResult': 'Ainda sem resultado neste dia.',
+  'gameOver.replayDaily': 'Repetir Desafio',
+  'gameOver.replayLevel': 'Repetir Nível',
+  'gameOver.nextLevel': 'Próximo Nível',
+  'gameOver.chooseLevel': 'Escolher Nível',
+  'gameOver.tryAgain': 'Tentar Novamente',
+
+  // --- DAILY CHALLENGE ---
+  'daily.today': 'Hoje',
+  'daily.mapTitle': 'Desafio Diário {date}',
+  'daily.streak': 'Sequência',
+  'daily.playAgain': 'Jogar de Novo Hoje',
+  'daily.playToday': 'Jogar Desafio de Hoje',
+
+  // --- STATS ---
+  'stats.loading': 'Carregando histórico…',
+  'stats.empty': 'Nenhuma partida registrada ainda. Termine ou abandone um jogo para começar.',
+  'stats.games': 'Partidas',
+  'stats.losses': { one: '{count} derrota', other: '{count} derrotas' },
+  'stats.abandoned': { one: '{count} abandonada', other: '{count} abandonadas' },
+  'stats.wins': 'Vitórias',
+  'stats.winRate': '{rate} das partidas',
+  'stats.averageEfficiency': 'Eficiência Média',
+  'stats.playTime': 'Tempo de Jogo',
+  'stats.trend': {
+    one: 'Eficiência na última vitória',
+    other: 'Eficiência nas últimas {count} vitórias'
+  },
+  'stats.trendEmpty': 'Vença uma partida para ver a evolução.',
+  'stats.bestBySize': 'Melhor Jogo por Tamanho',
+  'stats.exportCsv': 'Exportar CSV',
+  'stats.exportJson': 'Exportar JSON',
+
+  // --- REPLAY ---
+  'replay.won': 'Vitória',
+  'replay.fell': 'Caiu',
+  'replay.step': 'Passo',
+  'replay.sourceAi': 'IA',
+  'replay.sourcePlayer': 'Jogador',
+  'replay.input.up': 'Cima',
+  'replay.input.down': 'Baixo',
+  'replay.input.left': 'Esquerda',
+  'replay.input.right': 'Direita',
+  'replay.input.undo': 'Desfazer',
+  'replay.previous': 'Passo Anterior',
+  'replay.pause': 'Pausar',
+  'replay.play': 'Reproduzir',
+  'replay.next': 'Próximo Passo',
+  'replay.speed': 'Velocidade',
+  'replay.exportTitle': 'Exportar Replay (JSON)',
+  'replay.export': 'Exportar',
+  'replay.yours': 'Seu Replay',
+  'replay.aiSolution': 'Solução da IA',
+  'replay.imported': 'Replay Importado',
+
+  // --- LEVEL EDITOR ---
+  'editor.tools': 'Ferramentas',
+  'editor.exit': 'Sair do Editor',
+  'editor.tile.wildcard': 'Coringa',
+  'editor.tile.cleared': 'Vazio',
+  'editor.tile.wall': 'Parede',
+  'editor.tile.hole': 'Buraco',
+  'editor.tile.arrow': 'Seta',
+  'editor.tile.paint': 'Tinta',
+  'editor.tile.start': 'Início',
+  'editor.orientation': 'Orientação do Cubo',
+  'editor.face.top': 'Topo',
+  'editor.face.bottom': 'Base',
+  'editor.face.front': 'Frente',
+  'editor.face.back': 'Trás',
+  'editor.face.left': 'Esq.',
+  'editor.face.right': 'Dir.',
+  'editor.spin': 'Girar',
+  'editor.titlePlaceholder': 'Título',
+  'editor.authorPlaceholder': 'Autor',
+  'editor.solving': 'Resolvendo…',
+  'editor.unsolvable': 'Sem solução',
+  'editor.optimal': 'Solução ótima',
+  'editor.bestFound': 'Melhor solução encontrada',
+  'editor.test': 'Testar',
+
+  // --- COACH ---
+  'coach.provider.gemini': 'Gemini',
+  'coach.provider.mock': 'Local (offline)',
+  'coach.thinking': 'Pensando…',
+  'coach.ask': 'Pedir Conselho',
+  'coach.note': {
+    one: 'Cada conselho usa uma dica ({count} restante). O plano é conferido com o solver antes de aparecer.',
+    other: 'Cada conselho usa uma dica ({count} restantes). O plano é conferido com o solver antes de aparecer.'
+  },
+  'coach.verdict.good': 'Confere com o solver',
+  'coach.verdict.questionable': 'Plano duvidoso',
+  'coach.verdict.bad': 'Conselho ruim',
+  'coach.issue.fell': 'O cubo cai do tabuleiro no movimento {step}.',
+  'coach.issue.blocked': 'O movimento {step} bate em uma parede ou seta.',
+  'coach.issue.noMatch': 'O plano não limpa nenhum tile.',
+  'coach.issue.slower': {
+    one: 'Leva {count} movimento até o primeiro match; o solver chega em {solverSteps}.',
+    other: 'Leva {count} movimentos até o primeiro match; o solver chega em {solverSteps}.'
+  },
+  'coach.issue.empty': 'O treinador não sugeriu nenhum movimento.',
+  'coach.solverDiffers': 'O solver começaria por outro movimento.',
+  'coach.showOnBoard': 'Mostrar no Tabuleiro',
+  'coach.error.unreachable': 'Não foi possível falar com o Gemini.',
+  'coach.error.status': 'O Gemini respondeu com erro {status}.',
+  'coach.error.format': 'O Gemini respondeu em um formato inesperado.',
+  'coach.error.solver': 'O solver falhou; tente de novo.',
+  'coach.mock.noPath': 'Nenhum tile pode ser limpo a partir daqui com a orientação atual do cubo.',
+  'coach.mock.plan': {
+    one: 'O tile mais próximo que dá para limpar fica em ({x},{y}), a {count} movimento. Role {keys}; o cubo chega lá com {color} embaixo.',
+    other: 'O tile mais próximo que dá para limpar fica em ({x},{y}), a {count} movimentos. Role {keys}; o cubo chega lá com {color} embaixo.'
+  },
+  'coach.mock.wildcard': {
+    one: 'O tile mais próximo que dá para limpar fica em ({x},{y}), a {count} movimento. Role {keys}; o cubo chega lá com {color} embaixo, e o curinga aceita qualquer cor.',
+    other: 'O tile mais próximo que dá para limpar fica em ({x},{y}), a {count} movimentos. Role {keys}; o cubo chega lá com {color} embaixo, e o curinga aceita qualquer cor.'
+  },
+
+  // --- VERSUS ---
+  'versus.player': 'Jogador {number}',
+  'versus.remaining': { one: 'Resta {count} tile', other: 'Restam {count} tiles' },
+  'versus.skipsTurn': 'perde a vez',
+  'versus.yourTurn': 'sua vez',
+  'versus.newMatch': 'Nova Partida',
+  'versus.exit': 'Sair do Versus',
+  'versus.setupTitle': 'Dois Jogadores, Um Tabuleiro',
+  'versus.turnMode': 'Jogadas',
+  'versus.turnMode.turns': 'Por Turnos',
+  'versus.turnMode.simultaneous': 'Simultâneo',
+  'versus.fallRule': 'Quedas',
+  'versus.fallRule.skip': 'Queda Perde a Vez',
+  'versus.fallRule.lose': 'Queda Perde o Jogo',
+  'versus.turnsNote': 'Cada um rola na sua vez, pelo teclado ou pelos controles na tela.',
+  'versus.simultaneousNote': 'Jogador 1 usa WASD e Jogador 2 as setas, ao mesmo tempo.',
+  'versus.scoringNote': 'Cada tile conta para quem o limpar; os cubos não dividem o mesmo tile.',
+  'versus.noRoom': 'Este tabuleiro não tem espaço para um segundo cubo.',
+  'versus.start': 'Começar',
+  'versus.draw': 'Empate!',
+  'versus.winner': 'Jogador {number} Venceu!',
+  'versus.fellOff': 'Jogador {number} caiu do tabuleiro.',
+  'versus.allCleared': 'Todos os tiles foram limpos.',
+  'versus.rematch': 'Revanche',
+
+  // --- ONLINE RACE ---
+  'race.reconnecting': 'Conexão perdida. Reconectando…',
+  'race.unreachable': 'Não foi possível falar com o servidor da corrida.',
+  'race.intro':
+    'Os dois jogadores recebem o mesmo tabuleiro; vence quem limpar tudo primeiro. O cubo do adversário aparece como um fantasma no seu tabuleiro.',
+  'race.connecting': 'Conectando…',
+  'race.createRoom': 'Criar Sala',
+  'race.codePlaceholder': 'Código da sala',
+  'race.join': 'Entrar',
+  'race.roomCode': 'Código da Sala',
+  'race.board': 'Tabuleiro {width}×{height}',
+  'race.mapTitle': 'Corrida {seed}',
+  'race.noWinner': 'Sem vencedor',
+  'race.youWon': 'Você venceu!',
+  'race.winner': '{name} venceu!',
+  'race.endReason.cleared': 'Limpou o tabuleiro primeiro.',
+  'race.endReason.fell': 'O outro cubo caiu do tabuleiro.',
+  'race.endReason.abandoned': 'O outro jogador saiu da corrida.',
+  'race.ready': 'pronto',
+  'race.waiting': 'aguardando',
+  'race.remaining': { one: '{count} restante', other: '{count} restantes' },
+  'race.waitingOpponent': 'Esperando o adversário entrar com o código…',
+  'race.cancel': 'Cancelar',
+  'race.imReady': 'Estou Pronto',
+  'race.leave': 'Sair da Sala',
+  'race.reconnectingBadge': 'Reconectando à corrida…',
+  'race.error.alreadySeated': 'Você já está em uma sala.',
+  'race.error.roomNotFound': 'Sala não encontrada.',
+  'race.error.roomFull': 'A sala está cheia.',
+  'race.error.raceStarted': 'A corrida desta sala já começou.',
+  'race.error.notSeated': 'Entre em uma sala primeiro.',
+  'race.error.invalidMessage': 'Mensagem inválida.',
+
+  // --- LEADERBOARD ---
+  'leaderboard.loading': 'Carregando placar…',
+  'leaderboard.empty': 'Ninguém pontuou neste tabuleiro ainda.',
+  'leaderboard.submitted': 'Resultado enviado! Sua posição: {rank}º',
+  'leaderboard.namePlaceholder': 'Seu nome',
+  'leaderboard.send': 'Enviar',
+  'leaderboard.today': 'Placar de Hoje',
+  'leaderboard.error.unreachable': 'Servidor do placar indisponível.',
+  'leaderboard.error.status': 'O placar respondeu com erro {status}.',
+  'leaderboard.error.payloadTooLarge': 'Submissão grande demais.',
+  'leaderboard.error.bodyNotJson': 'O corpo não é um JSON válido.',
+  'leaderboard.error.hashMismatch': 'O hash não confere com a URL.',
+  'leaderboard.error.routeNotFound': 'Rota não encontrada.',
+  'leaderboard.error.serverError': 'Erro interno do servidor do placar.',
+  'leaderboard.board': 'Placar do Tabuleiro',
+
+  // --- CAMPAIGN ---
+  'campaign.levels': 'Níveis',
+  'campaign.stars': 'Estrelas',
+  'campaign.level': 'Nível {number}',
+  'campaign.par': 'Par',
+  'campaign.parValue': 'par {par}',
+  'campaign.best': 'Melhor',
+  'campaign.note': 'Termine no par para 3 estrelas. Cada nível desbloqueia o seguinte.',
+  'campaign.title.level-01': 'Primeiros Passos',
+  'campaign.title.level-02': 'Coringa',
+  'campaign.title.level-03': 'Paredes',
+  'campaign.title.level-04': 'Cuidado com o Buraco',
+  'campaign.title.level-05': 'Mão Única',
+  'campaign.title.level-06': 'Tinta Fresca',
+  'campaign.title.level-07': 'Encruzilhada',
+  'campaign.title.level-08': 'Labirinto',
+  'campaign.title.level-09': 'Paleta',
+  'campaign.title.level-10': 'Grande Final',
+
+  // --- GHOST RACE ---
+  'ghost.name': 'IA Fantasma',
+
+  // --- MAP ERRORS ---
+  'mapError.invalidJson': 'O arquivo não é um JSON válido.',
+  'mapError.notMap': 'O arquivo não contém um mapa.',
+  'mapError.unsupportedVersion': 'Versão de mapa não suportada: {version}.',
+  'mapError.fieldNotText': 'O campo {field} deve ser texto.',
+  'mapError.unknownDifficulty': 'Dificuldade desconhecida: {value}.',
+  'mapError.invalidPar': 'O par deve ser um inteiro positivo.',
+  'mapError.invalidSize': 'O tamanho deve ser { width, height }.',
+  'mapError.dimensionRange': 'Deve ser um inteiro entre {min} e {max}.',
+  'mapError.tilesNotList': 'Os tiles devem ser uma lista de linhas.',
+  'mapError.rowCount': 'Esperadas {expected} linhas, encontradas {actual}.',
+  'mapError.rowRange': 'O tabuleiro deve ter entre {min} e {max} linhas.',
+  'mapError.rowNotList': 'Cada linha deve ser uma lista de tiles.',
+  'mapError.columnCount': 'Esperadas {expected} colunas, encontradas {actual}.',
+  'mapError.columnRange': 'O tabuleiro deve ter entre {min} e {max} colunas.',
+  'mapError.unknownTile': 'Tile desconhecido: {value}.',
+  'mapError.noTargets': 'O tabuleiro precisa de ao menos um tile para combinar.',
+  'mapError.startNotPosition': 'A posição inicial deve ser [x, y].',
+  'mapError.startOutOfBoard': 'A posição inicial [{x}, {y}] está fora do tabuleiro.',
+  'mapError.startNotGray': 'O tile inicial [{x}, {y}] deve ser cinza ({color}).',
+  'mapError.facesNotObject': 'As faces do cubo devem ser um objeto.',
+  'mapError.unknownFaceColor': 'Cor de face inválida: {value}.',
+  'mapError.duplicateFaceColor': 'Cada face deve ter uma cor diferente.',
+  'mapError.shareCodeCharacters': 'O código contém caracteres inválidos.',
+  'mapError.shareCodeIncomplete': 'O código está incompleto.',
+  'mapError.shareCodeChecksum': 'O código está corrompido (checksum não confere).',
+  'mapError.shareCodeVersion': 'Versão de código não suportada: {version}.',
+  'mapError.shareCodeTileCount': 'Esperados {expected} tiles, encontrados {actual}.',
+  'mapError.notReplay': 'O arquivo não contém um replay.',
+  'mapError.replayVersion': 'Versão de replay não suportada: {version}.',
+  'mapError.replayStepsNotList': 'Os passos devem ser uma lista.',
+  'mapError.replayInvalidStep': 'Passo de replay inválido.',
+  'mapError.campaignPack': 'Pacote de campanha inválido.',
+  'mapError.campaignLevelShape': 'Cada nível precisa de um id e um mapa.',
+  'mapError.campaignLevelPar': 'Níveis da campanha precisam de um par.',
+  'mapError.notSubmission': 'A submissão deve ser um objeto.',
+  'mapError.missingPlayerName': 'Informe o nome do jogador.',
+  'mapError.missingMapHash': 'Hash do mapa ausente.',
+  'mapError.invalidMoveCount': 'O número de movimentos é inválido.',
+  'mapError.replayWrongBoard': 'O replay não é do tabuleiro informado.',
+  'mapError.replayNotCleared': 'O replay não completa o tabuleiro.',
+  'mapError.replayMoveMismatch': 'O replay termina em {moves} movimentos, não {claimed}.'
+} satisfies Record<string, Message>;
+
+export type Messages = { [K in keyof typeof ptBR]: Message };
+
+export default ptBR;
@@ -0,0 +1,149 @@
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { resolve } from 'node:path';
+import {
+  DEFAULT_LEADERBOARD_PORT,
+  LEADERBOARD_API_VERSION,
+  LEADERBOARD_SIZE,
+  LeaderboardEntry,
+  LeaderboardError,
+  normalizePlayerName,
+  verifySubmission
+} from '../engine/leaderboard';
+import { LeaderboardStore, createFileLeaderboardStore } from './leaderboardStore';
+
+// --- LEADERBOARD REFERENCE SERVER ---
+// Run with `npm run leaderboard`. Settings come from the environment:
+//   LEADERBOARD_PORT  port to listen on (default 8787)
+//   LEADERBOARD_DATA  JSON file the scores are kept in (default ./leaderboard-data.json)
+//
+//   GET  /api/leaderboards/:mapHash?limit=N   top entries of a board
+//   POST /api/leaderboards/:mapHash/entries   submit a result with its replay
+//
+// Every submission is replayed through the engine before it is stored.
+
+// Replays of even the largest boards stay far below this.
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const BOARD_PATH = /^\/api\/leaderboards\/([^/]+)$/;
+const ENTRIES_PATH = /^\/api\/leaderboards\/([^/]+)\/entries$/;
+
+// Players open the game from other LAN hosts and ports.
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+const sendJson = (res: ServerResponse, status: number, body: object) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify({ version: LEADERBOARD_API_VERSION, ...body }));
+};
+
+const sendErrors = (res: ServerResponse, status: number, errors: LeaderboardError[]) =>
+  sendJson(res, status, { errors });
+
+// Resolves null when the body is too large, and stops collecting it; the
+// connection stays up until the caller has answered.
+const readBody = (req: IncomingMessage) =>
+  new Promise<string | null>((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.removeAllListeners('data');
+        resolveBody(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const parseLimit = (value: string | null) => {
+  const limit = Number(value ?? LEADERBOARD_SIZE);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, LEADERBOARD_SIZE) : LEADERBOARD_SIZE;
+};
+
+const handleSubmit = async (req: IncomingMessage, res: ServerResponse, store: LeaderboardStore, mapHash: string) => {
+  const text = await readBody(req);
+  if (text === null) {
+    // Node closes the socket once the answer is written, cutting the upload short.
+    res.setHeader('Connection', 'close');
+    sendErrors(res, 413, [{ field: '', code: 'payload_too_large', detail: 'payloadTooLarge' }]);
+    return;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    sendErrors(res, 400, [{ field: '', code: 'invalid_json', detail: 'bodyNotJson' }]);
+    return;
+  }
+  const verification = verifySubmission(raw);
+  if (!verification.replay) {
+    sendErrors(res, 422, verification.errors);
+    return;
+  }
+  const submission = raw as Record<string, unknown>;
+  if (submission.mapHash !== mapHash) {
+    sendErrors(res, 422, [{ field: 'mapHash', code: 'checksum_mismatch', detail: 'hashMismatch' }]);
+    return;
+  }
+
+  const entry: LeaderboardEntry = {
+    id: randomUUID(),
+    playerName: normalizePlayerName(submission.playerName as string),
+    mapHash,
+    seed: verification.replay.map.seed ?? null,
+    moves: submission.moves as number,
+    submittedAt: new Date().toISOString()
+  };
+  const ranked = await store.addEntry(entry);
+  // A worse result than the player's best leaves the best one standing.
+  const rank = ranked.findIndex(e => e.playerName.toLowerCase() === entry.playerName.toLowerCase());
+  sendJson(res, 201, { entry: ranked[rank], rank: rank + 1, entries: ranked.slice(0, LEADERBOARD_SIZE) });
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse, store: LeaderboardStore) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+  const board = BOARD_PATH.exec(url.pathname);
+  if (board && req.method === 'GET') {
+    const mapHash = decodeURIComponent(board[1]);
+    const entries = await store.getBoard(mapHash);
+    sendJson(res, 200, { mapHash, entries: entries.slice(0, parseLimit(url.searchParams.get('limit'))) });
+    return;
+  }
+  const entries = ENTRIES_PATH.exec(url.pathname);
+  if (entries && req.method === 'POST') {
+    await handleSubmit(req, res, store, decodeURIComponent(entries[1]));
+    return;
+  }
+  sendErrors(res, 404, [{ field: '', code: 'not_found', detail: 'routeNotFound' }]);
+};
+
+const main = async () => {
+  const port = Number(process.env.LEADERBOARD_PORT) || DEFAULT_LEADERBOARD_PORT;
+  const dataFile = resolve(process.env.LEADERBOARD_DATA ?? 'leaderboard-data.json');
+  const store = await createFileLeaderboardStore(dataFile);
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res, store).catch(err => {
+      console.error(err);
+      if (!res.headersSent) sendErrors(res, 500, [{ field: '', code: 'server_error', detail: 'serverError' }]);
+    });
+  });
+  server.listen(port, '0.0.0.0', () => console.log(`Leaderboard on port ${port}, scores in ${dataFile}`));
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
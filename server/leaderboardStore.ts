@@ -0,0 +1,61 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { LeaderboardEntry, rankEntries } from '../engine/leaderboard';
+
+// --- FILE STORAGE ---
+// All boards in one JSON file, rewritten whole on every accepted entry. Only
+// each player's best entry per board is kept, so the file stays small.
+
+const STORE_VERSION = 1;
+
+interface StoreFile {
+  version: typeof STORE_VERSION;
+  boards: Record<string, LeaderboardEntry[]>;
+}
+
+export interface LeaderboardStore {
+  // Ranked, best first.
+  getBoard: (mapHash: string) => Promise<LeaderboardEntry[]>;
+  // Returns the board's ranking after the entry is merged in.
+  addEntry: (entry: LeaderboardEntry) => Promise<LeaderboardEntry[]>;
+}
+
+// A missing file starts an empty store; a corrupt one is an error, so scores
+// are never silently overwritten.
+const loadStoreFile = async (filePath: string): Promise<StoreFile> => {
+  let text: string;
+  try {
+    text = await readFile(filePath, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { version: STORE_VERSION, boards: {} };
+    throw err;
+  }
+  const data = JSON.parse(text) as StoreFile;
+  if (data.version !== STORE_VERSION || typeof data.boards !== 'object') {
+    throw new Error(`Unsupported leaderboard file: ${filePath}`);
+  }
+  return data;
+};
+
+export const createFileLeaderboardStore = async (filePath: string): Promise<LeaderboardStore> => {
+  const data = await loadStoreFile(filePath);
+  // Writes go one at a time, each through a temp file so a crash never leaves half a file.
+  let pendingWrite = Promise.resolve();
+  const save = () => {
+    const text = JSON.stringify(data, null, 2);
+    pendingWrite = pendingWrite.then(async () => {
+      await writeFile(`${filePath}.tmp`, text, 'utf8');
+      await rename(`${filePath}.tmp`, filePath);
+    });
+    return pendingWrite;
+  };
+
+  return {
+    getBoard: async mapHash => data.boards[mapHash] ?? [],
+    addEntry: async entry => {
+      const ranked = rankEntries([...(data.boards[entry.mapHash] ?? []), entry]);
+      data.boards[entry.mapHash] = ranked;
+      await save();
+      return ranked;
+    }
+  };
+};
@@ -0,0 +1,321 @@
+import { randomUUID } from 'node:crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import { BoardSize, Direction } from '../types';
+import { DEFAULT_BOARD_SIZE } from '../constants';
+import { EngineState, applyMove } from '../engine/gameEngine';
+import { MapDocument } from '../engine/mapFormat';
+import { createRandomSeed } from '../engine/random';
+import {
+  DEFAULT_RACE_PORT,
+  RACE_PROTOCOL_VERSION,
+  RACE_RECONNECT_GRACE_MS,
+  RACE_ROOM_CODE_LENGTH,
+  RaceClientMessage,
+  RaceEndReason,
+  RacePhase,
+  RaceRoomView,
+  RaceSeat,
+  RaceServerMessage,
+  createRaceMap,
+  createRaceState,
+  hashRaceState,
+  parseRaceClientMessage,
+  toRacePlayerView
+} from '../engine/race';
+
+// --- ONLINE RACE RELAY SERVER ---
+// Run with `npm run race-server`. Settings come from the environment:
+//   RACE_PORT  port to listen on (default 8788)
+//
+// Rooms live in memory. Every move is replayed here, so a client can only
+// ever be ahead of the server by what is still in flight.
+
+// Dead connections are noticed by missed pongs.
+const HEARTBEAT_MS = 15000;
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+interface Player {
+  seat: RaceSeat;
+  // Secret that lets a reconnecting client take its seat back.
+  token: string;
+  name: string;
+  socket: WebSocket | null;
+  ready: boolean;
+  state: EngineState;
+  moves: Direction[];
+  graceTimer: NodeJS.Timeout | null;
+}
+
+interface Room {
+  code: string;
+  phase: RacePhase;
+  size: BoardSize;
+  // The board of the next race until it starts, then of the current or last one.
+  seed: string;
+  map: MapDocument;
+  players: [Player | null, Player | null];
+  winner: RaceSeat | null;
+  endReason: RaceEndReason | null;
+}
+
+const rooms = new Map<string, Room>();
+const playerOf = new Map<WebSocket, { room: Room; player: Player }>();
+
+const otherSeat = (seat: RaceSeat): RaceSeat => (seat === 0 ? 1 : 0);
+
+const createRoomCode = () => {
+  let code: string;
+  do {
+    code = '';
+    for (let i = 0; i < RACE_ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+    }
+  } while (rooms.has(code));
+  return code;
+};
+
+const send = (socket: WebSocket | null, message: RaceServerMessage) => {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const seatedPlayers = (room: Room) => room.players.filter((player): player is Player => player !== null);
+
+const viewPlayer = (player: Player) =>
+  toRacePlayerView(player.seat, player.name, player.ready, player.socket !== null, player.state);
+
+const viewRoom = (room: Room): RaceRoomView => ({
+  code: room.code,
+  phase: room.phase,
+  // Kept secret until the race starts, so no one can practise the board.
+  seed: room.phase === 'lobby' ? null : room.seed,
+  size: room.size,
+  players: seatedPlayers(room).map(viewPlayer),
+  winner: room.winner,
+  endReason: room.endReason
+});
+
+const broadcastLobby = (room: Room) => {
+  const view = viewRoom(room);
+  for (const player of seatedPlayers(room)) {
+    send(player.socket, { type: 'lobby', version: RACE_PROTOCOL_VERSION, token: player.token, seat: player.seat, room: view });
+  }
+};
+
+const sendStart = (room: Room, player: Player) =>
+  send(player.socket, { type: 'start', seed: room.seed, size: room.size, moves: player.moves });
+
+const createRoom = (size: BoardSize): Room => {
+  const seed = createRandomSeed();
+  const room: Room = {
+    code: createRoomCode(),
+    phase: 'lobby',
+    size,
+    seed,
+    map: createRaceMap(seed, size),
+    players: [null, null],
+    winner: null,
+    endReason: null
+  };
+  rooms.set(room.code, room);
+  return room;
+};
+
+const startRace = (room: Room) => {
+  // A rematch gets a fresh board.
+  if (room.phase === 'finished') {
+    room.seed = createRandomSeed();
+    room.map = createRaceMap(room.seed, room.size);
+  }
+  room.phase = 'racing';
+  room.winner = null;
+  room.endReason = null;
+  for (const player of seatedPlayers(room)) {
+    player.ready = false;
+    player.moves = [];
+    player.state = createRaceState(room.map);
+  }
+  broadcastLobby(room);
+  for (const player of seatedPlayers(room)) sendStart(room, player);
+};
+
+const finishRace = (room: Room, winner: RaceSeat | null, endReason: RaceEndReason) => {
+  room.phase = 'finished';
+  room.winner = winner;
+  room.endReason = endReason;
+  const view = viewRoom(room);
+  for (const player of seatedPlayers(room)) send(player.socket, { type: 'finished', room: view });
+};
+
+const removePlayer = (room: Room, player: Player) => {
+  room.players[player.seat] = null;
+  if (seatedPlayers(room).length === 0) rooms.delete(room.code);
+  else broadcastLobby(room);
+};
+
+// The seat stays open for a while; a race in progress is forfeited if the
+// player does not come back in time.
+const handleDisconnect = (socket: WebSocket) => {
+  const seated = playerOf.get(socket);
+  playerOf.delete(socket);
+  if (!seated || seated.player.socket !== socket) return;
+  const { room, player } = seated;
+  player.socket = null;
+  player.ready = false;
+  broadcastLobby(room);
+  player.graceTimer = setTimeout(() => {
+    player.graceTimer = null;
+    if (room.phase === 'racing' && player.state.status === 'playing') finishRace(room, otherSeat(player.seat), 'abandoned');
+    removePlayer(room, player);
+  }, RACE_RECONNECT_GRACE_MS);
+};
+
+const sit = (socket: WebSocket, room: Room, player: Player) => {
+  if (player.graceTimer) clearTimeout(player.graceTimer);
+  player.graceTimer = null;
+  // A second tab with the same token takes over the seat.
+  if (player.socket && player.socket !== socket) {
+    playerOf.delete(player.socket);
+    player.socket.close();
+  }
+  player.socket = socket;
+  playerOf.set(socket, { room, player });
+  broadcastLobby(room);
+  if (room.phase === 'racing') sendStart(room, player);
+};
+
+const handleLobby = (socket: WebSocket, message: Extract<RaceClientMessage, { type: 'lobby' }>) => {
+  if (playerOf.has(socket)) {
+    send(socket, { type: 'error', code: 'alreadySeated' });
+    return;
+  }
+  const room = message.room === null ? createRoom(message.size ?? DEFAULT_BOARD_SIZE) : rooms.get(message.room);
+  if (!room) {
+    send(socket, { type: 'error', code: 'roomNotFound' });
+    return;
+  }
+  const resumed = seatedPlayers(room).find(player => player.token === message.token);
+  if (resumed) {
+    sit(socket, room, resumed);
+    return;
+  }
+  const seat = room.players.findIndex(player => player === null);
+  if (seat === -1) {
+    send(socket, { type: 'error', code: 'roomFull' });
+    return;
+  }
+  if (room.phase === 'racing') {
+    send(socket, { type: 'error', code: 'raceStarted' });
+    return;
+  }
+  const player: Player = {
+    seat: seat as RaceSeat,
+    token: randomUUID(),
+    name: message.playerName,
+    socket: null,
+    ready: false,
+    state: createRaceState(room.map),
+    moves: [],
+    graceTimer: null
+  };
+  room.players[player.seat] = player;
+  sit(socket, room, player);
+};
+
+const handleMessage = (socket: WebSocket, message: RaceClientMessage) => {
+  if (message.type === 'lobby') {
+    handleLobby(socket, message);
+    return;
+  }
+  const seated = playerOf.get(socket);
+  if (!seated) {
+    send(socket, { type: 'error', code: 'notSeated' });
+    return;
+  }
+  const { room, player } = seated;
+  const opponent = room.players[otherSeat(player.seat)];
+
+  switch (message.type) {
+    case 'ready':
+      if (room.phase === 'racing') return;
+      player.ready = message.ready;
+      if (seatedPlayers(room).length === 2 && seatedPlayers(room).every(p => p.ready && p.socket)) startRace(room);
+      else broadcastLobby(room);
+      return;
+
+    case 'move': {
+      if (room.phase !== 'racing' || player.state.status !== 'playing') return;
+      // A move the client made before it saw a desync; it resyncs from there.
+      if (message.index !== player.moves.length) {
+        send(socket, { type: 'desync', moves: player.moves });
+        return;
+      }
+      const { state, events } = applyMove(player.state, message.direction);
+      if (events.some(event => event.type === 'blocked')) {
+        send(socket, { type: 'desync', moves: player.moves });
+        return;
+      }
+      player.state = state;
+      player.moves.push(message.direction);
+      send(opponent?.socket ?? null, {
+        type: 'move',
+        seat: player.seat,
+        direction: message.direction,
+        player: viewPlayer(player)
+      });
+      if (state.status === 'lost') finishRace(room, opponent ? opponent.seat : null, 'fell');
+      return;
+    }
+
+    case 'stateHash':
+      // Hashes for moves the server has not seen yet are checked on the next one.
+      if (message.moves === player.moves.length && message.hash !== hashRaceState(player.state)) {
+        send(socket, { type: 'desync', moves: player.moves });
+      }
+      return;
+
+    case 'finished':
+      if (room.phase !== 'racing') return;
+      if (
+        player.state.status !== 'won' ||
+        message.moves !== player.moves.length ||
+        message.hash !== hashRaceState(player.state)
+      ) {
+        send(socket, { type: 'desync', moves: player.moves });
+        return;
+      }
+      finishRace(room, player.seat, 'cleared');
+      return;
+  }
+};
+
+const main = () => {
+  const port = Number(process.env.RACE_PORT) || DEFAULT_RACE_PORT;
+  const server = new WebSocketServer({ port, host: '0.0.0.0', maxPayload: 64 * 1024 });
+  const alive = new WeakSet<WebSocket>();
+
+  server.on('connection', socket => {
+    alive.add(socket);
+    socket.on('pong', () => alive.add(socket));
+    socket.on('message', data => {
+      const message = parseRaceClientMessage(data.toString());
+      if (!message) send(socket, { type: 'error', code: 'invalidMessage' });
+      else handleMessage(socket, message);
+    });
+    socket.on('close', () => handleDisconnect(socket));
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const socket of server.clients) {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(socket);
+      socket.ping();
+    }
+  }, HEARTBEAT_MS);
+  server.on('close', () => clearInterval(heartbeat));
+  server.on('listening', () => console.log(`Race relay on port ${port}`));
+};
+
+main();
@@ -0,0 +1,87 @@
+import {
+  CoachAdvice,
+  CoachRequest,
+  buildCoachPrompt,
+  getColorName,
+  parseCoachResponse
+} from '../engine/coach';
+import { getScreenArrow } from '../engine/controls';
+import { applyMoves } from '../engine/gameEngine';
+import { MessageKey, translate } from '../engine/i18n';
+import { findNearestMatchPath } from '../engine/solver';
+
+// --- COACH PROVIDERS ---
+// Language-model backends for the coach. Failures reject with an Error whose
+// message, in the request's locale, can be shown to the player as is.
+
+export type CoachProviderId = 'gemini' | 'mock';
+
+export interface CoachProvider {
+  id: CoachProviderId;
+  label: MessageKey;
+  advise: (request: CoachRequest) => Promise<CoachAdvice>;
+}
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+const GEMINI_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export const getGeminiApiKey = () => process.env.GEMINI_API_KEY || '';
+
+export const createGeminiCoach = (apiKey: string = getGeminiApiKey(), model: string = GEMINI_MODEL): CoachProvider => ({
+  id: 'gemini',
+  label: 'coach.provider.gemini',
+  advise: async request => {
+    const fail = (key: MessageKey, params?: Record<string, string | number>) =>
+      new Error(translate(request.locale, key, params));
+    let response: Response;
+    try {
+      response = await fetch(`${GEMINI_ENDPOINT}/${model}:generateContent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({
+          contents: [{ role: 'user', parts: [{ text: buildCoachPrompt(request) }] }],
+          generationConfig: { responseMimeType: 'application/json', temperature: 0.2 }
+        })
+      });
+    } catch (err) {
+      throw fail('coach.error.unreachable');
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw body?.error?.message ? new Error(body.error.message) : fail('coach.error.status', { status: response.status });
+    }
+    const parts: { text?: string }[] = body?.candidates?.[0]?.content?.parts ?? [];
+    const advice = parseCoachResponse(parts.map(part => part.text ?? '').join(''));
+    if (!advice) throw fail('coach.error.format');
+    return advice;
+  }
+});
+
+// Offline stand-in: walks to the nearest clearable tile and explains it from a
+// template. The same position always gets the same answer.
+export const createMockCoach = (): CoachProvider => ({
+  id: 'mock',
+  label: 'coach.provider.mock',
+  advise: async ({ state, locale, viewForward }) => {
+    const path = findNearestMatchPath(state.grid, state.cubePosition, state.cubeFaces);
+    if (!path) return { moves: [], explanation: translate(locale, 'coach.mock.noPath') };
+    const { state: end } = applyMoves(state, path);
+    const [x, y] = end.cubePosition;
+    const target = state.grid[y][x];
+    const params = {
+      x: String(x),
+      y: String(y),
+      count: path.length,
+      keys: path.map(move => getScreenArrow(move, viewForward)).join(' '),
+      color: getColorName(end.cubeFaces.bottom)
+    };
+    return {
+      moves: path,
+      explanation: translate(locale, target.kind === 'wildcard' ? 'coach.mock.wildcard' : 'coach.mock.plan', params)
+    };
+  }
+});
+
+// Gemini only shows up when a key was configured at build time.
+export const getCoachProviders = (): CoachProvider[] =>
+  getGeminiApiKey() ? [createGeminiCoach(), createMockCoach()] : [createMockCoach()];
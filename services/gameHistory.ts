@@ -0,0 +1,66 @@
+import { GameRecord } from '../engine/gameStats';
+
+// --- GAME HISTORY (IndexedDB) ---
+// Every game is kept here, which would outgrow localStorage. Like the
+// localStorage helpers, nothing here rejects: without IndexedDB (private
+// windows, old browsers) writes are dropped and reads come back empty.
+
+const DB_NAME = 'cube_history';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+
+export interface GameHistoryRepository {
+  add: (record: GameRecord) => Promise<void>;
+  // Oldest first.
+  list: () => Promise<GameRecord[]>;
+  clear: () => Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(GAMES_STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('playedAt', 'playedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createGameHistoryRepository = (): GameHistoryRepository => {
+  // Opened on first use and shared afterwards.
+  let db: Promise<IDBDatabase> | null = null;
+  const getStore = async (mode: IDBTransactionMode) => {
+    db ??= openDatabase();
+    return (await db).transaction(GAMES_STORE, mode).objectStore(GAMES_STORE);
+  };
+
+  return {
+    add: async record => {
+      try {
+        const { id, ...fields } = record;
+        await requestToPromise((await getStore('readwrite')).add(fields));
+      } catch (err) {}
+    },
+    list: async () => {
+      try {
+        return await requestToPromise<GameRecord[]>((await getStore('readonly')).index('playedAt').getAll());
+      } catch (err) {
+        return [];
+      }
+    },
+    clear: async () => {
+      try {
+        await requestToPromise((await getStore('readwrite')).clear());
+      } catch (err) {}
+    }
+  };
+};
+
+export const gameHistory = createGameHistoryRepository();
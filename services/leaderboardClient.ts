@@ -0,0 +1,77 @@
+import {
+  DEFAULT_LEADERBOARD_PORT,
+  LEADERBOARD_SIZE,
+  LeaderboardEntry,
+  LeaderboardError,
+  LeaderboardSubmission,
+  getLeaderboardErrorKey
+} from '../engine/leaderboard';
+import { MessageKey, MessageParams } from '../engine/i18n';
+
+// --- LEADERBOARD CLIENT ---
+// REST client for the reference server (npm run leaderboard). Failures reject
+// with a LeaderboardRequestError naming the catalog message to show the player.
+
+export class LeaderboardRequestError extends Error {
+  key: MessageKey;
+  params?: MessageParams;
+
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(key);
+    this.name = 'LeaderboardRequestError';
+    this.key = key;
+    this.params = params;
+  }
+}
+
+export interface SubmitResult {
+  entry: LeaderboardEntry;
+  // 1-based position on the board.
+  rank: number;
+  entries: LeaderboardEntry[];
+}
+
+export interface LeaderboardClient {
+  fetchTop: (mapHash: string, limit?: number) => Promise<LeaderboardEntry[]>;
+  submit: (submission: LeaderboardSubmission) => Promise<SubmitResult>;
+}
+
+// Without a configured URL, the server is expected on the host serving the
+// game, so a LAN address works for everyone who opened it.
+export const getLeaderboardUrl = () =>
+  process.env.LEADERBOARD_URL ||
+  `${window.location.protocol}//${window.location.hostname}:${DEFAULT_LEADERBOARD_PORT}`;
+
+export const createLeaderboardClient = (baseUrl: string = getLeaderboardUrl()): LeaderboardClient => {
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, init);
+    } catch (err) {
+      throw new LeaderboardRequestError('leaderboard.error.unreachable');
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      const error: LeaderboardError | undefined = body?.errors?.[0];
+      throw error?.detail
+        ? new LeaderboardRequestError(getLeaderboardErrorKey(error), error.params)
+        : new LeaderboardRequestError('leaderboard.error.status', { status: response.status });
+    }
+    return body as T;
+  };
+
+  return {
+    fetchTop: async (mapHash, limit = LEADERBOARD_SIZE) => {
+      const body = await request<{ entries: LeaderboardEntry[] }>(
+        `/api/leaderboards/${encodeURIComponent(mapHash)}?limit=${limit}`
+      );
+      return body.entries;
+    },
+    submit: submission =>
+      request<SubmitResult>(`/api/leaderboards/${encodeURIComponent(submission.mapHash)}/entries`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(submission)
+      })
+  };
+};
@@ -0,0 +1,96 @@
+import { BoardSize } from '../types';
+import { DEFAULT_RACE_PORT, RaceClientMessage, RaceServerMessage } from '../engine/race';
+
+// --- ONLINE RACE CLIENT ---
+// WebSocket connection to the relay server (npm run race-server). A dropped
+// connection is retried with backoff and the seat is resumed with the token
+// from the last lobby message; once retries run out (or the first connection
+// fails) the status goes 'closed'.
+
+export type RaceConnectionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface RaceClientHandlers {
+  onMessage: (message: RaceServerMessage) => void;
+  onStatus: (status: RaceConnectionStatus) => void;
+}
+
+export interface RaceClient {
+  // Connects and takes a seat; a null room creates one.
+  join: (playerName: string, room: string | null, size?: BoardSize) => void;
+  // False when the socket is not open; the message is dropped.
+  send: (message: Exclude<RaceClientMessage, { type: 'lobby' }>) => boolean;
+  leave: () => void;
+}
+
+// Adds up to a bit more than the server's reconnect grace period.
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000, 8000, 8000];
+
+export const getRaceServerUrl = () =>
+  process.env.RACE_SERVER_URL ||
+  `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.hostname}:${DEFAULT_RACE_PORT}`;
+
+export const createRaceClient = (handlers: RaceClientHandlers, url: string = getRaceServerUrl()): RaceClient => {
+  let socket: WebSocket | null = null;
+  let seat: { playerName: string; room: string | null; token: string | null; size?: BoardSize } | null = null;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = () => {
+    retryTimer = null;
+    handlers.onStatus(attempts === 0 ? 'connecting' : 'reconnecting');
+    const ws = new WebSocket(url);
+    socket = ws;
+    ws.onopen = () => {
+      if (!seat) return;
+      attempts = 0;
+      handlers.onStatus('open');
+      ws.send(JSON.stringify({ type: 'lobby', ...seat }));
+    };
+    ws.onmessage = event => {
+      let message: RaceServerMessage;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch (err) {
+        return;
+      }
+      if (message.type === 'lobby' && seat) seat = { ...seat, room: message.room.code, token: message.token };
+      handlers.onMessage(message);
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      // Only a seat that was taken is worth coming back for.
+      if (!seat?.token || attempts >= RECONNECT_DELAYS_MS.length) {
+        handlers.onStatus('closed');
+        return;
+      }
+      handlers.onStatus('reconnecting');
+      retryTimer = setTimeout(connect, RECONNECT_DELAYS_MS[attempts++]);
+    };
+  };
+
+  const leave = () => {
+    seat = null;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    handlers.onStatus('idle');
+  };
+
+  return {
+    join: (playerName, room, size) => {
+      leave();
+      seat = { playerName, room, token: null, size };
+      attempts = 0;
+      connect();
+    },
+    send: message => {
+      if (socket?.readyState !== WebSocket.OPEN) return false;
+      socket.send(JSON.stringify(message));
+      return true;
+    },
+    leave
+  };
+};
@@ -0,0 +1,77 @@
+import { CampaignProgress, CampaignResult, isBetterCampaignResult } from '../engine/campaign';
+import { CONTROL_MODES, ControlMode } from '../engine/controls';
+import { DailyResult, DailyResults, isBetterDailyResult } from '../engine/daily';
+import { Locale, isLocale } from '../engine/i18n';
+
+// --- LOCAL STORAGE ---
+// All persisted keys live here. Reads never throw: missing or corrupt values
+// fall back to defaults.
+
+const HIGH_SCORE_KEY = 'cube_high_score';
+const DAILY_RESULTS_KEY = 'cube_daily_results';
+const UNDO_PENALTY_KEY = 'cube_undo_penalty';
+const CAMPAIGN_PROGRESS_KEY = 'cube_campaign_progress';
+const PLAYER_NAME_KEY = 'cube_player_name';
+const LOCALE_KEY = 'cube_locale';
+const CONTROL_MODE_KEY = 'cube_control_mode';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (err) {
+    return fallback;
+  }
+};
+
+export const loadHighScore = (): number => parseInt(localStorage.getItem(HIGH_SCORE_KEY) || '0', 10);
+
+export const saveHighScore = (score: number) => localStorage.setItem(HIGH_SCORE_KEY, score.toString());
+
+export const loadDailyResults = (): DailyResults => readJson<DailyResults>(DAILY_RESULTS_KEY, {});
+
+// Stores the result only if it beats the day's previous best; returns all results.
+export const recordDailyResult = (dateKey: string, result: DailyResult): DailyResults => {
+  const results = loadDailyResults();
+  if (isBetterDailyResult(result, results[dateKey])) {
+    results[dateKey] = result;
+    localStorage.setItem(DAILY_RESULTS_KEY, JSON.stringify(results));
+  }
+  return results;
+};
+
+export const loadUndoPenalty = (): boolean => readJson<boolean>(UNDO_PENALTY_KEY, false);
+
+export const saveUndoPenalty = (enabled: boolean) => localStorage.setItem(UNDO_PENALTY_KEY, JSON.stringify(enabled));
+
+export const loadCampaignProgress = (): CampaignProgress => readJson<CampaignProgress>(CAMPAIGN_PROGRESS_KEY, {});
+
+// Keeps each level's best result; returns the whole progress.
+export const recordCampaignResult = (levelId: string, result: CampaignResult): CampaignProgress => {
+  const progress = loadCampaignProgress();
+  if (isBetterCampaignResult(result, progress[levelId])) {
+    progress[levelId] = result;
+    localStorage.setItem(CAMPAIGN_PROGRESS_KEY, JSON.stringify(progress));
+  }
+  return progress;
+};
+
+export const loadPlayerName = (): string => readJson<string>(PLAYER_NAME_KEY, '');
+
+export const savePlayerName = (name: string) => localStorage.setItem(PLAYER_NAME_KEY, JSON.stringify(name));
+
+// Null until the player picks a language in the options menu.
+export const loadLocale = (): Locale | null => {
+  const locale = readJson<unknown>(LOCALE_KEY, null);
+  return isLocale(locale) ? locale : null;
+};
+
+export const saveLocale = (locale: Locale) => localStorage.setItem(LOCALE_KEY, JSON.stringify(locale));
+
+// Camera-relative unless the player switched back to world-fixed controls.
+export const loadControlMode = (): ControlMode => {
+  const mode = readJson<unknown>(CONTROL_MODE_KEY, null);
+  return CONTROL_MODES.includes(mode as ControlMode) ? (mode as ControlMode) : 'camera';
+};
+
+export const saveControlMode = (mode: ControlMode) => localStorage.setItem(CONTROL_MODE_KEY, JSON.stringify(mode));
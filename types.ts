@@ -1,4 +1,8 @@
 
+import type { Difficulty } from './engine/difficulty';
+import type { EndReason, GameMode } from './engine/gameModes';
+import type { MapDocument } from './engine/mapFormat';
+
 export enum ColorType {
   GREEN = '#22c55e',
   RED = '#ef4444',
@@ -13,23 +17,65 @@ export enum ColorType {
 
 export type Direction = 'up' | 'down' | 'left' | 'right';
 
+// What a board cell does. Color tiles clear when the cube lands on them with
+// that color at the bottom; wildcards clear under any face. Walls can't be
+// entered, holes are a fall, and arrows can only be entered moving their way.
+// Paint tiles never clear; they recolor the face the cube lands on.
+export type Tile =
+  | { kind: 'color'; color: ColorType }
+  | { kind: 'wildcard' }
+  | { kind: 'cleared' }
+  | { kind: 'start' }
+  | { kind: 'wall' }
+  | { kind: 'hole' }
+  | { kind: 'arrow'; direction: Direction }
+  | { kind: 'paint'; color: ColorType };
+
+export type TileKind = Tile['kind'];
+
+export interface BoardSize {
+  width: number;
+  height: number;
+}
+
+export interface CubeFaces {
+  top: ColorType;
+  bottom: ColorType;
+  front: ColorType;
+  back: ColorType;
+  left: ColorType;
+  right: ColorType;
+}
+
+export type GameStatus = 'playing' | 'won' | 'lost';
+
+// Why a finished search left optimalAiMoves null: the board has no solution,
+// or the search stopped before finding any path.
+export type AiUnsolvedReason = 'unsolvable' | 'unknown';
+
 export interface GameState {
-  initialGrid: ColorType[][];
-  grid: ColorType[][];
+  map: MapDocument;
+  grid: Tile[][];
   cubePosition: [number, number];
-  cubeFaces: {
-    top: ColorType;
-    bottom: ColorType;
-    front: ColorType;
-    back: ColorType;
-    left: ColorType;
-    right: ColorType;
-  };
+  cubeFaces: CubeFaces;
   moves: number;
-  optimalAiMoves: number;
+  // Null until the solver reports a path.
+  optimalAiMoves: number | null;
+  // False while optimalAiMoves is only the best bound found so far.
+  optimalAiProven: boolean;
+  // Null while the search runs or once it has found a path.
+  aiUnsolved: AiUnsolvedReason | null;
+  // Best path the solver has reported, used for the AI solution replay.
+  aiSolution: Direction[] | null;
+  // The generator's label, or a rating of the solver's result once it arrives.
+  difficulty: Difficulty | null;
   matchedCount: number;
-  status: 'playing' | 'won' | 'lost';
+  status: GameStatus;
+  mode: GameMode;
+  // Set when status leaves 'playing'; cleared again by an undo.
+  endReason: EndReason | null;
   highScore: number;
+  hintsUsed: number;
   aiComparisonScore?: number;
   aiComparisonMoves?: number;
 }
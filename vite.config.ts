@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LEADERBOARD_URL': JSON.stringify(env.LEADERBOARD_URL || ''),
+        'process.env.RACE_SERVER_URL': JSON.stringify(env.RACE_SERVER_URL || '')
       },
       resolve: {
         alias: {
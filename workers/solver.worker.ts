@@ -0,0 +1,86 @@
+import { searchRatedGrid } from '../engine/generator';
+import { findNearestMatchPath, searchOptimal } from '../engine/solver';
+import { SolverRequest, SolverResponse } from './solverProtocol';
+
+// Runs solver requests off the main thread. Searches and generation advance in
+// short slices separated by macrotasks so cancel messages are handled between them.
+
+const ctx = self as unknown as Worker;
+const SLICE_MS = 30;
+// Requests still being sliced; cancelling drops one, so a cancel arriving after
+// the reply leaves nothing behind.
+const running = new Set<number>();
+
+const send = (message: SolverResponse) => ctx.postMessage(message);
+
+const runSliced = <T, R>(
+  requestId: number,
+  search: Generator<T, R, void>,
+  onStep: (value: T) => void,
+  onDone: (value: R) => void
+) => {
+  running.add(requestId);
+
+  const slice = () => {
+    if (!running.has(requestId)) {
+      send({ type: 'cancelled', requestId });
+      return;
+    }
+    const sliceEnd = Date.now() + SLICE_MS;
+    while (Date.now() < sliceEnd) {
+      const step = search.next();
+      if (step.done === true) {
+        running.delete(requestId);
+        onDone(step.value);
+        return;
+      }
+      onStep(step.value);
+    }
+    setTimeout(slice, 0);
+  };
+
+  slice();
+};
+
+const runSolve = (requestId: number, search: ReturnType<typeof searchOptimal>) => {
+  let bestMoves: number | null = null;
+  runSliced(
+    requestId,
+    search,
+    ({ expandedNodes, lowerBound, bestPath }) => {
+      if (bestPath && bestPath.length !== bestMoves) {
+        bestMoves = bestPath.length;
+        send({ type: 'partial', requestId, path: bestPath });
+      }
+      send({ type: 'progress', requestId, expandedNodes, lowerBound, bestMoves });
+    },
+    result => send({ type: 'result', requestId, result })
+  );
+};
+
+ctx.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'solve':
+      runSolve(request.requestId, searchOptimal(request.state, request.options));
+      break;
+    case 'nearestPath':
+      send({
+        type: 'nearestPath',
+        requestId: request.requestId,
+        path: findNearestMatchPath(request.grid, request.position, request.faces)
+      });
+      break;
+    case 'generate':
+      runSliced(
+        request.requestId,
+        searchRatedGrid(request.size, request.seed, request.difficulty),
+        () => {},
+        board => send({ type: 'generated', requestId: request.requestId, board })
+      );
+      break;
+    case 'cancel':
+      running.delete(request.requestId);
+      break;
+  }
+};
@@ -0,0 +1,151 @@
+import { BoardSize, CubeFaces, Direction, Tile } from '../types';
+import { EngineState } from '../engine/gameEngine';
+import { Difficulty } from '../engine/difficulty';
+import { GeneratedBoard } from '../engine/generator';
+import { SolveResult, SolverOptions } from '../engine/solver';
+import { SolverRequest, SolverResponse } from './solverProtocol';
+
+// Main-thread side of the solver worker. Cancelled jobs, and jobs still open
+// when the client is terminated, reject with SolverCancelledError. If the
+// worker throws, its open jobs reject with SolverFailedError and a new worker
+// takes over for the jobs that follow.
+
+export class SolverCancelledError extends Error {
+  constructor() {
+    super('Solver job cancelled');
+    this.name = 'SolverCancelledError';
+  }
+}
+
+export class SolverFailedError extends Error {
+  constructor() {
+    super('Solver worker failed');
+    this.name = 'SolverFailedError';
+  }
+}
+
+// Rejection handler that leaves cancelled jobs alone: whoever cancelled one
+// has already cleaned up after it.
+export const unlessCancelled = (onError: (err: unknown) => void) => (err: unknown) => {
+  if (!(err instanceof SolverCancelledError)) onError(err);
+};
+
+export interface SolverJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export interface SolveHandlers {
+  onProgress?: (progress: { expandedNodes: number; lowerBound: number; bestMoves: number | null }) => void;
+  onPartial?: (path: Direction[]) => void;
+}
+
+export interface SolverClient {
+  solve: (state: EngineState, options?: SolverOptions, handlers?: SolveHandlers) => SolverJob<SolveResult>;
+  findNearestPath: (grid: Tile[][], position: [number, number], faces: CubeFaces) => SolverJob<Direction[] | null>;
+  generate: (size: BoardSize, seed: string, difficulty: Difficulty) => SolverJob<GeneratedBoard | null>;
+  terminate: () => void;
+}
+
+interface PendingJob {
+  onMessage: (message: SolverResponse) => void;
+  onCancel: (error: Error) => void;
+}
+
+export const createSolverClient = (): SolverClient => {
+  const pending = new Map<number, PendingJob>();
+  let nextRequestId = 1;
+
+  const rejectPending = (createError: () => Error) => {
+    const jobs = [...pending.values()];
+    pending.clear();
+    jobs.forEach(job => job.onCancel(createError()));
+  };
+
+  const spawn = () => {
+    const next = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+    next.onmessage = (event: MessageEvent<SolverResponse>) => {
+      pending.get(event.data.requestId)?.onMessage(event.data);
+    };
+    // A job whose worker threw or lost a reply would never settle.
+    next.onerror = next.onmessageerror = () => {
+      next.terminate();
+      worker = spawn();
+      rejectPending(() => new SolverFailedError());
+    };
+    return next;
+  };
+
+  let worker = spawn();
+
+  const post = (request: SolverRequest) => worker.postMessage(request);
+
+  // handle() sees every reply to the request and calls settle with the answer.
+  const startJob = <T>(
+    createRequest: (requestId: number) => SolverRequest,
+    handle: (message: SolverResponse, settle: (value: T) => void) => void
+  ): SolverJob<T> => {
+    const requestId = nextRequestId++;
+    const promise = new Promise<T>((resolve, reject) => {
+      const settle = (value: T) => {
+        pending.delete(requestId);
+        resolve(value);
+      };
+      pending.set(requestId, {
+        onMessage: message => handle(message, settle),
+        onCancel: reject
+      });
+    });
+    post(createRequest(requestId));
+    return { promise, cancel: () => cancelRequest(requestId) };
+  };
+
+  const cancelRequest = (requestId: number) => {
+    const job = pending.get(requestId);
+    if (!job) return;
+    pending.delete(requestId);
+    job.onCancel(new SolverCancelledError());
+    post({ type: 'cancel', requestId });
+  };
+
+  const solve: SolverClient['solve'] = (state, options, handlers = {}) =>
+    startJob<SolveResult>(
+      requestId => ({ type: 'solve', requestId, state, options }),
+      (message, settle) => {
+        switch (message.type) {
+          case 'progress':
+            handlers.onProgress?.(message);
+            break;
+          case 'partial':
+            handlers.onPartial?.(message.path);
+            break;
+          case 'result':
+            settle(message.result);
+            break;
+        }
+      }
+    );
+
+  const findNearestPath: SolverClient['findNearestPath'] = (grid, position, faces) =>
+    startJob<Direction[] | null>(
+      requestId => ({ type: 'nearestPath', requestId, grid, position, faces }),
+      (message, settle) => {
+        if (message.type === 'nearestPath') settle(message.path);
+      }
+    );
+
+  const generate: SolverClient['generate'] = (size, seed, difficulty) =>
+    startJob<GeneratedBoard | null>(
+      requestId => ({ type: 'generate', requestId, size, seed, difficulty }),
+      (message, settle) => {
+        if (message.type === 'generated') settle(message.board);
+      }
+    );
+
+  const terminate = () => {
+    rejectPending(() => new SolverCancelledError());
+    worker.terminate();
+  };
+
+  return { solve, findNearestPath, generate, terminate };
+};
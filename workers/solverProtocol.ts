@@ -0,0 +1,22 @@
+import { BoardSize, CubeFaces, Direction, Tile } from '../types';
+import { EngineState } from '../engine/gameEngine';
+import { Difficulty } from '../engine/difficulty';
+import { GeneratedBoard } from '../engine/generator';
+import { SolveResult, SolverOptions } from '../engine/solver';
+
+// --- SOLVER WORKER MESSAGE PROTOCOL ---
+// Every request carries a requestId chosen by the client; all replies echo it.
+
+export type SolverRequest =
+  | { type: 'solve'; requestId: number; state: EngineState; options?: SolverOptions }
+  | { type: 'nearestPath'; requestId: number; grid: Tile[][]; position: [number, number]; faces: CubeFaces }
+  | { type: 'generate'; requestId: number; size: BoardSize; seed: string; difficulty: Difficulty }
+  | { type: 'cancel'; requestId: number };
+
+export type SolverResponse =
+  | { type: 'progress'; requestId: number; expandedNodes: number; lowerBound: number; bestMoves: number | null }
+  | { type: 'partial'; requestId: number; path: Direction[] }
+  | { type: 'result'; requestId: number; result: SolveResult }
+  | { type: 'nearestPath'; requestId: number; path: Direction[] | null }
+  | { type: 'generated'; requestId: number; board: GeneratedBoard | null }
+  | { type: 'cancelled'; requestId: number };